@@ -5,6 +5,7 @@ import {
 } from "vscode-languageserver";
 import { CommandManager } from "./commandManager";
 import * as ElmMakeDiagnostics from "./providers/diagnostics/elmMakeDiagnostics";
+import { SEMANTIC_TOKENS_LEGEND } from "./providers/semanticTokensProvider";
 
 export class CapabilityCalculator {
   private clientCapabilities: ClientCapabilities;
@@ -13,10 +14,11 @@ export class CapabilityCalculator {
     this.clientCapabilities = clientCapabilities;
   }
 
-  get capabilities(): ServerCapabilities {
+  get capabilities(): ServerCapabilities & { inlayHintProvider: boolean } {
     this.clientCapabilities;
 
     return {
+      callHierarchyProvider: true,
       codeActionProvider: {
         resolveProvider: true,
       },
@@ -28,6 +30,7 @@ export class CapabilityCalculator {
       },
       definitionProvider: true,
       documentFormattingProvider: true,
+      documentHighlightProvider: true,
       documentSymbolProvider: { label: "Elm" },
       executeCommandProvider: {
         commands: [
@@ -37,12 +40,22 @@ export class CapabilityCalculator {
       },
       foldingRangeProvider: true,
       hoverProvider: true,
+      implementationProvider: true,
+      inlayHintProvider: true,
       referencesProvider: true,
       renameProvider: {
         prepareProvider: true,
       },
       selectionRangeProvider: true,
+      semanticTokensProvider: {
+        legend: SEMANTIC_TOKENS_LEGEND,
+        full: { delta: true },
+      },
+      signatureHelpProvider: {
+        triggerCharacters: [" "],
+      },
       textDocumentSync: TextDocumentSyncKind.Incremental,
+      typeDefinitionProvider: true,
       workspaceSymbolProvider: true,
       workspace: {
         fileOperations: {
@@ -0,0 +1,319 @@
+import * as Path from "path";
+import { version } from "pjson";
+import { PassThrough, Writable } from "stream";
+import { container } from "tsyringe";
+import {
+  Connection,
+  DiagnosticSeverity,
+  ProposedFeatures,
+} from "vscode-languageserver";
+import { createConnection } from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import Parser from "web-tree-sitter";
+import { createNodeProgramHost, IProgram, Program } from "./compiler/program";
+import {
+  convertFromAnalyzerDiagnostic,
+  IDiagnostic,
+} from "./providers/diagnostics/diagnosticsProvider";
+import { DiagnosticsConfig } from "./providers/diagnostics/diagnosticsConfig";
+import { ElmLsDiagnostics } from "./providers/diagnostics/elmLsDiagnostics";
+import { DocumentEvents } from "./util/documentEvents";
+import { IClientSettings, Settings } from "./util/settings";
+
+const outputFormats = ["text", "json", "sarif"] as const;
+export type OutputFormat = typeof outputFormats[number];
+
+export interface ICheckOptions {
+  directory: string;
+  format: OutputFormat;
+}
+
+export interface ICheckResult {
+  file: string;
+  diagnostic: IDiagnostic;
+}
+
+const usage = `Usage: elm-language-server check [directory] [--format text|json|sarif]
+
+Runs the language server checks on all Elm files of the project in directory (defaults to the current directory).
+Exits with 1 if any errors were found.
+`;
+
+const severityNames: { [severity: number]: string } = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "information",
+  [DiagnosticSeverity.Hint]: "hint",
+};
+
+/**
+ * Run the type checker and the elm-analyse like rules without an editor,
+ * so they can be used in CI. Returns the exit code.
+ */
+export async function runCheck(args: string[]): Promise<number> {
+  const options = parseArguments(args);
+
+  if (!options) {
+    process.stderr.write(usage);
+    return 2;
+  }
+
+  const rootPath = Path.resolve(options.directory);
+
+  await registerServices();
+
+  const program = new Program(URI.file(rootPath), createNodeProgramHost());
+  await program.init(() => {
+    //
+  });
+  container.register("ElmWorkspaces", { useValue: [program] });
+
+  const { exitCode, output } = checkProgram(program, rootPath, options.format);
+  (exitCode === 2 ? process.stderr : process.stdout).write(output);
+
+  return exitCode;
+}
+
+/**
+ * Get the formatted diagnostics of all files in the project and the exit code,
+ * which is 1 if there are errors and 2 if the project could not be loaded
+ */
+export function checkProgram(
+  program: IProgram,
+  rootPath: string,
+  format: OutputFormat,
+): { exitCode: number; output: string } {
+  const results = getCheckResults(program, rootPath);
+
+  if (results === undefined) {
+    return {
+      exitCode: 2,
+      output: `Could not load the Elm project in ${rootPath}\n`,
+    };
+  }
+
+  let output = "";
+  switch (format) {
+    case "text":
+      output = formatText(results);
+      break;
+    case "json":
+      output = `${JSON.stringify(formatJson(results), null, 2)}\n`;
+      break;
+    case "sarif":
+      output = `${JSON.stringify(formatSarif(results, rootPath), null, 2)}\n`;
+      break;
+  }
+
+  return {
+    exitCode: results.some(
+      (result) => result.diagnostic.severity === DiagnosticSeverity.Error,
+    )
+      ? 1
+      : 0,
+    output,
+  };
+}
+
+export function parseArguments(args: string[]): ICheckOptions | undefined {
+  const options: ICheckOptions = { directory: ".", format: "text" };
+  let directory: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    let format: string | undefined;
+
+    if (arg === "--format") {
+      format = args[++i];
+    } else if (arg.startsWith("--format=")) {
+      format = arg.slice("--format=".length);
+    } else if (!arg.startsWith("-") && directory === undefined) {
+      directory = arg;
+      continue;
+    } else {
+      return;
+    }
+
+    if (!outputFormats.includes(format as OutputFormat)) {
+      return;
+    }
+
+    options.format = format as OutputFormat;
+  }
+
+  return { ...options, directory: directory ?? options.directory };
+}
+
+/**
+ * The program and the diagnostics talk to a client, which there is none of here.
+ * Give them a connection that discards all messages.
+ */
+async function registerServices(): Promise<void> {
+  const connection = createConnection(
+    ProposedFeatures.all,
+    new PassThrough(),
+    new Writable({
+      write: (_chunk, _encoding, callback): void => callback(),
+    }),
+  );
+  connection.listen();
+
+  container.register<Connection>("Connection", { useValue: connection });
+  container.registerSingleton<Parser>("Parser", Parser);
+  container.registerSingleton("DocumentEvents", DocumentEvents);
+  container.register("Settings", {
+    useValue: new Settings({} as IClientSettings, {}),
+  });
+
+  await Parser.init();
+  const language = await Parser.Language.load(
+    Path.join(__dirname, "tree-sitter-elm.wasm"),
+  );
+  container.resolve<Parser>("Parser").setLanguage(language);
+}
+
+function getCheckResults(
+  program: IProgram,
+  rootPath: string,
+): ICheckResult[] | undefined {
+  let sourceFiles;
+  try {
+    sourceFiles = Array.from(program.getForest().treeMap.values()).filter(
+      (sourceFile) => sourceFile.writeable,
+    );
+  } catch {
+    // The forest is not created if the project could not be loaded
+    return;
+  }
+
+  const elmLsDiagnostics = new ElmLsDiagnostics();
+  // The same rule severities and ignores as in the editor
+  const diagnosticsConfig = new DiagnosticsConfig();
+  const config = diagnosticsConfig.getConfig(program);
+  // Nothing is watched in a single run
+  diagnosticsConfig.dispose();
+
+  return sourceFiles
+    .sort((a, b) => a.uri.localeCompare(b.uri))
+    .flatMap((sourceFile) => {
+      const file = Path.relative(rootPath, URI.parse(sourceFile.uri).fsPath);
+
+      return diagnosticsConfig
+        .applyConfig(config, program, sourceFile.uri, [
+          ...program
+            .getSyntacticDiagnostics(sourceFile)
+            .map(convertFromAnalyzerDiagnostic),
+          ...program
+            .getSemanticDiagnostics(sourceFile)
+            .map(convertFromAnalyzerDiagnostic),
+          ...elmLsDiagnostics.createDiagnostics(sourceFile, program),
+        ])
+        .sort(
+          (a, b) =>
+            a.range.start.line - b.range.start.line ||
+            a.range.start.character - b.range.start.character,
+        )
+        .map((diagnostic) => ({ file, diagnostic }));
+    });
+}
+
+export function formatText(results: ICheckResult[]): string {
+  const lines = results.map(
+    ({ file, diagnostic }) =>
+      `${file}:${diagnostic.range.start.line + 1}:${
+        diagnostic.range.start.character + 1
+      }: ${severityNames[diagnostic.severity ?? DiagnosticSeverity.Error]}: ${
+        diagnostic.message
+      } [${diagnostic.data.code}]`,
+  );
+
+  const count = (severity: DiagnosticSeverity): number =>
+    results.filter((result) => result.diagnostic.severity === severity).length;
+
+  lines.push(
+    `${count(DiagnosticSeverity.Error)} error(s), ${count(
+      DiagnosticSeverity.Warning,
+    )} warning(s)`,
+  );
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function formatJson(results: ICheckResult[]): unknown {
+  return results.map(({ file, diagnostic }) => ({
+    file,
+    severity: severityNames[diagnostic.severity ?? DiagnosticSeverity.Error],
+    code: diagnostic.data.code,
+    source: diagnostic.source,
+    message: diagnostic.message,
+    range: diagnostic.range,
+  }));
+}
+
+/**
+ * Static Analysis Results Interchange Format, understood by code scanning tools
+ */
+export function formatSarif(
+  results: ICheckResult[],
+  rootPath: string,
+): unknown {
+  const ruleIds = Array.from(
+    new Set(results.map(({ diagnostic }) => diagnostic.data.code)),
+  ).sort();
+
+  return {
+    version: "2.1.0",
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "elm-language-server",
+            version,
+            informationUri:
+              "https://github.com/elm-tooling/elm-language-server",
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: `${URI.file(rootPath).toString()}/` },
+        },
+        results: results.map(({ file, diagnostic }) => ({
+          ruleId: diagnostic.data.code,
+          ruleIndex: ruleIds.indexOf(diagnostic.data.code),
+          level: getSarifLevel(diagnostic.severity),
+          message: { text: diagnostic.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: file.split(Path.sep).join("/"),
+                  uriBaseId: "SRCROOT",
+                },
+                // SARIF lines and columns are 1-based
+                region: {
+                  startLine: diagnostic.range.start.line + 1,
+                  startColumn: diagnostic.range.start.character + 1,
+                  endLine: diagnostic.range.end.line + 1,
+                  endColumn: diagnostic.range.end.character + 1,
+                },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
+
+function getSarifLevel(severity: DiagnosticSeverity | undefined): string {
+  switch (severity) {
+    case DiagnosticSeverity.Warning:
+      return "warning";
+    case DiagnosticSeverity.Information:
+    case DiagnosticSeverity.Hint:
+      return "note";
+    default:
+      return "error";
+  }
+}
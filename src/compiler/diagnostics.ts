@@ -225,4 +225,9 @@ export const Diagnostics = {
     "Type mismatch error.\nExpected: `{0}`\nFound: `{1}`",
     DiagnosticSeverity.Error,
   ),
+  TypedHole: diag(
+    "typed_hole",
+    "Found a hole of type `{0}`.",
+    DiagnosticSeverity.Information,
+  ),
 };
@@ -13,6 +13,12 @@ export interface IPackage {
   version: IVersion;
 }
 
+export interface IPackageModule {
+  moduleName: string;
+  packageName: string;
+  path: string;
+}
+
 export interface IElmPackageCache {
   getVersions(packageName: string): Promise<IVersion[]>;
   getDependencies(
@@ -138,6 +144,36 @@ export class ElmPackageCache implements IElmPackageCache {
     return this.moduleToPackages.getAll(moduleName) ?? [];
   }
 
+  /**
+   * Get the exposed modules of the latest version of all loaded packages
+   */
+  public static getAllPackageModules(): IPackageModule[] {
+    const packageModules: IPackageModule[] = [];
+
+    this.moduleToPackages.forEach((_, moduleName) => {
+      this.getPackagesWithModule(moduleName).forEach((packageName) => {
+        const versions = this.versionsCache.get(packageName);
+        const latestVersion = versions?.[versions.length - 1];
+
+        if (latestVersion) {
+          packageModules.push({
+            moduleName,
+            packageName,
+            path: path.join(
+              this._packagesRoot,
+              packageName,
+              latestVersion.string,
+              "src",
+              `${moduleName.split(".").join("/")}.elm`,
+            ),
+          });
+        }
+      });
+    });
+
+    return packageModules;
+  }
+
   private async getVersionsFromFileSystem(
     packageName: string,
   ): Promise<IVersion[]> {
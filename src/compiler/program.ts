@@ -39,7 +39,7 @@ interface IElmFile {
 
 export type ElmJson = IElmApplicationJson | IElmPackageJson;
 
-interface IElmApplicationJson {
+export interface IElmApplicationJson {
   type: "application";
   "source-directories": string[];
   "elm-version": string;
@@ -61,7 +61,7 @@ interface IElmApplicationJson {
   };
 }
 
-interface IElmPackageJson {
+export interface IElmPackageJson {
   type: "package";
   name: string;
   summary: string;
@@ -89,6 +89,8 @@ export interface IProgram {
   ): ISourceFile | undefined;
   getForest(synchronize?: boolean): IForest;
   getRootPath(): URI;
+  getRootProject(): ElmProject;
+  getPackageCache(): IElmPackageCache;
   getTypeCache(): TypeCache;
   getTypeChecker(): TypeChecker;
   markAsDirty(): void;
@@ -229,6 +231,14 @@ export class Program implements IProgram {
     return this.rootPath;
   }
 
+  public getRootProject(): ElmProject {
+    return this.rootProject;
+  }
+
+  public getPackageCache(): IElmPackageCache {
+    return this.elmPackageCache;
+  }
+
   public getTypeCache(): TypeCache {
     return this.typeCache;
   }
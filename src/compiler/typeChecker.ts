@@ -33,6 +33,7 @@ import { isKernelProject, nameIsKernel } from "./utils/elmUtils";
 import { existsSync } from "fs";
 import * as path from "../util/path";
 import { URI } from "vscode-uri";
+import { TypedHoles } from "./typedHoles";
 
 export let bindTime = 0;
 export function resetBindTime(): void {
@@ -952,6 +953,27 @@ export function createTypeChecker(program: IProgram): TypeChecker {
         );
       }
     }
+
+    checkTypedHoles(valueDeclaration);
+  }
+
+  function checkTypedHoles(valueDeclaration: SyntaxNode): void {
+    const sourceFile = getSourceFileOfNode(valueDeclaration);
+
+    TypedHoles.findHoles(valueDeclaration, sourceFile, program).forEach(
+      (hole) => {
+        suggestionDiagnostics.add(
+          error(
+            hole,
+            Diagnostics.TypedHole,
+            typeToString(
+              TypedHoles.getHoleType(hole, sourceFile, program),
+              sourceFile,
+            ),
+          ),
+        );
+      },
+    );
   }
 
   function checkImportClause(importClause: SyntaxNode): void {
@@ -580,6 +580,64 @@ export class InferenceScope {
     }
   }
 
+  /**
+   * Check if two types can be unified, without affecting any inference state
+   * @param type1 The first type
+   * @param type2 The second type
+   * @param uri The uri of the file the check is done for
+   * @param program The program
+   */
+  public static typesUnify(
+    type1: Type,
+    type2: Type,
+    uri: string,
+    program: IProgram,
+  ): boolean {
+    try {
+      return new InferenceScope(
+        uri,
+        program,
+        new Set<string>(),
+        new Set<EValueDeclaration>(),
+        false,
+      ).assignable(
+        TypeReplacement.flexify(type1),
+        TypeReplacement.flexify(type2),
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Find how many arguments need to be applied to a value of a type for the result to fit the expected type
+   * @returns The number of arguments, or undefined if it can't fit
+   */
+  public static argumentsToFit(
+    type: Type,
+    expectedType: Type,
+    uri: string,
+    program: IProgram,
+  ): number | undefined {
+    // Anything fits an unknown type or a type variable, so they don't tell us anything
+    const fits = (t: Type): boolean =>
+      t.nodeType !== "Unknown" &&
+      t.nodeType !== "Var" &&
+      InferenceScope.typesUnify(t, expectedType, uri, program);
+
+    if (fits(type)) {
+      return 0;
+    }
+
+    if (type.nodeType === "Function") {
+      for (let count = 1; count <= type.params.length; count++) {
+        if (fits(curryFunction(type, count))) {
+          return count;
+        }
+      }
+    }
+  }
+
   private inferDeclaration(
     declaration: EValueDeclaration,
     replaceExpressionTypes: boolean,
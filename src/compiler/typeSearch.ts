@@ -0,0 +1,638 @@
+import { readFile } from "fs";
+import { container } from "tsyringe";
+import { promisify } from "util";
+import { Range } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import Parser, { SyntaxNode, Tree } from "web-tree-sitter";
+import { PositionUtil } from "../positionUtil";
+import { TreeUtils } from "../util/treeUtils";
+import { ElmPackageCache } from "./elmPackageCache";
+import { IProgram } from "./program";
+import { TypeExpression } from "./typeExpression";
+import {
+  TFunction,
+  TList,
+  TRecord,
+  TTuple,
+  TUnion,
+  TUnit,
+  TUnknown,
+  TVar,
+  Type,
+  uncurryFunction,
+} from "./typeInference";
+import { TypeReplacement } from "./typeReplacement";
+import {
+  ETypeAliasDeclaration,
+  ETypeAnnotation,
+  mapSyntaxNodeToExpression,
+} from "./utils/expressionTree";
+
+const readFileAsync = promisify(readFile);
+
+export interface ITypeSearchMatch {
+  name: string;
+  moduleName: string;
+  packageName?: string;
+  signature: string;
+  uri: string;
+  range: Range;
+  // Whether the arguments had to be reordered to match the query
+  reordered: boolean;
+}
+
+interface ISignature {
+  name: string;
+  type: Type;
+  signature: string;
+  range: Range;
+}
+
+type TypeRefResolver = (typeRef: SyntaxNode, args: Type[]) => Type;
+
+// Maps the type variables of the query to the type variables of a signature
+type Renaming = ReadonlyMap<string, string>;
+
+const constrainedTypeVariables = [
+  "number",
+  "comparable",
+  "appendable",
+  "compappend",
+];
+
+// Reordering more arguments than this gets too expensive
+const maxReorderedArguments = 6;
+
+const maxResults = 100;
+
+/**
+ * Search functions by their type signature, like Hoogle does.
+ * Signatures match if they are equal modulo type variable renaming, argument order and type aliases.
+ */
+export class TypeSearch {
+  // Package sources don't change, so the signatures only need to be parsed once
+  private static packageSignatures = new Map<string, ISignature[]>();
+
+  public static async search(
+    query: string,
+    program: IProgram,
+  ): Promise<ITypeSearchMatch[]> {
+    const queryType = this.parseQuery(query, program);
+
+    if (!queryType) {
+      return [];
+    }
+
+    const matches: ITypeSearchMatch[] = [];
+    const searchedModules = new Set<string>();
+
+    program.getForest().treeMap.forEach((sourceFile) => {
+      const moduleName = sourceFile.moduleName;
+
+      if (!moduleName) {
+        return;
+      }
+
+      if (!sourceFile.writeable) {
+        if (
+          sourceFile.project.type !== "package" ||
+          !sourceFile.project.exposedModules.has(moduleName)
+        ) {
+          return;
+        }
+
+        searchedModules.add(
+          `${sourceFile.maintainerAndPackageName ?? ""}:${moduleName}`,
+        );
+      }
+
+      const signatures = this.getSignatures(
+        sourceFile.tree,
+        !sourceFile.writeable,
+        (annotation) =>
+          TypeExpression.typeAnnotationInference(
+            mapSyntaxNodeToExpression(annotation) as ETypeAnnotation,
+            program,
+          )?.type ?? TUnknown,
+      );
+
+      matches.push(
+        ...this.matchSignatures(queryType, signatures).map((match) => ({
+          ...match,
+          moduleName,
+          packageName: sourceFile.maintainerAndPackageName,
+          uri: sourceFile.uri,
+        })),
+      );
+    });
+
+    // Installed packages that are not a dependency of the project
+    for (const packageModule of ElmPackageCache.getAllPackageModules()) {
+      if (
+        searchedModules.has(
+          `${packageModule.packageName}:${packageModule.moduleName}`,
+        )
+      ) {
+        continue;
+      }
+
+      const signatures = await this.getPackageSignatures(packageModule.path);
+
+      matches.push(
+        ...this.matchSignatures(queryType, signatures).map((match) => ({
+          ...match,
+          moduleName: packageModule.moduleName,
+          packageName: packageModule.packageName,
+          uri: URI.file(packageModule.path).toString(),
+        })),
+      );
+    }
+
+    return matches
+      .sort(
+        (a, b) =>
+          Number(a.reordered) - Number(b.reordered) ||
+          Number(!!a.packageName) - Number(!!b.packageName) ||
+          a.moduleName.localeCompare(b.moduleName) ||
+          a.name.localeCompare(b.name),
+      )
+      .slice(0, maxResults);
+  }
+
+  /**
+   * Parse a type signature like `(a -> b) -> Maybe a -> Maybe b`,
+   * resolving the type names against all modules of the program
+   */
+  public static parseQuery(query: string, program: IProgram): Type | undefined {
+    const tree = container
+      .resolve<Parser>("Parser")
+      .parse(`typeSearchQuery : ${query.trim()}`);
+    const typeExpression = tree.rootNode.firstNamedChild?.childForFieldName(
+      "typeExpression",
+    );
+
+    if (!typeExpression || tree.rootNode.hasError()) {
+      return;
+    }
+
+    // Make sure the source files are bound
+    program.getTypeChecker();
+
+    const typeDeclarations = new Map<string, SyntaxNode[]>();
+    program.getForest().treeMap.forEach((sourceFile) => {
+      sourceFile.symbolLinks
+        ?.get(sourceFile.tree.rootNode)
+        ?.forEach((symbol) => {
+          if (symbol.type === "Type" || symbol.type === "TypeAlias") {
+            typeDeclarations.set(symbol.name, [
+              ...(typeDeclarations.get(symbol.name) ?? []),
+              symbol.node,
+            ]);
+          }
+        });
+    });
+
+    const resolveTypeRef: TypeRefResolver = (typeRef, args) => {
+      const qualifiedName = typeRef.firstNamedChild;
+      const name = qualifiedName?.lastNamedChild?.text ?? "";
+      const qualifier = qualifiedName?.text.slice(0, -name.length - 1);
+
+      const declarations = (typeDeclarations.get(name) ?? [])
+        .filter((declaration) => {
+          const moduleName = program.getSourceFile(declaration.tree.uri)
+            ?.moduleName;
+
+          return (
+            !qualifier ||
+            moduleName === qualifier ||
+            !!moduleName?.endsWith(`.${qualifier}`)
+          );
+        })
+        // Prefer the types of our own source directories
+        .sort(
+          (a, b) =>
+            Number(!program.getSourceFile(a.tree.uri)?.writeable) -
+            Number(!program.getSourceFile(b.tree.uri)?.writeable),
+        );
+
+      const declaration = declarations[0];
+
+      if (!declaration) {
+        return unresolvedTypeRef(typeRef, args);
+      }
+
+      if (declaration.type === "type_alias_declaration") {
+        const aliasType = TypeExpression.typeAliasDeclarationInference(
+          mapSyntaxNodeToExpression(declaration) as ETypeAliasDeclaration,
+          program,
+        ).type;
+        const params = aliasType.alias?.parameters ?? [];
+
+        // The param types are always TVars
+        return TypeReplacement.replace(
+          aliasType,
+          new Map(
+            params
+              .map<[TVar, Type]>((p, i) => [<TVar>p, args[i]])
+              .filter(([, type]) => !!type),
+          ),
+        );
+      }
+
+      // Leave the module open if the name is ambiguous
+      return TUnion(
+        declarations.length === 1
+          ? program.getSourceFile(declaration.tree.uri)?.moduleName ?? ""
+          : "",
+        name,
+        args,
+      );
+    };
+
+    const type = typeFromSyntax(typeExpression, resolveTypeRef);
+
+    return type.nodeType === "Unknown" ? undefined : type;
+  }
+
+  private static async getPackageSignatures(
+    path: string,
+  ): Promise<ISignature[]> {
+    const cached = this.packageSignatures.get(path);
+
+    if (cached) {
+      return cached;
+    }
+
+    let signatures: ISignature[] = [];
+
+    try {
+      const tree = container
+        .resolve<Parser>("Parser")
+        .parse(await readFileAsync(path, "utf-8"));
+
+      // The package is not part of the program, so only its own type aliases can be expanded
+      const resolveTypeRef: TypeRefResolver = (typeRef, args) => {
+        const name = typeRef.firstNamedChild?.text ?? "";
+        const alias = tree.rootNode.children.find(
+          (declaration) =>
+            declaration.type === "type_alias_declaration" &&
+            declaration.childForFieldName("name")?.text === name,
+        );
+        const aliasTypeExpression = alias?.childForFieldName("typeExpression");
+
+        if (alias && aliasTypeExpression) {
+          const typeVariables = new Map(
+            alias.children
+              .filter((child) => child.type === "lower_type_name")
+              .map<[string, Type]>((typeVariable, i) => [
+                typeVariable.text,
+                args[i] ?? TVar(typeVariable.text),
+              ]),
+          );
+
+          return typeFromSyntax(
+            aliasTypeExpression,
+            // Don't expand nested aliases, so recursive aliases can't loop
+            unresolvedTypeRef,
+            typeVariables,
+          );
+        }
+
+        return unresolvedTypeRef(typeRef, args);
+      };
+
+      signatures = this.getSignatures(
+        tree,
+        /* exposedOnly */ true,
+        (annotation) => {
+          const typeExpression = annotation.childForFieldName("typeExpression");
+
+          return typeExpression
+            ? typeFromSyntax(typeExpression, resolveTypeRef)
+            : TUnknown;
+        },
+      );
+    } catch {
+      // The package could have been removed
+    }
+
+    this.packageSignatures.set(path, signatures);
+
+    return signatures;
+  }
+
+  private static getSignatures(
+    tree: Tree,
+    exposedOnly: boolean,
+    getType: (annotation: SyntaxNode) => Type,
+  ): ISignature[] {
+    return tree.rootNode.children
+      .filter((node) => node.type === "type_annotation")
+      .map((annotation) => {
+        const name = annotation.childForFieldName("name")?.text;
+        const typeExpression = annotation.childForFieldName("typeExpression");
+
+        if (
+          !name ||
+          !typeExpression ||
+          (exposedOnly && !TreeUtils.isExposedFunctionOrPort(tree, name))
+        ) {
+          return;
+        }
+
+        return {
+          name,
+          type: getType(annotation),
+          signature: typeExpression.text.replace(/\s+/g, " "),
+          range: Range.create(
+            PositionUtil.FROM_TS_POSITION(
+              annotation.startPosition,
+            ).toVSPosition(),
+            PositionUtil.FROM_TS_POSITION(
+              annotation.endPosition,
+            ).toVSPosition(),
+          ),
+        };
+      })
+      .filter(
+        (signature): signature is ISignature =>
+          !!signature && signature.type.nodeType !== "Unknown",
+      );
+  }
+
+  private static matchSignatures(
+    queryType: Type,
+    signatures: ISignature[],
+  ): Omit<ITypeSearchMatch, "moduleName" | "packageName" | "uri">[] {
+    return signatures
+      .map((signature) => {
+        const reordered = matchSignature(queryType, signature.type);
+
+        return reordered !== undefined
+          ? {
+              name: signature.name,
+              signature: signature.signature,
+              range: signature.range,
+              reordered,
+            }
+          : undefined;
+      })
+      .filter(
+        (
+          match,
+        ): match is Omit<
+          ITypeSearchMatch,
+          "moduleName" | "packageName" | "uri"
+        > => !!match,
+      );
+  }
+}
+
+/**
+ * A type we couldn't find the declaration of matches types with the same name from any module
+ */
+function unresolvedTypeRef(typeRef: SyntaxNode, args: Type[]): Type {
+  const name = typeRef.firstNamedChild?.lastNamedChild?.text ?? "";
+
+  return name === "List" && args.length === 1
+    ? TList(args[0])
+    : TUnion("", name, args);
+}
+
+function typeFromSyntax(
+  node: SyntaxNode,
+  resolveTypeRef: TypeRefResolver,
+  typeVariables: ReadonlyMap<string, Type> = new Map(),
+): Type {
+  const children = node.namedChildren.filter(
+    (child) => child.type !== "arrow" && !child.type.includes("comment"),
+  );
+
+  switch (node.type) {
+    case "type_expression": {
+      const parts = children.map((part) =>
+        typeFromSyntax(part, resolveTypeRef, typeVariables),
+      );
+
+      if (parts.length === 1) {
+        return parts[0];
+      }
+
+      return parts.length > 1
+        ? uncurryFunction(
+            TFunction(parts.slice(0, -1), parts[parts.length - 1]),
+          )
+        : TUnknown;
+    }
+    case "type_variable":
+      return typeVariables.get(node.text) ?? TVar(node.text);
+    case "type_ref":
+      return resolveTypeRef(
+        node,
+        children
+          .slice(1)
+          .map((arg) => typeFromSyntax(arg, resolveTypeRef, typeVariables)),
+      );
+    case "tuple_type":
+      return node.childForFieldName("unitExpr")
+        ? TUnit
+        : TTuple(
+            children.map((type) =>
+              typeFromSyntax(type, resolveTypeRef, typeVariables),
+            ),
+          );
+    case "record_type": {
+      const fields: { [key: string]: Type } = {};
+      children
+        .filter((child) => child.type === "field_type")
+        .forEach((field) => {
+          const name = field.childForFieldName("name")?.text;
+          const typeExpression = field.childForFieldName("typeExpression");
+
+          if (name && typeExpression) {
+            fields[name] = typeFromSyntax(
+              typeExpression,
+              resolveTypeRef,
+              typeVariables,
+            );
+          }
+        });
+
+      const baseRecord = node.childForFieldName("baseRecord");
+
+      return TRecord(
+        fields,
+        baseRecord
+          ? typeVariables.get(baseRecord.text) ?? TVar(baseRecord.text)
+          : undefined,
+      );
+    }
+    default:
+      return TUnknown;
+  }
+}
+
+/**
+ * Returns whether the arguments had to be reordered, or undefined if the signature doesn't match
+ */
+function matchSignature(queryType: Type, type: Type): boolean | undefined {
+  if (matchTypes(queryType, type, new Map())) {
+    return false;
+  }
+
+  if (queryType.nodeType !== "Function" || type.nodeType !== "Function") {
+    return;
+  }
+
+  const query = uncurryFunction(queryType);
+  const candidate = uncurryFunction(type);
+
+  if (
+    query.params.length !== candidate.params.length ||
+    query.params.length > maxReorderedArguments
+  ) {
+    return;
+  }
+
+  const matchParams = (
+    index: number,
+    used: Set<number>,
+    renaming: Renaming,
+  ): boolean => {
+    if (index === query.params.length) {
+      return !!matchTypes(query.return, candidate.return, renaming);
+    }
+
+    return candidate.params.some((param, i) => {
+      if (used.has(i)) {
+        return false;
+      }
+
+      const newRenaming = matchTypes(query.params[index], param, renaming);
+
+      return (
+        !!newRenaming &&
+        matchParams(index + 1, new Set([...used, i]), newRenaming)
+      );
+    });
+  };
+
+  return matchParams(0, new Set(), new Map()) ? true : undefined;
+}
+
+/**
+ * Structurally compare two types, where the type variables of the query
+ * can be renamed one to one to the type variables of the candidate
+ */
+function matchTypes(
+  query: Type,
+  candidate: Type,
+  renaming: Renaming,
+): Renaming | undefined {
+  const matchAll = (
+    queryTypes: Type[],
+    candidateTypes: Type[],
+  ): Renaming | undefined => {
+    if (queryTypes.length !== candidateTypes.length) {
+      return;
+    }
+
+    let result: Renaming | undefined = renaming;
+    for (let i = 0; i < queryTypes.length && result; i++) {
+      result = matchTypes(queryTypes[i], candidateTypes[i], result);
+    }
+
+    return result;
+  };
+
+  switch (query.nodeType) {
+    case "Var": {
+      if (
+        candidate.nodeType !== "Var" ||
+        getConstraint(query.name) !== getConstraint(candidate.name)
+      ) {
+        return;
+      }
+
+      const renamed = renaming.get(query.name);
+
+      if (renamed !== undefined) {
+        return renamed === candidate.name ? renaming : undefined;
+      }
+
+      if (Array.from(renaming.values()).includes(candidate.name)) {
+        return;
+      }
+
+      return new Map(renaming).set(query.name, candidate.name);
+    }
+    case "Function": {
+      if (candidate.nodeType !== "Function") {
+        return;
+      }
+
+      const queryFunction = uncurryFunction(query);
+      const candidateFunction = uncurryFunction(candidate);
+
+      return matchAll(
+        [...queryFunction.params, queryFunction.return],
+        [...candidateFunction.params, candidateFunction.return],
+      );
+    }
+    case "Union":
+      if (
+        candidate.nodeType !== "Union" ||
+        query.name !== candidate.name ||
+        (query.module !== "" &&
+          candidate.module !== "" &&
+          query.module !== candidate.module)
+      ) {
+        return;
+      }
+
+      return matchAll(query.params, candidate.params);
+    case "Tuple":
+      return candidate.nodeType === "Tuple"
+        ? matchAll(query.types, candidate.types)
+        : undefined;
+    case "Unit":
+      return candidate.nodeType === "Unit" ? renaming : undefined;
+    case "Record":
+    case "MutableRecord": {
+      if (
+        candidate.nodeType !== "Record" &&
+        candidate.nodeType !== "MutableRecord"
+      ) {
+        return;
+      }
+
+      const fieldNames = Object.keys(query.fields).sort();
+
+      if (
+        fieldNames.join() !== Object.keys(candidate.fields).sort().join() ||
+        !!query.baseType !== !!candidate.baseType
+      ) {
+        return;
+      }
+
+      return matchAll(
+        [
+          ...fieldNames.map((field) => query.fields[field]),
+          ...(query.baseType ? [query.baseType] : []),
+        ],
+        [
+          ...fieldNames.map((field) => candidate.fields[field]),
+          ...(candidate.baseType ? [candidate.baseType] : []),
+        ],
+      );
+    }
+    default:
+      return;
+  }
+}
+
+function getConstraint(typeVariable: string): string | undefined {
+  return constrainedTypeVariables.find((constraint) =>
+    typeVariable.startsWith(constraint),
+  );
+}
@@ -0,0 +1,284 @@
+import { SyntaxNode } from "web-tree-sitter";
+import { NodeType, TreeUtils } from "../util/treeUtils";
+import { ISourceFile } from "./forest";
+import { IProgram } from "./program";
+import { InferenceScope, Type, TUnknown } from "./typeInference";
+
+export interface IHoleFit {
+  name: string;
+  type: Type;
+  // The number of arguments that need to be applied to fit the hole
+  argumentCount: number;
+}
+
+interface IPlaceholderApplication {
+  target: SyntaxNode;
+  index: number;
+}
+
+// Symbols that can be referenced in an expression
+const valueSymbolTypes: NodeType[] = [
+  "Function",
+  "FunctionParameter",
+  "CasePattern",
+  "AnonymousFunctionParameter",
+  "UnionConstructor",
+  "Port",
+];
+
+const maxFits = 20;
+
+/**
+ * Typed holes are `Debug.todo` calls and `_` placeholders used as a function argument.
+ * The type expected at the hole is reported, together with the values in scope that fit it.
+ */
+export class TypedHoles {
+  public static findHoles(
+    valueDeclaration: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): SyntaxNode[] {
+    const nextSibling = valueDeclaration.nextNamedSibling;
+
+    // A placeholder as the last argument ends up in an error after the declaration
+    const placeholders = [
+      ...TreeUtils.descendantsOfType(valueDeclaration, "underscore"),
+      ...(nextSibling?.type === "ERROR"
+        ? TreeUtils.descendantsOfType(nextSibling, "underscore")
+        : []),
+    ].filter((underscore) => !!this.getPlaceholderApplication(underscore));
+
+    return [
+      ...TreeUtils.descendantsOfType(
+        valueDeclaration,
+        "function_call_expr",
+      ).filter((call) => this.isDebugTodo(call, sourceFile, program)),
+      ...placeholders,
+    ];
+  }
+
+  /**
+   * Find the hole a node is part of
+   */
+  public static findHole(
+    node: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): SyntaxNode | undefined {
+    if (node.type === "underscore") {
+      return this.getPlaceholderApplication(node) ? node : undefined;
+    }
+
+    let current: SyntaxNode | null = node;
+    while (current && current.type !== "file") {
+      if (
+        current.type === "function_call_expr" &&
+        this.isDebugTodo(current, sourceFile, program)
+      ) {
+        return current;
+      }
+
+      current = current.parent;
+    }
+  }
+
+  public static getHoleType(
+    hole: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): Type {
+    const checker = program.getTypeChecker();
+
+    if (hole.type === "function_call_expr") {
+      return checker.findType(hole);
+    }
+
+    const application = this.getPlaceholderApplication(hole);
+
+    if (!application) {
+      return TUnknown;
+    }
+
+    let functionType = checker.findType(application.target);
+
+    // The error can prevent inferring the type at the call site
+    if (functionType.nodeType !== "Function") {
+      const functionName = application.target.firstNamedChild?.lastNamedChild;
+      const definition = functionName
+        ? checker.findDefinition(functionName, sourceFile).symbol
+        : undefined;
+
+      if (definition) {
+        functionType = checker.findType(definition.node);
+      }
+    }
+
+    return functionType.nodeType === "Function"
+      ? functionType.params[application.index] ?? TUnknown
+      : TUnknown;
+  }
+
+  /**
+   * Find the values in scope and the imported values that fit the hole,
+   * either directly or once some arguments are applied
+   */
+  public static findFits(
+    hole: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): IHoleFit[] {
+    const checker = program.getTypeChecker();
+    const holeType = this.getHoleType(hole, sourceFile, program);
+
+    if (holeType.nodeType === "Unknown" || holeType.nodeType === "Var") {
+      return [];
+    }
+
+    const fits: IHoleFit[] = [];
+    const seen = new Set<string>();
+
+    const addFit = (name: string, node: SyntaxNode): void => {
+      if (seen.has(name)) {
+        return;
+      }
+      seen.add(name);
+
+      const type = checker.findType(node);
+      const argumentCount = InferenceScope.argumentsToFit(
+        type,
+        holeType,
+        sourceFile.uri,
+        program,
+      );
+
+      if (argumentCount !== undefined) {
+        fits.push({ name, type, argumentCount });
+      }
+    };
+
+    // Values in scope, from the innermost scope outwards
+    let scope: SyntaxNode | null = hole.parent;
+    while (scope) {
+      sourceFile.symbolLinks?.get(scope)?.forEach((symbol) => {
+        // Skip the declarations the hole is part of
+        const isRecursive =
+          symbol.node.type === "function_declaration_left" &&
+          !!symbol.node.parent &&
+          symbol.node.parent.startIndex <= hole.startIndex &&
+          symbol.node.parent.endIndex >= hole.endIndex;
+
+        if (valueSymbolTypes.includes(symbol.type) && !isRecursive) {
+          addFit(symbol.name, symbol.node);
+        }
+      });
+
+      scope = scope.parent;
+    }
+
+    checker.getAllImports(sourceFile).forEach((imported) => {
+      if (valueSymbolTypes.includes(imported.type)) {
+        addFit(imported.name, imported.node);
+      }
+    });
+
+    return fits
+      .sort((a, b) => a.argumentCount - b.argumentCount)
+      .slice(0, maxFits);
+  }
+
+  /**
+   * Get the text to replace a hole with a fit, arguments that still need to be applied become placeholders
+   */
+  public static getFitText(hole: SyntaxNode, fit: IHoleFit): string {
+    if (fit.argumentCount === 0) {
+      return fit.name;
+    }
+
+    const text = `${fit.name}${" _".repeat(fit.argumentCount)}`;
+    const isArgument =
+      hole.type === "underscore" ||
+      (hole.parent?.type === "function_call_expr" &&
+        hole.parent.childForFieldName("target")?.startIndex !==
+          hole.startIndex);
+
+    return isArgument ? `(${text})` : text;
+  }
+
+  private static isDebugTodo(
+    call: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): boolean {
+    const target = call.childForFieldName("target");
+    const functionName =
+      target?.type === "value_expr"
+        ? target.firstNamedChild?.lastNamedChild
+        : undefined;
+
+    if (functionName?.text !== "todo") {
+      return false;
+    }
+
+    const definition = program
+      .getTypeChecker()
+      .findDefinition(functionName, sourceFile).symbol;
+
+    return (
+      !!definition &&
+      program.getSourceFile(definition.node.tree.uri)?.moduleName === "Debug"
+    );
+  }
+
+  private static getPlaceholderApplication(
+    underscore: SyntaxNode,
+  ): IPlaceholderApplication | undefined {
+    const error = underscore.parent;
+
+    // The parser can include the start of the next argument in the error
+    if (
+      error?.type !== "ERROR" ||
+      error.firstNamedChild?.startIndex !== underscore.startIndex ||
+      error.startIndex !== underscore.startIndex
+    ) {
+      return;
+    }
+
+    if (error.parent?.type === "function_call_expr") {
+      const target = error.parent.childForFieldName("target");
+      // Error nodes are not included in the named children
+      const index = error.parent.children
+        .slice(1)
+        .filter((arg) => !arg.type.includes("comment"))
+        .findIndex((arg) => arg.startIndex === error.startIndex);
+
+      return target?.type === "value_expr" && index >= 0
+        ? { target, index }
+        : undefined;
+    }
+
+    // The placeholder is the last argument, following the body of the previous declaration
+    const body = error.previousNamedSibling?.childForFieldName("body");
+
+    if (
+      error.previousNamedSibling?.type !== "value_declaration" ||
+      body?.endPosition.row !== error.startPosition.row
+    ) {
+      return;
+    }
+
+    if (body.type === "function_call_expr") {
+      const target = body.childForFieldName("target");
+
+      return target?.type === "value_expr"
+        ? {
+            target,
+            index: body.namedChildren
+              .slice(1)
+              .filter((arg) => !arg.type.includes("comment")).length,
+          }
+        : undefined;
+    } else if (body.type === "value_expr") {
+      return { target: body, index: 0 };
+    }
+  }
+}
@@ -187,7 +187,7 @@ async function solveDependenciesWorker(
   // Find versions that satisfy the constraint
   let candidates = (await packageCache.getVersions(dep.name))
     .filter((version) => versionSatifiesConstraint(version, dep.constraint))
-    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    .sort(versionCompare)
     .reverse();
 
   const solvedVersion = solutions.get(dep.name);
@@ -296,7 +296,7 @@ function filterSemver(
   }
 }
 
-function versionCompare(a: IVersion, b: IVersion): number {
+export function versionCompare(a: IVersion, b: IVersion): number {
   const pa = a.string.split(".");
   const pb = b.string.split(".");
   for (let i = 0; i < 3; i++) {
@@ -364,7 +364,7 @@ export function constraintIntersect(
     !newUpper ||
     !newLowerOp ||
     !newUpperOp ||
-    versionCompare(newLower, newUpper) !== -1
+    !filterSemver(newLower, newUpper, merge(newLowerOp, newUpperOp))
   ) {
     return;
   }
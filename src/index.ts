@@ -26,75 +26,95 @@ if (process.argv[2] === "-v" || process.argv[2] === "--version") {
   process.exit(0);
 }
 
-// default argument `--stdio`
-if (process.argv.length === 2) {
-  process.argv.push("--stdio");
-}
-
-// Composition root - be aware, there are some register calls that need to be done later
-container.register<Connection>("Connection", {
-  useValue: createConnection(ProposedFeatures.all, {
-    cancellationStrategy: getCancellationStrategyFromArgv(process.argv),
-  }),
-});
-container.registerSingleton<Parser>("Parser", Parser);
-
-container.registerSingleton("DocumentEvents", DocumentEvents);
-container.register(TextDocumentEvents, {
-  useValue: new TextDocumentEvents(),
-});
-
-const connection = container.resolve<Connection>("Connection");
-
-let server: ILanguageServer;
-
-connection.onInitialize(
-  async (
-    params: InitializeParams,
-    cancel,
-    progress,
-  ): Promise<InitializeResult> => {
-    await Parser.init();
-    const absolute = Path.join(__dirname, "tree-sitter-elm.wasm");
-    const pathToWasm = Path.relative(process.cwd(), absolute);
-    connection.console.info(
-      `Loading Elm tree-sitter syntax from ${pathToWasm}`,
-    );
-    const language = await Parser.Language.load(pathToWasm);
-    container.resolve<Parser>("Parser").setLanguage(language);
-
-    container.register(CapabilityCalculator, {
-      useValue: new CapabilityCalculator(params.capabilities),
-    });
-
-    const initializationOptions = params.initializationOptions ?? {};
-
-    container.register("Settings", {
-      useValue: new Settings(initializationOptions, params.capabilities),
-    });
-
-    const { Server } = await import("./server");
-    server = new Server(params, progress);
-    await server.init();
-
-    container.register(ASTProvider, {
-      useValue: new ASTProvider(),
+// Run the checks without an editor for `check [directory]`
+if (process.argv[2] === "check") {
+  void import("./check")
+    .then(({ runCheck }) => runCheck(process.argv.slice(3)))
+    .then((exitCode) => process.exit(exitCode))
+    .catch((error) => {
+      // A crash must not look like errors were found
+      process.stderr.write(
+        `${
+          error instanceof Error ? error.stack ?? error.message : String(error)
+        }\n`,
+      );
+      process.exit(2);
     });
+} else {
+  startLanguageServer();
+}
 
-    return server.capabilities;
-  },
-);
+function startLanguageServer(): void {
+  // default argument `--stdio`
+  if (process.argv.length === 2) {
+    process.argv.push("--stdio");
+  }
+
+  // Composition root - be aware, there are some register calls that need to be done later
+  container.register<Connection>("Connection", {
+    useValue: createConnection(ProposedFeatures.all, {
+      cancellationStrategy: getCancellationStrategyFromArgv(process.argv),
+    }),
+  });
+  container.registerSingleton<Parser>("Parser", Parser);
+
+  container.registerSingleton("DocumentEvents", DocumentEvents);
+  container.register(TextDocumentEvents, {
+    useValue: new TextDocumentEvents(),
+  });
+
+  const connection = container.resolve<Connection>("Connection");
+
+  let server: ILanguageServer;
+
+  connection.onInitialize(
+    async (
+      params: InitializeParams,
+      cancel,
+      progress,
+    ): Promise<InitializeResult> => {
+      await Parser.init();
+      const absolute = Path.join(__dirname, "tree-sitter-elm.wasm");
+      const pathToWasm = Path.relative(process.cwd(), absolute);
+      connection.console.info(
+        `Loading Elm tree-sitter syntax from ${pathToWasm}`,
+      );
+      const language = await Parser.Language.load(pathToWasm);
+      container.resolve<Parser>("Parser").setLanguage(language);
+
+      container.register(CapabilityCalculator, {
+        useValue: new CapabilityCalculator(params.capabilities),
+      });
+
+      const initializationOptions = params.initializationOptions ?? {};
+
+      container.register("Settings", {
+        useValue: new Settings(initializationOptions, params.capabilities),
+      });
+
+      const { Server } = await import("./server");
+      server = new Server(params, progress);
+      await server.init();
+
+      container.register(ASTProvider, {
+        useValue: new ASTProvider(),
+      });
+
+      return server.capabilities;
+    },
+  );
 
-connection.onInitialized(() => {
-  server.registerInitializedProviders();
-});
+  connection.onInitialized(() => {
+    server.registerInitializedProviders();
+  });
 
-// Listen on the connection
-connection.listen();
+  // Listen on the connection
+  connection.listen();
 
-// Don't die on unhandled Promise rejections
-process.on("unhandledRejection", (reason, p) => {
-  connection.console.error(
-    `Unhandled Rejection at: Promise ${p} reason:, ${reason}`,
-  );
-});
+  // Don't die on unhandled Promise rejections
+  process.on("unhandledRejection", (reason, p) => {
+    connection.console.error(
+      `Unhandled Rejection at: Promise ${p} reason:, ${reason}`,
+    );
+  });
+}
@@ -1,4 +1,12 @@
-import { CodeActionParams, RequestType } from "vscode-languageserver";
+import {
+  CodeActionParams,
+  Location,
+  Position,
+  Range,
+  RequestType,
+  TextDocumentIdentifier,
+  TextEdit,
+} from "vscode-languageserver";
 import { IParams } from "./util/elmWorkspaceMatcher";
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -26,6 +34,100 @@ export interface IMoveDestination {
   uri: string;
 }
 
+export const SplitModuleRequest = new RequestType<
+  ISplitModuleParams,
+  void,
+  void
+>("elm/splitModule");
+
+export interface ISplitModuleParams extends IParams {
+  sourceUri: string;
+  params: CodeActionParams;
+  moduleName: string;
+  // The source directory uri of the new module, defaults to the one of the source
+  sourceDirectory?: string;
+}
+
+export const SafeDeleteRequest = new RequestType<
+  ISafeDeleteParams,
+  ISafeDeleteResponse,
+  void
+>("elm/safeDelete");
+
+export interface ISafeDeleteParams extends IParams {
+  sourceUri: string;
+  params: CodeActionParams;
+}
+
+export interface ISafeDeleteResponse {
+  // The usages that prevent the deletion, empty if it was deleted
+  usages: Location[];
+}
+
+export const GetFunctionSignatureRequest = new RequestType<
+  IFunctionSignatureParams,
+  IFunctionSignature | undefined,
+  void
+>("elm/getFunctionSignature");
+
+export const ChangeSignatureRequest = new RequestType<
+  IChangeSignatureParams,
+  void,
+  void
+>("elm/changeSignature");
+
+export interface IFunctionSignatureParams extends IParams {
+  sourceUri: string;
+  params: CodeActionParams;
+}
+
+export interface IFunctionSignature {
+  name: string;
+  parameters: IFunctionParameter[];
+}
+
+export interface IFunctionParameter {
+  pattern: string;
+  type?: string;
+}
+
+export interface IChangeSignatureParams extends IFunctionSignatureParams {
+  // The new parameters in order
+  parameters: IChangedParameter[];
+}
+
+export interface IChangedParameter {
+  // The index of an existing parameter, undefined for a new one
+  index?: number;
+  pattern?: string;
+  type?: string;
+  // Passed for a new parameter at every call
+  defaultValue?: string;
+}
+
+export const JsonToElmRequest = new RequestType<IJsonToElmParams, void, void>(
+  "elm/jsonToElm",
+);
+
+export interface IJsonToElmParams extends IParams {
+  sourceUri: string;
+  params: CodeActionParams;
+  json: string;
+  // The name of the type alias for the root object
+  name?: string;
+}
+
+export const HtmlToElmRequest = new RequestType<IHtmlToElmParams, void, void>(
+  "elm/htmlToElm",
+);
+
+export interface IHtmlToElmParams extends IParams {
+  sourceUri: string;
+  // The range the converted html replaces
+  params: CodeActionParams;
+  html: string;
+}
+
 export const ExposeRequest = new RequestType<IExposeUnexposeParams, void, void>(
   "elm/expose",
 );
@@ -51,3 +153,49 @@ export const GetDiagnosticsRequest = new RequestType<
   void,
   void
 >("elm/getDiagnostics");
+
+export interface IInlayHintParams {
+  textDocument: TextDocumentIdentifier;
+  range: Range;
+}
+
+export const InlayHintKind = {
+  Type: 1,
+  Parameter: 2,
+} as const;
+
+export type InlayHintKind = typeof InlayHintKind[keyof typeof InlayHintKind];
+
+export interface IInlayHint {
+  position: Position;
+  label: string;
+  kind?: InlayHintKind;
+  textEdits?: TextEdit[];
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+}
+
+// Mirrors the inlay hint request of LSP 3.17, which our protocol version does not have yet
+export const InlayHintRequest = new RequestType<
+  IInlayHintParams,
+  IInlayHint[],
+  void
+>("textDocument/inlayHint");
+
+export interface ISearchByTypeParams {
+  query: string;
+}
+
+export interface ITypeSearchResult {
+  name: string;
+  moduleName: string;
+  packageName?: string;
+  signature: string;
+  location: Location;
+}
+
+export const SearchByTypeRequest = new RequestType<
+  ISearchByTypeParams,
+  ITypeSearchResult[],
+  void
+>("elm/searchByType");
@@ -0,0 +1,240 @@
+import { container } from "tsyringe";
+import {
+  CallHierarchyIncomingCall,
+  CallHierarchyIncomingCallsParams,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CallHierarchyOutgoingCallsParams,
+  CallHierarchyPrepareParams,
+  Connection,
+  Range,
+  SymbolKind,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISymbol } from "../compiler/binder";
+import { ISourceFile } from "../compiler/forest";
+import { IProgram } from "../compiler/program";
+import { References } from "../compiler/references";
+import { PositionUtil } from "../positionUtil";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { TreeUtils } from "../util/treeUtils";
+import {
+  ICallHierarchyIncomingCallsParams,
+  ICallHierarchyOutgoingCallsParams,
+  ICallHierarchyPrepareParams,
+} from "./paramsExtensions";
+
+export class CallHierarchyProvider {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+    this.connection.languages.callHierarchy.onPrepare(
+      new ElmWorkspaceMatcher((params: CallHierarchyPrepareParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handlePrepareCallHierarchy.bind(this)),
+    );
+    this.connection.languages.callHierarchy.onIncomingCalls(
+      new ElmWorkspaceMatcher((params: CallHierarchyIncomingCallsParams) =>
+        URI.parse(params.item.uri),
+      ).handle(this.handleIncomingCalls.bind(this)),
+    );
+    this.connection.languages.callHierarchy.onOutgoingCalls(
+      new ElmWorkspaceMatcher((params: CallHierarchyOutgoingCallsParams) =>
+        URI.parse(params.item.uri),
+      ).handle(this.handleOutgoingCalls.bind(this)),
+    );
+  }
+
+  protected handlePrepareCallHierarchy = (
+    params: ICallHierarchyPrepareParams,
+  ): CallHierarchyItem[] | null => {
+    this.connection.console.info(`Call hierarchy was requested`);
+
+    const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+      params.sourceFile.tree.rootNode,
+      params.position,
+    );
+
+    const symbol = params.program
+      .getTypeChecker()
+      .findDefinition(nodeAtPosition, params.sourceFile).symbol;
+
+    const item = symbol
+      ? this.createCallHierarchyItem(symbol.node, params.program)
+      : undefined;
+
+    return item ? [item] : null;
+  };
+
+  protected handleIncomingCalls = (
+    params: ICallHierarchyIncomingCallsParams,
+  ): CallHierarchyIncomingCall[] | null => {
+    const symbol = this.getSymbolForItem(
+      params.item,
+      params.sourceFile,
+      params.program,
+    );
+
+    if (!symbol) {
+      return null;
+    }
+
+    const incomingCalls = new Map<string, CallHierarchyIncomingCall>();
+
+    References.find(symbol, params.program).forEach(({ node, uri }) => {
+      // Skip the declaration itself, annotations and exposing lists
+      if (node.parent?.type === "function_declaration_left") {
+        return;
+      }
+
+      const declaration = TreeUtils.findParentOfType(
+        "value_declaration",
+        node,
+        true,
+      );
+
+      if (!declaration) {
+        return;
+      }
+
+      const key = `${uri}:${declaration.startIndex}`;
+      let incomingCall = incomingCalls.get(key);
+
+      if (!incomingCall) {
+        const from = this.createCallHierarchyItem(
+          declaration.childForFieldName("functionDeclarationLeft") ??
+            declaration,
+          params.program,
+        );
+
+        if (!from) {
+          return;
+        }
+
+        incomingCall = { from, fromRanges: [] };
+        incomingCalls.set(key, incomingCall);
+      }
+
+      incomingCall.fromRanges.push(this.getNodeRange(node));
+    });
+
+    return Array.from(incomingCalls.values());
+  };
+
+  protected handleOutgoingCalls = (
+    params: ICallHierarchyOutgoingCallsParams,
+  ): CallHierarchyOutgoingCall[] | null => {
+    const symbol = this.getSymbolForItem(
+      params.item,
+      params.sourceFile,
+      params.program,
+    );
+    const declaration = symbol?.node.parent;
+
+    if (symbol?.type !== "Function" || !declaration) {
+      return null;
+    }
+
+    const checker = params.program.getTypeChecker();
+    const outgoingCalls = new Map<string, CallHierarchyOutgoingCall>();
+
+    TreeUtils.descendantsOfType(declaration, "value_qid").forEach(
+      (valueQid) => {
+        const functionName = valueQid.lastNamedChild;
+
+        if (functionName?.type !== "lower_case_identifier") {
+          return;
+        }
+
+        const callee = checker.findDefinition(functionName, params.sourceFile)
+          .symbol;
+
+        if (!callee) {
+          return;
+        }
+
+        const key = `${callee.node.tree.uri}:${callee.node.startIndex}`;
+        let outgoingCall = outgoingCalls.get(key);
+
+        if (!outgoingCall) {
+          const to = this.createCallHierarchyItem(callee.node, params.program);
+
+          if (!to) {
+            return;
+          }
+
+          outgoingCall = { to, fromRanges: [] };
+          outgoingCalls.set(key, outgoingCall);
+        }
+
+        outgoingCall.fromRanges.push(this.getNodeRange(functionName));
+      },
+    );
+
+    return Array.from(outgoingCalls.values());
+  };
+
+  /**
+   * Create an item for a top level function or port, given the node of its symbol
+   */
+  private createCallHierarchyItem(
+    node: SyntaxNode,
+    program: IProgram,
+  ): CallHierarchyItem | undefined {
+    const sourceFile = program.getSourceFile(node.tree.uri);
+
+    let declaration: SyntaxNode | null;
+    let nameNode: SyntaxNode | undefined;
+
+    if (node.type === "function_declaration_left") {
+      declaration = node.parent;
+      nameNode = TreeUtils.getFunctionNameNodeFromDefinition(node);
+    } else if (node.type === "port_annotation") {
+      declaration = node;
+      nameNode = TreeUtils.getTypeOrTypeAliasOrPortNameNodeFromDefinition(node);
+    } else {
+      return;
+    }
+
+    if (!sourceFile || !nameNode || declaration?.parent?.type !== "file") {
+      return;
+    }
+
+    const annotation = TreeUtils.getTypeAnnotation(declaration);
+
+    return {
+      name: nameNode.text,
+      kind: SymbolKind.Function,
+      detail: sourceFile.moduleName,
+      uri: sourceFile.uri,
+      range: Range.create(
+        this.getNodeRange(annotation ?? declaration).start,
+        this.getNodeRange(declaration).end,
+      ),
+      selectionRange: this.getNodeRange(nameNode),
+    };
+  }
+
+  private getSymbolForItem(
+    item: CallHierarchyItem,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): ISymbol | undefined {
+    const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+      sourceFile.tree.rootNode,
+      item.selectionRange.start,
+    );
+
+    return program.getTypeChecker().findDefinition(nodeAtPosition, sourceFile)
+      .symbol;
+  }
+
+  private getNodeRange(node: SyntaxNode): Range {
+    return Range.create(
+      PositionUtil.FROM_TS_POSITION(node.startPosition).toVSPosition(),
+      PositionUtil.FROM_TS_POSITION(node.endPosition).toVSPosition(),
+    );
+  }
+}
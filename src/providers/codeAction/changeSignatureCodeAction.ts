@@ -0,0 +1,64 @@
+import { container } from "tsyringe";
+import { CodeActionKind } from "vscode-languageserver";
+import { Settings } from "../../util/settings";
+import { TreeUtils } from "../../util/treeUtils";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const refactorName = "change_signature";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    if (
+      !container.resolve<Settings>("Settings").extendedCapabilities
+        ?.changeSignatureRefactoringSupport
+    ) {
+      return [];
+    }
+
+    const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+      params.sourceFile.tree.rootNode,
+      params.range.start,
+    );
+
+    if (
+      (nodeAtPosition.parent?.type === "type_annotation" ||
+        nodeAtPosition.parent?.type === "function_declaration_left") &&
+      nodeAtPosition.type === "lower_case_identifier" &&
+      nodeAtPosition.parent.firstNamedChild?.id === nodeAtPosition.id &&
+      !TreeUtils.findParentOfType("let_in_expr", nodeAtPosition)
+    ) {
+      const functionName = nodeAtPosition.text;
+
+      return [
+        {
+          title: "Change Signature",
+          command: {
+            title: "Refactor",
+            command: "elm.refactor",
+            arguments: [
+              "changeSignature",
+              { textDocument: params.textDocument, range: params.range },
+              functionName,
+            ],
+          },
+          kind: CodeActionKind.RefactorRewrite,
+          data: {
+            actionName: "change_signature",
+            refactorName,
+            uri: params.sourceFile.uri,
+            range: params.range,
+          },
+        },
+      ];
+    }
+
+    return [];
+  },
+  getEditsForAction: (): IRefactorEdit => {
+    return {};
+  },
+});
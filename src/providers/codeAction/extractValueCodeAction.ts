@@ -0,0 +1,415 @@
+import { CodeActionKind, Range, TextEdit } from "vscode-languageserver";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISourceFile } from "../../compiler/forest";
+import { IProgram } from "../../compiler/program";
+import { Type } from "../../compiler/typeInference";
+import { PositionUtil } from "../../positionUtil";
+import { CodeGenUtils } from "../../util/codeGenUtils";
+import {
+  getSpaces,
+  RefactorEditUtils,
+  reindent,
+  replaceInText,
+} from "../../util/refactorEditUtils";
+import { TreeUtils } from "../../util/treeUtils";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+interface ILetTarget {
+  // Either an existing let to add the binding to, or an expression to wrap in a new let
+  letInExpr?: SyntaxNode;
+  body?: SyntaxNode;
+}
+
+const refactorName = "extract_value";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    const node = getSelectedExpression(params);
+
+    if (!node) {
+      return [];
+    }
+
+    const result: IRefactorCodeAction[] = [];
+    const createAction = (
+      title: string,
+      actionName: string,
+    ): IRefactorCodeAction => ({
+      title,
+      kind: CodeActionKind.RefactorExtract,
+      data: {
+        actionName,
+        refactorName,
+        uri: params.sourceFile.uri,
+        range: params.range,
+      },
+    });
+
+    const letTarget = findLetTarget(node);
+
+    if (letTarget) {
+      result.push(createAction("Extract to let", "extract_let"));
+
+      const occurrences = findOccurrences(
+        node,
+        letTarget.letInExpr ?? letTarget.body ?? node,
+        params,
+      );
+
+      if (occurrences.length > 1) {
+        result.push(
+          createAction(
+            `Extract to let, replacing all ${occurrences.length} occurrences`,
+            "extract_let_all",
+          ),
+        );
+      }
+    }
+
+    if (!hasFreeLocalVariables(node, params.sourceFile, params.program)) {
+      result.push(
+        createAction("Extract to top-level constant", "extract_constant"),
+      );
+    }
+
+    return result;
+  },
+  getEditsForAction: (
+    params: ICodeActionParams,
+    actionName: string,
+  ): IRefactorEdit => {
+    const node = getSelectedExpression(params);
+
+    if (!node) {
+      return {};
+    }
+
+    // The value doesn't need the parentheses once it is extracted
+    const valueNode =
+      node.type === "parenthesized_expr"
+        ? node.childForFieldName("expression") ?? node
+        : node;
+
+    const checker = params.program.getTypeChecker();
+    const type = checker.findType(valueNode);
+    const name = getUniqueName(getNameFromType(type), params);
+
+    if (actionName === "extract_constant") {
+      const insertLine =
+        RefactorEditUtils.findLineNumberAfterCurrentFunction(node) ??
+        params.sourceFile.tree.rootNode.endPosition.row;
+
+      return {
+        edits: [
+          RefactorEditUtils.createTopLevelFunction(
+            insertLine,
+            name,
+            type.nodeType !== "Unknown"
+              ? checker.typeToString(type, params.sourceFile)
+              : undefined,
+            0,
+            reindent(valueNode.text, valueNode.startPosition.column, 0),
+          ),
+          TextEdit.replace(params.range, name),
+        ],
+        renamePosition: params.range.start,
+      };
+    }
+
+    const letTarget = findLetTarget(node);
+
+    if (!letTarget) {
+      return {};
+    }
+
+    const occurrences =
+      actionName === "extract_let_all"
+        ? findOccurrences(
+            node,
+            letTarget.letInExpr ?? letTarget.body ?? node,
+            params,
+          )
+        : [node];
+
+    if (letTarget.letInExpr) {
+      const declarations = letTarget.letInExpr.namedChildren.filter(
+        (child) => child.type === "value_declaration",
+      );
+      const lastDeclaration = declarations[declarations.length - 1];
+      const column = declarations[0].startPosition.column;
+
+      return {
+        edits: [
+          TextEdit.insert(
+            PositionUtil.FROM_TS_POSITION(
+              lastDeclaration.endPosition,
+            ).toVSPosition(),
+            `\n\n${getSpaces(column)}${name} =\n${getSpaces(
+              column + 4,
+            )}${reindent(
+              valueNode.text,
+              valueNode.startPosition.column,
+              column + 4,
+            )}`,
+          ),
+          ...occurrences.map((occurrence) =>
+            TextEdit.replace(getRange(occurrence), name),
+          ),
+        ],
+        renamePosition: {
+          line: lastDeclaration.endPosition.row + 2,
+          character: column,
+        },
+      };
+    }
+
+    if (letTarget.body) {
+      const body = letTarget.body;
+      const column = body.startPosition.column;
+
+      const bodyText = replaceInText(
+        body,
+        occurrences.map((occurrence) => ({ node: occurrence, text: name })),
+      );
+
+      return {
+        edits: [
+          TextEdit.replace(
+            getRange(body),
+            [
+              "let",
+              `${getSpaces(column + 4)}${name} =`,
+              `${getSpaces(column + 8)}${reindent(
+                valueNode.text,
+                valueNode.startPosition.column,
+                column + 8,
+              )}`,
+              `${getSpaces(column)}in`,
+              `${getSpaces(column)}${bodyText}`,
+            ].join("\n"),
+          ),
+        ],
+        renamePosition: {
+          line: body.startPosition.row + 1,
+          character: column + 4,
+        },
+      };
+    }
+
+    return {};
+  },
+});
+
+/**
+ * The selection needs to be exactly an expression
+ */
+function getSelectedExpression(
+  params: ICodeActionParams,
+): SyntaxNode | undefined {
+  const node = TreeUtils.getNamedDescendantForRange(
+    params.sourceFile,
+    params.range,
+  );
+
+  if (
+    node.type.includes("expr") &&
+    node.type !== "let_in_expr" &&
+    node.startPosition.column === params.range.start.character &&
+    node.startPosition.row === params.range.start.line &&
+    node.endPosition.column === params.range.end.character &&
+    node.endPosition.row === params.range.end.line
+  ) {
+    return node;
+  }
+}
+
+/**
+ * Find the nearest let the expression can be added to, without moving it out of the scope of a parameter.
+ * If there is none, the nearest function body, lambda body or case branch is wrapped in a new let.
+ */
+function findLetTarget(node: SyntaxNode): ILetTarget | undefined {
+  let child = node;
+  let parent = node.parent;
+
+  while (parent && parent.type !== "file") {
+    switch (parent.type) {
+      case "let_in_expr":
+        return { letInExpr: parent };
+
+      case "value_declaration": {
+        const functionDeclarationLeft = parent.childForFieldName(
+          "functionDeclarationLeft",
+        );
+        const hasParameters =
+          (functionDeclarationLeft?.namedChildren.length ?? 0) > 1;
+
+        if (
+          child.id === parent.childForFieldName("body")?.id &&
+          (hasParameters || parent.parent?.type !== "let_in_expr")
+        ) {
+          return { body: child };
+        }
+        break;
+      }
+
+      case "anonymous_function_expr":
+        if (child.id === parent.lastNamedChild?.id) {
+          return { body: child };
+        }
+        break;
+
+      case "case_of_branch":
+        if (child.id === parent.childForFieldName("expr")?.id) {
+          return { body: child };
+        }
+        break;
+    }
+
+    child = parent;
+    parent = parent.parent;
+  }
+}
+
+/**
+ * Find the expressions in the scope that are the same as the selected one,
+ * referencing the same values
+ */
+function findOccurrences(
+  node: SyntaxNode,
+  scope: SyntaxNode,
+  params: ICodeActionParams,
+): SyntaxNode[] {
+  const normalize = (text: string): string => text.replace(/\s+/g, " ");
+  const text = normalize(node.text);
+  const references = getReferencedDefinitions(node, params);
+
+  return scope
+    .descendantsOfType(node.type)
+    .filter(
+      (candidate) =>
+        normalize(candidate.text) === text &&
+        getReferencedDefinitions(candidate, params).every(
+          (definition, i) => definition === references[i],
+        ),
+    );
+}
+
+function getReferencedDefinitions(
+  node: SyntaxNode,
+  params: ICodeActionParams,
+): (string | undefined)[] {
+  const checker = params.program.getTypeChecker();
+
+  return node
+    .descendantsOfType(["value_expr", "record_base_identifier"])
+    .map((reference) => {
+      const symbol = checker.findDefinition(
+        reference.firstNamedChild?.lastNamedChild ??
+          reference.firstNamedChild ??
+          reference,
+        params.sourceFile,
+      ).symbol;
+
+      return symbol
+        ? `${symbol.node.tree.uri}:${symbol.node.startIndex}`
+        : undefined;
+    });
+}
+
+/**
+ * Check if the expression references parameters or let bindings from outside of it
+ */
+function hasFreeLocalVariables(
+  node: SyntaxNode,
+  sourceFile: ISourceFile,
+  program: IProgram,
+): boolean {
+  const checker = program.getTypeChecker();
+
+  return node
+    .descendantsOfType(["value_expr", "record_base_identifier"])
+    .some((reference) => {
+      const symbol = checker.findDefinition(
+        reference.firstNamedChild?.lastNamedChild ??
+          reference.firstNamedChild ??
+          reference,
+        sourceFile,
+      ).symbol;
+
+      if (
+        !symbol ||
+        symbol.node.tree.uri !== sourceFile.uri ||
+        (symbol.node.startIndex >= node.startIndex &&
+          symbol.node.endIndex <= node.endIndex)
+      ) {
+        return false;
+      }
+
+      switch (symbol.type) {
+        case "Function":
+          return symbol.node.parent?.parent?.type !== "file";
+        case "FunctionParameter":
+        case "AnonymousFunctionParameter":
+        case "CasePattern":
+          return true;
+        default:
+          return false;
+      }
+    });
+}
+
+function getNameFromType(type: Type): string {
+  let name = "value";
+
+  if (type.alias) {
+    name = type.alias.name;
+  } else {
+    switch (type.nodeType) {
+      case "Union":
+        name = type.name;
+        break;
+      case "Record":
+        name = "record";
+        break;
+      case "Tuple":
+        name = "tuple";
+        break;
+      case "Function":
+        name = "function";
+        break;
+    }
+  }
+
+  return CodeGenUtils.lowerFirst(name);
+}
+
+/**
+ * Elm doesn't allow shadowing, so the name can't be used anywhere in the file
+ */
+function getUniqueName(name: string, params: ICodeActionParams): string {
+  const usedNames = new Set<string>();
+  params.sourceFile.symbolLinks?.forEach((symbols) =>
+    symbols.forEach((_, symbolName) => usedNames.add(symbolName)),
+  );
+  const imports = params.program
+    .getTypeChecker()
+    .getAllImports(params.sourceFile);
+
+  const isUsed = (candidate: string): boolean =>
+    usedNames.has(candidate) ||
+    CodeGenUtils.isReservedWord(candidate) ||
+    imports.getVar(candidate).length > 0;
+
+  return CodeGenUtils.getUniqueName(name, isUsed);
+}
+
+function getRange(node: SyntaxNode): Range {
+  return Range.create(
+    PositionUtil.FROM_TS_POSITION(node.startPosition).toVSPosition(),
+    PositionUtil.FROM_TS_POSITION(node.endPosition).toVSPosition(),
+  );
+}
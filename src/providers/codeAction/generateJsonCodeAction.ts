@@ -0,0 +1,840 @@
+import { CodeActionKind, Position, TextEdit } from "vscode-languageserver";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISourceFile } from "../../compiler/forest";
+import { Imports } from "../../compiler/imports";
+import { IProgram } from "../../compiler/program";
+import { TypeChecker } from "../../compiler/typeChecker";
+import { Type, TUnion, TVar } from "../../compiler/typeInference";
+import { CodeGenUtils } from "../../util/codeGenUtils";
+import { ImportUtils } from "../../util/importUtils";
+import { RefactorEditUtils } from "../../util/refactorEditUtils";
+import { TreeUtils } from "../../util/treeUtils";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+type GeneratorKind = "decoder" | "encoder";
+
+interface INamedType {
+  module: string;
+  name: string;
+  declaration: SyntaxNode;
+  sourceFile: ISourceFile;
+}
+
+interface IGeneratorContext {
+  kind: GeneratorKind;
+  program: IProgram;
+  sourceFile: ISourceFile;
+  checker: TypeChecker;
+  imports: Imports;
+  // The qualifiers of Json.Decode and Json.Encode
+  decode: string;
+  encode: string;
+  // The helper function names by type, including the ones being generated
+  helpers: Map<string, string>;
+  // Helpers that are currently being generated, a reference to them is recursive
+  inProgress: Set<string>;
+  functions: string[];
+  modulesToImport: Set<string>;
+  usedNames: Set<string>;
+  // Parameter names of the function being generated, as Elm doesn't allow shadowing
+  localNames: Set<string>;
+}
+
+const refactorName = "generate_json";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    const declaration = findTypeDeclaration(params);
+
+    if (!declaration) {
+      return [];
+    }
+
+    const typeName = getTypeName(declaration);
+
+    return (["decoder", "encoder"] as GeneratorKind[]).map((kind) => ({
+      title: `Generate JSON ${kind} for \`${typeName}\``,
+      kind: CodeActionKind.RefactorRewrite,
+      data: {
+        actionName: kind,
+        refactorName,
+        uri: params.sourceFile.uri,
+        range: params.range,
+      },
+    }));
+  },
+  getEditsForAction: (
+    params: ICodeActionParams,
+    actionName: string,
+  ): IRefactorEdit => {
+    const declaration = findTypeDeclaration(params);
+    const moduleName = params.sourceFile.moduleName;
+
+    if (!declaration || !moduleName) {
+      return {};
+    }
+
+    const tree = params.sourceFile.tree;
+    const checker = params.program.getTypeChecker();
+
+    const usedNames = new Set<string>();
+    params.sourceFile.symbolLinks
+      ?.get(tree.rootNode)
+      ?.forEach((_, name) => usedNames.add(name));
+
+    const context: IGeneratorContext = {
+      kind: actionName === "encoder" ? "encoder" : "decoder",
+      program: params.program,
+      sourceFile: params.sourceFile,
+      checker,
+      imports: checker.getAllImports(params.sourceFile),
+      decode: getModuleQualifier("Json.Decode", "Decode", tree),
+      encode: getModuleQualifier("Json.Encode", "Encode", tree),
+      helpers: new Map<string, string>(),
+      inProgress: new Set(),
+      functions: [],
+      modulesToImport: new Set(),
+      usedNames,
+      localNames: new Set(),
+    };
+
+    generateHelper(
+      {
+        module: moduleName,
+        name: getTypeName(declaration),
+        declaration,
+        sourceFile: params.sourceFile,
+      },
+      context,
+    );
+
+    const edits: TextEdit[] = [
+      TextEdit.insert(
+        Position.create(
+          declaration.endPosition.row,
+          declaration.endPosition.column,
+        ),
+        `\n\n\n${context.functions.join("\n\n\n")}`,
+      ),
+    ];
+
+    const importData = Array.from(
+      context.modulesToImport,
+    ).map((importModule) => ({ moduleName: importModule }));
+
+    const jsonModule =
+      context.kind === "decoder" ? "Json.Decode" : "Json.Encode";
+    if (!TreeUtils.findImportClauseByName(tree, jsonModule)) {
+      importData.push({
+        moduleName: `${jsonModule} as ${
+          context.kind === "decoder" ? context.decode : context.encode
+        }`,
+      });
+    }
+
+    const importEdit =
+      importData.length > 0
+        ? RefactorEditUtils.addImports(tree, importData)
+        : undefined;
+
+    if (importEdit) {
+      edits.push(importEdit);
+    }
+
+    return { edits };
+  },
+});
+
+function findTypeDeclaration(
+  params: ICodeActionParams,
+): SyntaxNode | undefined {
+  const node = TreeUtils.getNamedDescendantForPosition(
+    params.sourceFile.tree.rootNode,
+    params.range.start,
+  );
+  const declaration = node.parent;
+
+  if (
+    node.type === "upper_case_identifier" &&
+    (declaration?.type === "type_alias_declaration" ||
+      declaration?.type === "type_declaration") &&
+    declaration.childForFieldName("name")?.id === node.id
+  ) {
+    return declaration;
+  }
+}
+
+function getTypeName(declaration: SyntaxNode): string {
+  return declaration.childForFieldName("name")?.text ?? "";
+}
+
+function getTypeVariables(declaration: SyntaxNode): string[] {
+  return declaration.namedChildren
+    .filter((child) => child.type === "lower_type_name")
+    .map((child) => child.text);
+}
+
+function getModuleQualifier(
+  moduleName: string,
+  defaultAlias: string,
+  tree: SyntaxNode["tree"],
+): string {
+  const importClause = TreeUtils.findImportClauseByName(tree, moduleName);
+
+  if (!importClause) {
+    return defaultAlias;
+  }
+
+  return (
+    TreeUtils.findFirstNamedChildOfType("as_clause", importClause)
+      ?.lastNamedChild?.text ?? moduleName
+  );
+}
+
+/**
+ * Generate the decoder or encoder function for a type alias or custom type and return its name.
+ * Generic types get a decoder or encoder argument for each type variable.
+ */
+function generateHelper(
+  namedType: INamedType,
+  context: IGeneratorContext,
+): string {
+  const key = `${namedType.module}.${namedType.name}`;
+  const functionName = getUniqueName(
+    context.kind === "decoder"
+      ? `${CodeGenUtils.lowerFirst(namedType.name)}Decoder`
+      : `encode${namedType.name}`,
+    context,
+  );
+
+  context.helpers.set(key, functionName);
+  context.inProgress.add(key);
+
+  const outerLocalNames = context.localNames;
+  context.localNames = new Set();
+
+  const typeVariables = getTypeVariables(namedType.declaration);
+  const variableArguments = new Map(
+    typeVariables.map((variable) => [
+      variable,
+      getLocalName(
+        context.kind === "decoder"
+          ? `${variable}Decoder`
+          : `encode${CodeGenUtils.upperFirst(variable)}`,
+        context,
+      ),
+    ]),
+  );
+
+  // Reserve the position, so the helpers come after the function using them
+  const index = context.functions.push("") - 1;
+
+  const typeText = getTypeText(namedType, typeVariables, context);
+  const argumentTypes = typeVariables.map((variable) =>
+    context.kind === "decoder"
+      ? `${context.decode}.Decoder ${variable}`
+      : `(${variable} -> ${context.encode}.Value)`,
+  );
+  const resultType =
+    context.kind === "decoder"
+      ? `${context.decode}.Decoder ${CodeGenUtils.parenthesize(typeText)}`
+      : `${typeText} -> ${context.encode}.Value`;
+
+  const valueName = getLocalName(
+    CodeGenUtils.lowerFirst(namedType.name),
+    context,
+  );
+  const body =
+    namedType.declaration.type === "type_alias_declaration"
+      ? getAliasBody(namedType, valueName, variableArguments, context)
+      : getUnionBody(namedType, valueName, variableArguments, context);
+
+  const functionArguments = [
+    ...variableArguments.values(),
+    ...(context.kind === "encoder" ? [valueName] : []),
+  ];
+
+  context.functions[index] = [
+    `${functionName} : ${[...argumentTypes, resultType].join(" -> ")}`,
+    `${[functionName, ...functionArguments].join(" ")} =`,
+    ...body.map((line) => (line ? `    ${line}` : line)),
+  ].join("\n");
+
+  context.inProgress.delete(key);
+  context.localNames = outerLocalNames;
+
+  return functionName;
+}
+
+function getAliasBody(
+  namedType: INamedType,
+  valueName: string,
+  variableArguments: Map<string, string>,
+  context: IGeneratorContext,
+): string[] {
+  const aliasType = context.checker.findType(namedType.declaration);
+  const type = { ...aliasType, alias: undefined } as Type;
+
+  if (type.nodeType !== "Record") {
+    const expression = getExpression(type, variableArguments, context);
+    return [
+      context.kind === "decoder" ? expression : `${expression} ${valueName}`,
+    ];
+  }
+
+  const fields = Object.entries(type.fields);
+
+  if (context.kind === "encoder") {
+    return [
+      `${context.encode}.object`,
+      ...fields.map(
+        ([field, fieldType], i) =>
+          `    ${i === 0 ? "[" : ","} ( "${field}", ${applyEncoder(
+            getExpression(fieldType, variableArguments, context),
+            `${valueName}.${field}`,
+          )} )`,
+      ),
+      fields.length > 0 ? "    ]" : "    []",
+    ];
+  }
+
+  // The alias can only be used as a constructor in its own module
+  const constructor =
+    namedType.sourceFile.uri === context.sourceFile.uri
+      ? namedType.name
+      : getRecordLambda(
+          fields.map(([field]) => field),
+          context,
+        );
+
+  return getMapLines(
+    constructor,
+    fields.map(
+      ([field, fieldType]) =>
+        `${context.decode}.field "${field}" ${CodeGenUtils.parenthesize(
+          getExpression(fieldType, variableArguments, context),
+        )}`,
+    ),
+    context,
+  );
+}
+
+/**
+ * Custom types without arguments are a string of the constructor name,
+ * others are an object with the constructor name as tag and a list of arguments
+ */
+function getUnionBody(
+  namedType: INamedType,
+  valueName: string,
+  variableArguments: Map<string, string>,
+  context: IGeneratorContext,
+): string[] {
+  const variants = namedType.declaration.namedChildren
+    .filter((child) => child.type === "union_variant")
+    .map((variant) => {
+      const name = variant.childForFieldName("name")?.text ?? "";
+      const type = context.checker.findType(variant);
+
+      return {
+        name,
+        constructor: getConstructorReference(name, namedType, context),
+        parameters: type.nodeType === "Function" ? type.params : [],
+      };
+    });
+
+  if (variants.some((variant) => !variant.constructor)) {
+    return [
+      `Debug.todo "The constructors of ${namedType.name} are not exposed"`,
+    ];
+  }
+
+  const isEnum = variants.every((variant) => variant.parameters.length === 0);
+  const { decode, encode } = context;
+
+  if (context.kind === "encoder") {
+    const branches = variants.map((variant) => {
+      const argumentNames = variant.parameters.map((_, i) =>
+        getLocalName(`arg${i + 1}`, context),
+      );
+      const tag = `${encode}.string "${variant.name}"`;
+      const encodedArguments = variant.parameters.map((parameter, i) =>
+        applyEncoder(
+          getExpression(parameter, variableArguments, context),
+          argumentNames[i],
+        ),
+      );
+
+      // The arguments are only in scope of their branch
+      argumentNames.forEach((name) => context.localNames.delete(name));
+
+      return [
+        `    ${[variant.constructor, ...argumentNames].join(" ")} ->`,
+        ...(isEnum
+          ? [`        ${tag}`]
+          : [
+              `        ${encode}.object`,
+              `            [ ( "tag", ${tag} )`,
+              ...(encodedArguments.length > 0
+                ? [
+                    `            , ( "args", ${encode}.list identity [ ${encodedArguments.join(
+                      ", ",
+                    )} ] )`,
+                  ]
+                : []),
+              `            ]`,
+            ]),
+      ];
+    });
+
+    return [
+      `case ${valueName} of`,
+      ...branches.flatMap((branch, i) => (i > 0 ? ["", ...branch] : branch)),
+    ];
+  }
+
+  const branches = variants.flatMap((variant) => {
+    const decoders = variant.parameters.map(
+      (parameter, i) =>
+        `${decode}.field "args" (${decode}.index ${i} ${CodeGenUtils.parenthesize(
+          getExpression(parameter, variableArguments, context),
+        )})`,
+    );
+
+    return [
+      `"${variant.name}" ->`,
+      ...getMapLines(
+        variant.constructor ?? variant.name,
+        decoders,
+        context,
+      ).map((line) => `    ${line}`),
+      "",
+    ];
+  });
+
+  return [
+    isEnum ? `${decode}.string` : `${decode}.field "tag" ${decode}.string`,
+    `    |> ${decode}.andThen`,
+    `        (\\tag ->`,
+    `            case tag of`,
+    ...branches.map((line) => (line ? `                ${line}` : line)),
+    `                _ ->`,
+    `                    ${decode}.fail ("Unknown ${namedType.name}: " ++ tag)`,
+    `        )`,
+  ];
+}
+
+/**
+ * Get a decoder or an encoder function expression for a type
+ */
+function getExpression(
+  type: Type,
+  variableArguments: Map<string, string>,
+  context: IGeneratorContext,
+): string {
+  const { decode, encode } = context;
+  const isDecoder = context.kind === "decoder";
+  const todo = `Debug.todo "${context.kind}"`;
+
+  if (type.alias && type.nodeType === "Record") {
+    return getNamedTypeExpression(
+      type.alias.module,
+      type.alias.name,
+      type.alias.parameters,
+      variableArguments,
+      context,
+    );
+  }
+
+  const inner = (innerType: Type): string =>
+    CodeGenUtils.parenthesize(
+      getExpression(innerType, variableArguments, context),
+    );
+
+  switch (type.nodeType) {
+    case "Var":
+      return variableArguments.get(type.name) ?? todo;
+
+    case "Unit":
+      return isDecoder ? `${decode}.succeed ()` : `\\_ -> ${encode}.null`;
+
+    case "Tuple": {
+      const names = type.types.map((_, i) =>
+        getLocalName(["first", "second", "third"][i] ?? "value", context),
+      );
+      const tuple = `( ${names.join(", ")} )`;
+
+      if (!isDecoder) {
+        return `\\${tuple} -> ${encode}.list identity [ ${type.types
+          .map((tupleType, i) =>
+            applyEncoder(
+              getExpression(tupleType, variableArguments, context),
+              names[i],
+            ),
+          )
+          .join(", ")} ]`;
+      }
+
+      return `${decode}.map${type.types.length} (\\${names.join(
+        " ",
+      )} -> ${tuple}) ${type.types
+        .map((tupleType, i) => `(${decode}.index ${i} ${inner(tupleType)})`)
+        .join(" ")}`;
+    }
+
+    case "Record": {
+      const fields = Object.entries(type.fields);
+
+      if (!isDecoder) {
+        const record = getLocalName("record", context);
+
+        return `\\${record} -> ${encode}.object [ ${fields
+          .map(
+            ([field, fieldType]) =>
+              `( "${field}", ${applyEncoder(
+                getExpression(fieldType, variableArguments, context),
+                `${record}.${field}`,
+              )} )`,
+          )
+          .join(", ")} ]`;
+      }
+
+      return getMapLines(
+        getRecordLambda(
+          fields.map(([field]) => field),
+          context,
+        ),
+        fields.map(
+          ([field, fieldType]) =>
+            `${decode}.field "${field}" ${inner(fieldType)}`,
+        ),
+        context,
+      )
+        .map((line) => line.trim())
+        .join(" ");
+    }
+
+    case "Union":
+      return getUnionExpression(type, variableArguments, context);
+  }
+
+  return todo;
+}
+
+function getUnionExpression(
+  type: TUnion,
+  variableArguments: Map<string, string>,
+  context: IGeneratorContext,
+): string {
+  const { decode, encode } = context;
+  const isDecoder = context.kind === "decoder";
+  const inner = (innerType: Type): string =>
+    CodeGenUtils.parenthesize(
+      getExpression(innerType, variableArguments, context),
+    );
+
+  switch (`${type.module}.${type.name}`) {
+    case "Basics.Int":
+      return isDecoder ? `${decode}.int` : `${encode}.int`;
+    case "Basics.Float":
+      return isDecoder ? `${decode}.float` : `${encode}.float`;
+    case "Basics.Bool":
+      return isDecoder ? `${decode}.bool` : `${encode}.bool`;
+    case "String.String":
+      return isDecoder ? `${decode}.string` : `${encode}.string`;
+    case "Maybe.Maybe":
+      return isDecoder
+        ? `${decode}.nullable ${inner(type.params[0])}`
+        : `Maybe.map ${inner(
+            type.params[0],
+          )} >> Maybe.withDefault ${encode}.null`;
+    case "List.List":
+      return isDecoder
+        ? `${decode}.list ${inner(type.params[0])}`
+        : `${encode}.list ${inner(type.params[0])}`;
+    case "Array.Array":
+      return isDecoder
+        ? `${decode}.array ${inner(type.params[0])}`
+        : `${encode}.array ${inner(type.params[0])}`;
+    case "Dict.Dict": {
+      const keyType = type.params[0];
+
+      if (
+        keyType?.nodeType === "Union" &&
+        keyType.module === "String" &&
+        keyType.name === "String"
+      ) {
+        return isDecoder
+          ? `${decode}.dict ${inner(type.params[1])}`
+          : `${encode}.dict identity ${inner(type.params[1])}`;
+      }
+
+      return `Debug.todo "${context.kind}"`;
+    }
+    case "Json.Encode.Value":
+    case "Json.Decode.Value":
+      return isDecoder ? `${decode}.value` : "identity";
+  }
+
+  return getNamedTypeExpression(
+    type.module,
+    type.name,
+    type.params,
+    variableArguments,
+    context,
+  );
+}
+
+/**
+ * Use an existing decoder or encoder for the type, or generate a new one
+ */
+function getNamedTypeExpression(
+  module: string,
+  name: string,
+  parameters: Type[],
+  variableArguments: Map<string, string>,
+  context: IGeneratorContext,
+): string {
+  const key = `${module}.${name}`;
+
+  let functionName =
+    context.helpers.get(key) ??
+    (parameters.length === 0
+      ? findExistingFunction(module, name, context)
+      : undefined);
+
+  if (!functionName) {
+    const namedType = findNamedType(module, name, context);
+
+    if (!namedType) {
+      return `Debug.todo "${context.kind}"`;
+    }
+
+    functionName = generateHelper(namedType, context);
+  }
+
+  const expression = [
+    functionName,
+    ...parameters.map((parameter) =>
+      CodeGenUtils.parenthesize(
+        getExpression(parameter, variableArguments, context),
+      ),
+    ),
+  ].join(" ");
+
+  // Decoders are values, so a recursive reference needs to be lazy
+  if (context.kind === "decoder" && context.inProgress.has(key)) {
+    return `${context.decode}.lazy (\\_ -> ${expression})`;
+  }
+
+  return expression;
+}
+
+/**
+ * Find a top level function with the type of a decoder or encoder of the type,
+ * in this module, the imported modules or another module of the project
+ */
+function findExistingFunction(
+  module: string,
+  name: string,
+  context: IGeneratorContext,
+): string | undefined {
+  const { checker, sourceFile, program } = context;
+
+  const isMatchingType = (type: Type): boolean => {
+    const matches = (typeParameter: Type | undefined): boolean =>
+      !!typeParameter &&
+      (typeParameter.alias
+        ? typeParameter.alias.module === module &&
+          typeParameter.alias.name === name
+        : typeParameter.nodeType === "Union" &&
+          typeParameter.module === module &&
+          typeParameter.name === name);
+
+    if (context.kind === "decoder") {
+      return (
+        type.nodeType === "Union" &&
+        type.module === "Json.Decode" &&
+        type.name === "Decoder" &&
+        matches(type.params[0])
+      );
+    }
+
+    return (
+      type.nodeType === "Function" &&
+      type.params.length === 1 &&
+      matches(type.params[0]) &&
+      (type.return.alias?.name ??
+        (type.return.nodeType === "Union" ? type.return.name : "")) === "Value"
+    );
+  };
+
+  const localFunction = TreeUtils.findAllTopLevelFunctionDeclarations(
+    sourceFile.tree,
+  )?.find((declaration) => {
+    const functionDeclarationLeft = declaration.childForFieldName(
+      "functionDeclarationLeft",
+    );
+
+    return (
+      !!functionDeclarationLeft &&
+      isMatchingType(checker.findType(functionDeclarationLeft))
+    );
+  });
+
+  if (localFunction) {
+    return localFunction.childForFieldName("functionDeclarationLeft")
+      ?.firstNamedChild?.text;
+  }
+
+  let importedFunction: string | undefined;
+  context.imports.forEach((imported) => {
+    if (
+      !importedFunction &&
+      imported.type === "Function" &&
+      program.getSourceFile(imported.fromModule.uri)?.writeable &&
+      isMatchingType(checker.findType(imported.node))
+    ) {
+      importedFunction = imported.name;
+    }
+  });
+
+  if (importedFunction) {
+    return importedFunction;
+  }
+
+  const possibleImport = ImportUtils.getPossibleImports(
+    program,
+    sourceFile,
+  ).find(
+    (possible) =>
+      possible.type === "Function" &&
+      !possible.package &&
+      isMatchingType(checker.findType(possible.node)),
+  );
+
+  if (possibleImport) {
+    context.modulesToImport.add(possibleImport.module);
+    return `${possibleImport.module}.${possibleImport.value}`;
+  }
+}
+
+function findNamedType(
+  module: string,
+  name: string,
+  context: IGeneratorContext,
+): INamedType | undefined {
+  const sourceFile =
+    module === context.sourceFile.moduleName
+      ? context.sourceFile
+      : context.program.getSourceFileOfImportableModule(
+          context.sourceFile,
+          module,
+        );
+
+  if (!sourceFile) {
+    return;
+  }
+
+  const declaration =
+    TreeUtils.findTypeAliasDeclaration(sourceFile.tree, name) ??
+    TreeUtils.findTypeDeclaration(sourceFile.tree, name);
+
+  if (declaration) {
+    return { module, name, declaration, sourceFile };
+  }
+}
+
+/**
+ * Get the reference to a constructor of a custom type, if it is visible in this module
+ */
+function getConstructorReference(
+  constructor: string,
+  namedType: INamedType,
+  context: IGeneratorContext,
+): string | undefined {
+  if (namedType.sourceFile.uri === context.sourceFile.uri) {
+    return constructor;
+  }
+
+  if (context.imports.getConstructor(constructor, namedType.module).length) {
+    return constructor;
+  }
+
+  const importClause = TreeUtils.findImportClauseByName(
+    context.sourceFile.tree,
+    namedType.module,
+  );
+  const qualifier = importClause
+    ? TreeUtils.findFirstNamedChildOfType("as_clause", importClause)
+        ?.lastNamedChild?.text ?? namedType.module
+    : undefined;
+
+  if (
+    qualifier &&
+    context.imports.getConstructor(
+      `${qualifier}.${constructor}`,
+      namedType.module,
+    ).length
+  ) {
+    return `${qualifier}.${constructor}`;
+  }
+}
+
+function getTypeText(
+  namedType: INamedType,
+  typeVariables: string[],
+  context: IGeneratorContext,
+): string {
+  return context.checker.typeToString(
+    TUnion(
+      namedType.module,
+      namedType.name,
+      typeVariables.map((variable) => TVar(variable)),
+    ),
+    context.sourceFile,
+  );
+}
+
+function getMapLines(
+  constructor: string,
+  decoders: string[],
+  context: IGeneratorContext,
+): string[] {
+  return CodeGenUtils.getDecoderMapLines(context.decode, constructor, decoders);
+}
+
+function getRecordLambda(fields: string[], context: IGeneratorContext): string {
+  const names = fields.map((field) => getLocalName(field, context));
+
+  return `\\${names.join(" ")} -> { ${fields
+    .map((field, i) => `${field} = ${names[i]}`)
+    .join(", ")} }`;
+}
+
+function applyEncoder(encoder: string, value: string): string {
+  return `${CodeGenUtils.parenthesize(encoder)} ${value}`;
+}
+
+function getLocalName(name: string, context: IGeneratorContext): string {
+  const uniqueName = CodeGenUtils.getUniqueName(
+    name,
+    (candidate) =>
+      context.usedNames.has(candidate) || context.localNames.has(candidate),
+  );
+
+  context.localNames.add(uniqueName);
+  return uniqueName;
+}
+
+function getUniqueName(name: string, context: IGeneratorContext): string {
+  const uniqueName = CodeGenUtils.getUniqueName(name, (candidate) =>
+    context.usedNames.has(candidate),
+  );
+
+  context.usedNames.add(uniqueName);
+  return uniqueName;
+}
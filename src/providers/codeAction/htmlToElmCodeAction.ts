@@ -0,0 +1,77 @@
+import { CodeActionKind } from "vscode-languageserver";
+import { SyntaxNode } from "web-tree-sitter";
+import { PositionUtil } from "../../positionUtil";
+import { CodeGenUtils } from "../../util/codeGenUtils";
+import { HtmlToElm } from "../../util/htmlToElm";
+import { TreeUtils } from "../../util/treeUtils";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const refactorName = "html_to_elm";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    const stringNode = findStringNode(params);
+
+    if (stringNode && HtmlToElm.isHtml(getStringContent(stringNode))) {
+      return [
+        {
+          title: "Convert HTML to Elm",
+          kind: CodeActionKind.RefactorRewrite,
+          data: {
+            actionName: "html_to_elm",
+            refactorName,
+            uri: params.sourceFile.uri,
+            range: params.range,
+          },
+        },
+      ];
+    }
+
+    return [];
+  },
+  getEditsForAction: (params: ICodeActionParams): IRefactorEdit => {
+    const stringNode = findStringNode(params);
+
+    if (!stringNode) {
+      return {};
+    }
+
+    const html = getStringContent(stringNode);
+
+    if (!HtmlToElm.isHtml(html)) {
+      return {};
+    }
+
+    return {
+      edits: HtmlToElm.getEdits(html, params.program, params.sourceFile, {
+        start: PositionUtil.FROM_TS_POSITION(
+          stringNode.startPosition,
+        ).toVSPosition(),
+        end: PositionUtil.FROM_TS_POSITION(
+          stringNode.endPosition,
+        ).toVSPosition(),
+      }),
+    };
+  },
+});
+
+function findStringNode(params: ICodeActionParams): SyntaxNode | undefined {
+  const node = TreeUtils.getNamedDescendantForPosition(
+    params.sourceFile.tree.rootNode,
+    params.range.start,
+  );
+
+  return node.type === "string_constant_expr"
+    ? node
+    : TreeUtils.findParentOfType("string_constant_expr", node);
+}
+
+function getStringContent(stringNode: SyntaxNode): string {
+  const text = stringNode.text;
+
+  return CodeGenUtils.parseStringLiteral(text) ?? text.slice(1, -1);
+}
@@ -7,3 +7,14 @@ import "./moveFunctionCodeAction";
 import "./installPackageCodeAction";
 import "./addMissingRecordFieldCodeAction";
 import "./addMissingCaseBranches";
+import "./typedHoleCodeAction";
+import "./inlineCodeAction";
+import "./extractValueCodeAction";
+import "./changeSignatureCodeAction";
+import "./generateJsonCodeAction";
+import "./jsonToElmCodeAction";
+import "./htmlToElmCodeAction";
+import "./organizeImportsCodeAction";
+import "./splitModuleCodeAction";
+import "./safeDeleteCodeAction";
+import "./removeDeadCodeCodeAction";
@@ -0,0 +1,672 @@
+import { CodeActionKind, Range, TextEdit } from "vscode-languageserver";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISymbol } from "../../compiler/binder";
+import { ISourceFile } from "../../compiler/forest";
+import { IProgram } from "../../compiler/program";
+import { References } from "../../compiler/references";
+import { PositionUtil } from "../../positionUtil";
+import { CodeGenUtils } from "../../util/codeGenUtils";
+import {
+  getSpaces,
+  ITextReplacement,
+  RefactorEditUtils,
+  reindent,
+  replaceInText,
+} from "../../util/refactorEditUtils";
+import { TreeUtils } from "../../util/treeUtils";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+interface IInlineTarget {
+  // The reference to the inlined value and the call it is the target of
+  reference: SyntaxNode;
+  replacedNode: SyntaxNode;
+  args: SyntaxNode[];
+  definition: ISymbol;
+  declaration: SyntaxNode;
+  definitionFile: ISourceFile;
+}
+
+// Expressions that never need parentheses
+const atomicExpressions = [
+  "value_expr",
+  "number_constant_expr",
+  "string_constant_expr",
+  "char_constant_expr",
+  "parenthesized_expr",
+  "record_expr",
+  "list_expr",
+  "tuple_expr",
+  "unit_expr",
+  "field_access_expr",
+  "field_accessor_function_expr",
+];
+
+// Arguments that can be substituted for a parameter without a let
+const simpleExpressions = [
+  "value_expr",
+  "number_constant_expr",
+  "string_constant_expr",
+  "char_constant_expr",
+  "unit_expr",
+];
+
+const refactorName = "inline";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    const target = findInlineTarget(params);
+
+    if (!target) {
+      return [];
+    }
+
+    const result: IRefactorCodeAction[] = [
+      {
+        title: `Inline \`${target.definition.name}\``,
+        kind: CodeActionKind.RefactorInline,
+        data: {
+          actionName: "inline",
+          refactorName,
+          uri: params.sourceFile.uri,
+          range: params.range,
+        },
+      },
+    ];
+
+    if (canRemoveDefinition(target, params.program)) {
+      result.push({
+        title: `Inline \`${target.definition.name}\` and remove the definition`,
+        kind: CodeActionKind.RefactorInline,
+        data: {
+          actionName: "inline_and_remove",
+          refactorName,
+          uri: params.sourceFile.uri,
+          range: params.range,
+        },
+      });
+    }
+
+    return result;
+  },
+  getEditsForAction: (
+    params: ICodeActionParams,
+    actionName: string,
+  ): IRefactorEdit => {
+    const target = findInlineTarget(params);
+
+    if (!target) {
+      return {};
+    }
+
+    const modulesToImport = new Set<string>();
+    const inlinedText = getInlinedText(target, params, modulesToImport);
+
+    const edits: TextEdit[] = [];
+    const changes: { [uri: string]: TextEdit[] } = {
+      [params.sourceFile.uri]: edits,
+    };
+
+    if (modulesToImport.size > 0) {
+      const importEdit = RefactorEditUtils.addImports(
+        params.sourceFile.tree,
+        Array.from(modulesToImport).map((moduleName) => ({ moduleName })),
+      );
+
+      if (importEdit) {
+        edits.push(importEdit);
+      }
+    }
+
+    const letInExpr = target.declaration.parent;
+    const letBody = letInExpr?.childForFieldName("body");
+
+    // Removing the only declaration of a let removes the whole let
+    if (
+      actionName === "inline_and_remove" &&
+      letInExpr?.type === "let_in_expr" &&
+      letBody &&
+      letInExpr.namedChildren.filter(
+        (child) => child.type === "value_declaration",
+      ).length === 1
+    ) {
+      const bodyText = replaceInText(letBody, [
+        { node: target.replacedNode, text: inlinedText },
+      ]);
+
+      edits.push(
+        TextEdit.replace(
+          getRange(letInExpr),
+          reindent(
+            bodyText,
+            letBody.startPosition.column,
+            letInExpr.startPosition.column,
+          ),
+        ),
+      );
+
+      return { edits };
+    }
+
+    edits.push(TextEdit.replace(getRange(target.replacedNode), inlinedText));
+
+    if (actionName === "inline_and_remove") {
+      const definitionUri = target.definitionFile.uri;
+      const definitionEdits = changes[definitionUri] ?? [];
+      changes[definitionUri] = definitionEdits;
+
+      definitionEdits.push(
+        RefactorEditUtils.removeValueDeclaration(target.declaration),
+      );
+
+      if (target.declaration.parent?.type === "file") {
+        const unexposeEdit = RefactorEditUtils.unexposedValueInModule(
+          target.definitionFile.tree,
+          target.definition.name,
+        );
+
+        if (unexposeEdit) {
+          definitionEdits.push(unexposeEdit);
+        }
+      }
+
+      if (
+        definitionUri !== params.sourceFile.uri &&
+        target.definitionFile.moduleName
+      ) {
+        const removeImportEdit = RefactorEditUtils.removeValueFromImport(
+          params.sourceFile.tree,
+          target.definitionFile.moduleName,
+          target.definition.name,
+        );
+
+        if (removeImportEdit) {
+          edits.push(removeImportEdit);
+        }
+      }
+    }
+
+    return { changes };
+  },
+});
+
+function findInlineTarget(
+  params: ICodeActionParams,
+): IInlineTarget | undefined {
+  const node = TreeUtils.getNamedDescendantForPosition(
+    params.sourceFile.tree.rootNode,
+    params.range.start,
+  );
+
+  const reference = node.parent?.parent;
+
+  if (
+    node.type !== "lower_case_identifier" ||
+    node.parent?.type !== "value_qid" ||
+    reference?.type !== "value_expr"
+  ) {
+    return;
+  }
+
+  const checker = params.program.getTypeChecker();
+  const definition = checker.findDefinition(node, params.sourceFile).symbol;
+  const declaration = definition?.node.parent;
+
+  if (
+    !definition ||
+    definition.type !== "Function" ||
+    definition.node.type !== "function_declaration_left" ||
+    declaration?.type !== "value_declaration"
+  ) {
+    return;
+  }
+
+  const definitionFile = params.program.getSourceFile(definition.node.tree.uri);
+  const body = declaration.childForFieldName("body");
+
+  if (!definitionFile?.writeable || !body) {
+    return;
+  }
+
+  // Recursive functions can't be inlined
+  const isRecursive = body
+    .descendantsOfType("value_expr")
+    .some(
+      (valueExpr) =>
+        valueExpr.text.endsWith(definition.name) &&
+        isReferenceTo(
+          valueExpr,
+          definition.node,
+          definitionFile,
+          params.program,
+        ),
+    );
+
+  if (isRecursive) {
+    return;
+  }
+
+  // The body can only use what the other module exposes
+  if (
+    definitionFile.uri !== params.sourceFile.uri &&
+    usesUnexposedValues(declaration, definitionFile, params.program)
+  ) {
+    return;
+  }
+
+  const call = reference.parent;
+  const isCallTarget =
+    call?.type === "function_call_expr" &&
+    call.childForFieldName("target")?.startIndex === reference.startIndex;
+
+  return {
+    reference,
+    replacedNode: isCallTarget && call ? call : reference,
+    args:
+      isCallTarget && call
+        ? call.namedChildren
+            .slice(1)
+            .filter((arg) => !arg.type.includes("comment"))
+        : [],
+    definition,
+    declaration,
+    definitionFile,
+  };
+}
+
+/**
+ * The definition can be removed if the reference is the last one
+ */
+function canRemoveDefinition(
+  target: IInlineTarget,
+  program: IProgram,
+): boolean {
+  const usages = References.find(target.definition, program).filter(
+    (ref) =>
+      ref.node.parent?.type === "value_qid" &&
+      ref.node.parent.parent?.type === "value_expr",
+  );
+
+  if (
+    usages.length !== 1 ||
+    usages[0].node.startIndex !==
+      target.reference.firstNamedChild?.lastNamedChild?.startIndex
+  ) {
+    return false;
+  }
+
+  // We can't unexpose the only exposed value of a module
+  return (
+    target.declaration.parent?.type !== "file" ||
+    !TreeUtils.isExposedFunctionOrPort(
+      target.definitionFile.tree,
+      target.definition.name,
+    ) ||
+    !!RefactorEditUtils.unexposedValueInModule(
+      target.definitionFile.tree,
+      target.definition.name,
+    )
+  );
+}
+
+/**
+ * Get the body of the definition with the arguments substituted for the parameters,
+ * using a let for arguments that can't be substituted
+ */
+function getInlinedText(
+  target: IInlineTarget,
+  params: ICodeActionParams,
+  modulesToImport: Set<string>,
+): string {
+  const { declaration, definitionFile, args } = target;
+  const body = declaration.childForFieldName("body");
+  const parameters =
+    declaration.firstNamedChild?.namedChildren
+      .slice(1)
+      .filter((param) => !param.type.includes("comment")) ?? [];
+
+  if (!body) {
+    return target.replacedNode.text;
+  }
+
+  const replacements: ITextReplacement[] = [];
+  const letDeclarations: string[] = [];
+  const usedNames = TreeUtils.getNamesInScope(
+    target.replacedNode,
+    params.sourceFile,
+  );
+  const imports = params.program
+    .getTypeChecker()
+    .getAllImports(params.sourceFile);
+  const bodyNames = getLowerCaseNames(body);
+  const boundNames = getBoundNames(body, definitionFile);
+
+  parameters.slice(0, args.length).forEach((param, i) => {
+    const arg = args[i];
+
+    if (param.type === "anything_pattern") {
+      return;
+    }
+
+    let pattern = param.text;
+
+    if (param.type === "lower_pattern") {
+      const usages = body
+        .descendantsOfType("value_expr")
+        .filter(
+          (valueExpr) =>
+            valueExpr.text === param.text &&
+            isReferenceTo(valueExpr, param, definitionFile, params.program),
+        );
+
+      if (usages.length === 0) {
+        return;
+      }
+
+      // A simple argument is substituted, unless the body binds one of its names
+      const isCaptured = Array.from(getLowerCaseNames(arg)).some((name) =>
+        boundNames.has(name),
+      );
+
+      if (simpleExpressions.includes(arg.type) && !isCaptured) {
+        usages.forEach((usage) =>
+          replacements.push({
+            node: usage,
+            text: needsParentheses(usage)
+              ? parenthesize(arg.text, arg)
+              : arg.text,
+          }),
+        );
+        return;
+      }
+
+      // The binding can't shadow a name at the call site or capture one in the body
+      pattern = CodeGenUtils.getUniqueName(
+        param.text,
+        (candidate) =>
+          usedNames.has(candidate) ||
+          (candidate !== param.text && bodyNames.has(candidate)) ||
+          CodeGenUtils.isReservedWord(candidate) ||
+          imports.getVar(candidate).length > 0,
+      );
+      usedNames.add(pattern);
+
+      if (pattern !== param.text) {
+        usages.forEach((usage) =>
+          replacements.push({ node: usage, text: pattern }),
+        );
+      }
+    }
+
+    letDeclarations.push(
+      `${pattern} =\n    ${reindent(arg.text, arg.startPosition.column, 4)}`,
+    );
+  });
+
+  if (definitionFile.uri !== params.sourceFile.uri) {
+    replacements.push(
+      ...getQualifiedReferences(target, params, modulesToImport),
+    );
+  }
+
+  let text = reindent(
+    replaceInText(body, replacements),
+    body.startPosition.column,
+    0,
+  );
+  let isAtomic = atomicExpressions.includes(body.type);
+
+  if (letDeclarations.length > 0) {
+    text = [
+      "let",
+      ...letDeclarations.map(
+        (letDeclaration) => `${getSpaces(4)}${indent(letDeclaration, 4)}`,
+      ),
+      "in",
+      text,
+    ].join("\n");
+    isAtomic = false;
+  }
+
+  // Parameters without an argument become a lambda
+  const missingParameters = parameters.slice(args.length);
+  if (missingParameters.length > 0) {
+    const lambdaParameters = missingParameters
+      .map((param) => param.text)
+      .join(" ");
+
+    text = text.includes("\n")
+      ? `\\${lambdaParameters} ->\n${indent(text, 4)}`
+      : `\\${lambdaParameters} -> ${text}`;
+    isAtomic = false;
+  }
+
+  // The body returns a function that the remaining arguments are applied to
+  const extraArgs = args.slice(parameters.length);
+  if (extraArgs.length > 0) {
+    text = `${isAtomic ? text : `(${text})`} ${extraArgs
+      .map((arg) => parenthesize(arg.text, arg))
+      .join(" ")}`;
+    isAtomic = false;
+  }
+
+  if (!isAtomic && needsParentheses(target.replacedNode)) {
+    text = `(${text})`;
+  }
+
+  return indent(text, target.replacedNode.startPosition.column);
+}
+
+/**
+ * References from the body of a definition in another module need to be visible where it is inlined
+ */
+function getQualifiedReferences(
+  target: IInlineTarget,
+  params: ICodeActionParams,
+  modulesToImport: Set<string>,
+): ITextReplacement[] {
+  const { declaration, definitionFile } = target;
+  const checker = params.program.getTypeChecker();
+  const imports = checker.getAllImports(params.sourceFile);
+  const body = declaration.childForFieldName("body");
+
+  return (body?.descendantsOfType(["value_qid", "upper_case_qid"]) ?? [])
+    .map((qid) => {
+      const nameNode = qid.lastNamedChild;
+      const symbol = nameNode
+        ? checker.findDefinition(nameNode, definitionFile).symbol
+        : undefined;
+
+      if (
+        !nameNode ||
+        !symbol ||
+        qid.parent?.type === "import_clause" ||
+        (symbol.node.tree.uri === definitionFile.uri &&
+          symbol.node.startIndex >= declaration.startIndex &&
+          symbol.node.endIndex <= declaration.endIndex)
+      ) {
+        return;
+      }
+
+      const moduleName = params.program.getSourceFile(symbol.node.tree.uri)
+        ?.moduleName;
+
+      if (!moduleName) {
+        return;
+      }
+
+      const name = nameNode.text;
+
+      if (moduleName === params.sourceFile.moduleName) {
+        return { node: qid, text: name };
+      }
+
+      const getImports = (importName: string): unknown[] =>
+        qid.type === "value_qid"
+          ? imports.getVar(importName, moduleName)
+          : qid.parent?.type === "type_ref"
+          ? imports.getType(importName, moduleName)
+          : imports.getConstructor(importName, moduleName);
+
+      if (getImports(name).length > 0) {
+        return { node: qid, text: name };
+      }
+
+      const importClause = TreeUtils.findImportClauseByName(
+        params.sourceFile.tree,
+        moduleName,
+      );
+      const moduleAlias = importClause
+        ? TreeUtils.findFirstNamedChildOfType("as_clause", importClause)
+            ?.lastNamedChild?.text
+        : undefined;
+      const qualifiedName = `${moduleAlias ?? moduleName}.${name}`;
+
+      if (!importClause && getImports(qualifiedName).length === 0) {
+        modulesToImport.add(moduleName);
+      }
+
+      return { node: qid, text: qualifiedName };
+    })
+    .filter((replacement): replacement is ITextReplacement => !!replacement);
+}
+
+/**
+ * Whether the body references a top level value, type or constructor that its module doesn't expose
+ */
+function usesUnexposedValues(
+  declaration: SyntaxNode,
+  definitionFile: ISourceFile,
+  program: IProgram,
+): boolean {
+  const checker = program.getTypeChecker();
+  const exposed = Array.from(definitionFile.exposing?.values() ?? []);
+  const body = declaration.childForFieldName("body");
+
+  return (body?.descendantsOfType(["value_qid", "upper_case_qid"]) ?? []).some(
+    (qid) => {
+      const nameNode = qid.lastNamedChild;
+      const symbol = nameNode
+        ? checker.findDefinition(nameNode, definitionFile).symbol
+        : undefined;
+
+      if (
+        !nameNode ||
+        !symbol ||
+        symbol.node.tree.uri !== definitionFile.uri ||
+        (symbol.node.startIndex >= declaration.startIndex &&
+          symbol.node.endIndex <= declaration.endIndex)
+      ) {
+        return false;
+      }
+
+      const isConstructor =
+        qid.type === "upper_case_qid" && qid.parent?.type !== "type_ref";
+
+      return isConstructor
+        ? !exposed.some((exposedSymbol) =>
+            exposedSymbol.constructors?.some(
+              (constructor) => constructor.name === nameNode.text,
+            ),
+          )
+        : !definitionFile.exposing?.has(nameNode.text);
+    },
+  );
+}
+
+/**
+ * The names bound by patterns and let declarations inside of the node
+ */
+function getBoundNames(node: SyntaxNode, sourceFile: ISourceFile): Set<string> {
+  const names = new Set<string>();
+  const treeCursor = node.walk();
+
+  const traverse = (): void => {
+    sourceFile.symbolLinks
+      ?.get(treeCursor.currentNode())
+      ?.forEach((_, name) => names.add(name));
+
+    if (treeCursor.gotoFirstChild()) {
+      do {
+        traverse();
+      } while (treeCursor.gotoNextSibling());
+
+      treeCursor.gotoParent();
+    }
+  };
+
+  traverse();
+  treeCursor.delete();
+
+  return names;
+}
+
+function getLowerCaseNames(node: SyntaxNode): Set<string> {
+  const names = new Set<string>();
+  const treeCursor = node.walk();
+
+  const traverse = (): void => {
+    if (treeCursor.nodeType === "lower_case_identifier") {
+      names.add(treeCursor.nodeText);
+    }
+
+    if (treeCursor.gotoFirstChild()) {
+      do {
+        traverse();
+      } while (treeCursor.gotoNextSibling());
+
+      treeCursor.gotoParent();
+    }
+  };
+
+  traverse();
+  treeCursor.delete();
+
+  return names;
+}
+
+function isReferenceTo(
+  valueExpr: SyntaxNode,
+  definitionNode: SyntaxNode,
+  sourceFile: ISourceFile,
+  program: IProgram,
+): boolean {
+  const nameNode = valueExpr.firstNamedChild?.lastNamedChild;
+  const symbol = nameNode
+    ? program.getTypeChecker().findDefinition(nameNode, sourceFile).symbol
+    : undefined;
+
+  return (
+    symbol?.node.tree.uri === definitionNode.tree.uri &&
+    symbol.node.startIndex === definitionNode.startIndex
+  );
+}
+
+function needsParentheses(node: SyntaxNode): boolean {
+  const parent = node.parent;
+
+  return (
+    parent?.type === "function_call_expr" ||
+    parent?.type === "bin_op_expr" ||
+    parent?.type === "field_access_expr" ||
+    parent?.type === "negate_expr"
+  );
+}
+
+function parenthesize(text: string, node: SyntaxNode): string {
+  return atomicExpressions.includes(node.type) ? text : `(${text})`;
+}
+
+function indent(text: string, column: number): string {
+  return reindent(text, 0, column);
+}
+
+function getRange(node: SyntaxNode): Range {
+  return Range.create(
+    PositionUtil.FROM_TS_POSITION(node.startPosition).toVSPosition(),
+    PositionUtil.FROM_TS_POSITION(node.endPosition).toVSPosition(),
+  );
+}
@@ -0,0 +1,112 @@
+import { container } from "tsyringe";
+import { CodeActionKind } from "vscode-languageserver";
+import { SyntaxNode } from "web-tree-sitter";
+import { CodeGenUtils } from "../../util/codeGenUtils";
+import { JsonToElm } from "../../util/jsonToElm";
+import { Settings } from "../../util/settings";
+import { TreeUtils } from "../../util/treeUtils";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const refactorName = "json_to_elm";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+      params.sourceFile.tree.rootNode,
+      params.range.start,
+    );
+
+    const json = getJsonString(nodeAtPosition);
+
+    // A string with a JSON sample can be used directly
+    if (json !== undefined && JsonToElm.isValidSample(json)) {
+      return [
+        {
+          title: "Generate types and decoder from JSON",
+          kind: CodeActionKind.RefactorRewrite,
+          data: {
+            actionName: "json_to_elm_string",
+            refactorName,
+            uri: params.sourceFile.uri,
+            range: params.range,
+          },
+        },
+      ];
+    }
+
+    // Otherwise the client asks for the JSON, between top level declarations
+    if (
+      container.resolve<Settings>("Settings").extendedCapabilities
+        ?.jsonToElmSupport &&
+      nodeAtPosition.type === "file"
+    ) {
+      return [
+        {
+          title: "Generate types and decoder from JSON",
+          command: {
+            title: "Refactor",
+            command: "elm.refactor",
+            arguments: [
+              "jsonToElm",
+              { textDocument: params.textDocument, range: params.range },
+            ],
+          },
+          kind: CodeActionKind.RefactorRewrite,
+          data: {
+            actionName: "json_to_elm",
+            refactorName,
+            uri: params.sourceFile.uri,
+            range: params.range,
+          },
+        },
+      ];
+    }
+
+    return [];
+  },
+  getEditsForAction: (
+    params: ICodeActionParams,
+    actionName: string,
+  ): IRefactorEdit => {
+    if (actionName !== "json_to_elm_string") {
+      return {};
+    }
+
+    const json = getJsonString(
+      TreeUtils.getNamedDescendantForPosition(
+        params.sourceFile.tree.rootNode,
+        params.range.start,
+      ),
+    );
+
+    if (json === undefined || !JsonToElm.isValidSample(json)) {
+      return {};
+    }
+
+    return {
+      edits: JsonToElm.getEdits(
+        json,
+        "Root",
+        params.sourceFile,
+        params.range.start,
+      ),
+    };
+  },
+});
+
+function getJsonString(node: SyntaxNode): string | undefined {
+  const stringNode =
+    node.type === "string_constant_expr"
+      ? node
+      : TreeUtils.findParentOfType("string_constant_expr", node);
+
+  if (!stringNode) {
+    return;
+  }
+
+  return CodeGenUtils.parseStringLiteral(stringNode.text);
+}
@@ -24,6 +24,36 @@ CodeActionProvider.registerRefactorAction(refactorName, {
       params.range.start,
     );
 
+    // Types use the same client command and move requests as functions
+    if (
+      (nodeAtPosition.parent?.type === "type_declaration" ||
+        nodeAtPosition.parent?.type === "type_alias_declaration") &&
+      nodeAtPosition.parent.parent?.type === "file" &&
+      nodeAtPosition.parent.childForFieldName("name")?.id === nodeAtPosition.id
+    ) {
+      return [
+        {
+          title: "Move Type",
+          command: {
+            title: "Refactor",
+            command: "elm.refactor",
+            arguments: [
+              "moveFunction",
+              { textDocument: params.textDocument, range: params.range },
+              nodeAtPosition.text,
+            ],
+          },
+          kind: CodeActionKind.RefactorRewrite,
+          data: {
+            actionName: "move_type",
+            refactorName,
+            uri: params.sourceFile.uri,
+            range: params.range,
+          },
+        },
+      ];
+    }
+
     if (
       (nodeAtPosition.parent?.type === "type_annotation" ||
         nodeAtPosition.parent?.type === "function_declaration_left") &&
@@ -0,0 +1,66 @@
+import { container } from "tsyringe";
+import { CodeActionKind, Connection } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { CommandManager } from "../../commandManager";
+import { ElmWorkspaceMatcher } from "../../util/elmWorkspaceMatcher";
+import { OrganizeImports } from "../../util/organizeImports";
+import { Settings } from "../../util/settings";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const refactorName = "organize_imports";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    return [
+      {
+        title: "Organize imports",
+        kind: CodeActionKind.SourceOrganizeImports,
+        data: {
+          actionName: "organize_imports",
+          refactorName,
+          uri: params.sourceFile.uri,
+          range: params.range,
+        },
+      },
+    ];
+  },
+  getEditsForAction: (params: ICodeActionParams): IRefactorEdit => {
+    return {
+      edits: OrganizeImports.getEdits(
+        params.program,
+        params.sourceFile,
+        container.resolve<Settings>("Settings").organizeImports
+          .expandExposingAll,
+      ),
+    };
+  },
+});
+
+CommandManager.register("elm.organizeImports", async (uri: string) => {
+  const settings = container.resolve<Settings>("Settings");
+  const connection = container.resolve<Connection>("Connection");
+
+  const program = new ElmWorkspaceMatcher((uri: string) =>
+    URI.parse(uri),
+  ).getProgramFor(uri);
+  const sourceFile = program.getSourceFile(uri);
+
+  if (!sourceFile) {
+    return;
+  }
+
+  const { organizeImports } = await settings.getClientSettings();
+  const edits = OrganizeImports.getEdits(
+    program,
+    sourceFile,
+    organizeImports.expandExposingAll,
+  );
+
+  if (edits.length > 0) {
+    await connection.workspace.applyEdit({ changes: { [uri]: edits } });
+  }
+});
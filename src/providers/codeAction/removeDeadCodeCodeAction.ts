@@ -0,0 +1,104 @@
+import { container } from "tsyringe";
+import { CodeAction, CodeActionKind, DeleteFile } from "vscode-languageserver";
+import { RefactorEditUtils } from "../../util/refactorEditUtils";
+import { Settings } from "../../util/settings";
+import { TreeUtils } from "../../util/treeUtils";
+import { CodeActionProvider } from "../codeActionProvider";
+import {
+  findSafeDeleteTarget,
+  findSafeDeleteUsages,
+  getSafeDeleteEdits,
+} from "../handlers/safeDeleteHandler";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const errorCodes = [
+  "unused_exposed",
+  "unused_exposed_constructor",
+  "unused_module",
+];
+const fixId = "remove_dead_code";
+
+CodeActionProvider.registerCodeAction({
+  errorCodes,
+  fixId,
+  getCodeActions: (params: ICodeActionParams): CodeAction[] | undefined => {
+    const target = findSafeDeleteTarget(
+      params.program,
+      params.sourceFile,
+      TreeUtils.getNamedDescendantForPosition(
+        params.sourceFile.tree.rootNode,
+        params.range.start,
+      ),
+    );
+
+    if (!target) {
+      return;
+    }
+
+    const codeActions: CodeAction[] = [];
+    const { symbol } = target;
+
+    if (symbol.type !== "Module" && symbol.type !== "UnionConstructor") {
+      const unexposeEdit = RefactorEditUtils.unexposedValueInModule(
+        params.sourceFile.tree,
+        symbol.name,
+      );
+
+      if (unexposeEdit) {
+        codeActions.push(
+          CodeActionProvider.getCodeAction(
+            params,
+            `Unexpose \`${symbol.name}\``,
+            [unexposeEdit],
+          ),
+        );
+      }
+    }
+
+    // Dead code can still be used by other dead code
+    const { references, usages } = findSafeDeleteUsages(
+      params.program,
+      params.sourceFile,
+      target,
+    );
+
+    if (usages.length > 0) {
+      return codeActions;
+    }
+
+    if (symbol.type === "Module") {
+      if (!container.resolve<Settings>("Settings").canDeleteFiles) {
+        return codeActions;
+      }
+
+      codeActions.push({
+        title: `Delete module \`${symbol.name}\``,
+        kind: CodeActionKind.QuickFix,
+        edit: { documentChanges: [DeleteFile.create(params.sourceFile.uri)] },
+      });
+    } else {
+      const changes = getSafeDeleteEdits(
+        params.program,
+        params.sourceFile,
+        target,
+        references,
+      );
+
+      if (changes) {
+        codeActions.push(
+          CodeActionProvider.getCodeAction(
+            params,
+            `Delete \`${symbol.name}\``,
+            changes,
+          ),
+        );
+      }
+    }
+
+    return codeActions;
+  },
+  getFixAllCodeAction: () => {
+    // The diagnostics are only known for the whole project
+    return undefined;
+  },
+});
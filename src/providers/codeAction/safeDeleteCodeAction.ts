@@ -0,0 +1,61 @@
+import { container } from "tsyringe";
+import { CodeActionKind } from "vscode-languageserver";
+import { Settings } from "../../util/settings";
+import { TreeUtils } from "../../util/treeUtils";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { findSafeDeleteTarget } from "../handlers/safeDeleteHandler";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const refactorName = "safe_delete";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    if (
+      !container.resolve<Settings>("Settings").extendedCapabilities
+        ?.safeDeleteSupport
+    ) {
+      return [];
+    }
+
+    const target = findSafeDeleteTarget(
+      params.program,
+      params.sourceFile,
+      TreeUtils.getNamedDescendantForPosition(
+        params.sourceFile.tree.rootNode,
+        params.range.start,
+      ),
+    );
+
+    if (target) {
+      return [
+        {
+          title: `Safe delete \`${target.symbol.name}\``,
+          command: {
+            title: "Refactor",
+            command: "elm.refactor",
+            arguments: [
+              "safeDelete",
+              { textDocument: params.textDocument, range: params.range },
+              target.symbol.name,
+            ],
+          },
+          kind: CodeActionKind.RefactorRewrite,
+          data: {
+            actionName: "safe_delete",
+            refactorName,
+            uri: params.sourceFile.uri,
+            range: params.range,
+          },
+        },
+      ];
+    }
+
+    return [];
+  },
+  getEditsForAction: (): IRefactorEdit => {
+    return {};
+  },
+});
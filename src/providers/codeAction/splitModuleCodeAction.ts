@@ -0,0 +1,62 @@
+import { container } from "tsyringe";
+import { CodeActionKind } from "vscode-languageserver";
+import { Settings } from "../../util/settings";
+import {
+  CodeActionProvider,
+  IRefactorCodeAction,
+  IRefactorEdit,
+} from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const refactorName = "split_module";
+CodeActionProvider.registerRefactorAction(refactorName, {
+  getAvailableActions: (params: ICodeActionParams): IRefactorCodeAction[] => {
+    if (
+      !container.resolve<Settings>("Settings").extendedCapabilities
+        ?.splitModuleRefactoringSupport
+    ) {
+      return [];
+    }
+
+    const { start, end } = params.range;
+    const hasSelectedDeclaration = params.sourceFile.tree.rootNode.namedChildren.some(
+      (node) =>
+        (node.type === "value_declaration" ||
+          node.type === "type_declaration" ||
+          node.type === "type_alias_declaration") &&
+        node.startPosition.row <= end.line &&
+        node.endPosition.row >= start.line,
+    );
+
+    if (
+      (start.line !== end.line || start.character !== end.character) &&
+      hasSelectedDeclaration
+    ) {
+      return [
+        {
+          title: "Move to new module",
+          command: {
+            title: "Refactor",
+            command: "elm.refactor",
+            arguments: [
+              "splitModule",
+              { textDocument: params.textDocument, range: params.range },
+            ],
+          },
+          kind: CodeActionKind.RefactorRewrite,
+          data: {
+            actionName: "split_module",
+            refactorName,
+            uri: params.sourceFile.uri,
+            range: params.range,
+          },
+        },
+      ];
+    }
+
+    return [];
+  },
+  getEditsForAction: (): IRefactorEdit => {
+    return {};
+  },
+});
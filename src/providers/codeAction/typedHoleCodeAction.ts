@@ -0,0 +1,55 @@
+import { CodeAction, Range, TextEdit } from "vscode-languageserver";
+import { Diagnostics } from "../../compiler/diagnostics";
+import { TypedHoles } from "../../compiler/typedHoles";
+import { PositionUtil } from "../../positionUtil";
+import { TreeUtils } from "../../util/treeUtils";
+import { CodeActionProvider } from "../codeActionProvider";
+import { ICodeActionParams } from "../paramsExtensions";
+
+const errorCodes = [Diagnostics.TypedHole.code];
+const fixId = "fill_typed_hole";
+
+CodeActionProvider.registerCodeAction({
+  errorCodes,
+  fixId,
+  getCodeActions: (params: ICodeActionParams): CodeAction[] => {
+    const nodeAtPosition = TreeUtils.getNamedDescendantForRange(
+      params.sourceFile,
+      params.range,
+    );
+
+    const hole = TypedHoles.findHole(
+      nodeAtPosition,
+      params.sourceFile,
+      params.program,
+    );
+
+    if (!hole) {
+      return [];
+    }
+
+    const range = Range.create(
+      PositionUtil.FROM_TS_POSITION(hole.startPosition).toVSPosition(),
+      PositionUtil.FROM_TS_POSITION(hole.endPosition).toVSPosition(),
+    );
+
+    return TypedHoles.findFits(hole, params.sourceFile, params.program).map(
+      (fit, i) => {
+        const text = TypedHoles.getFitText(hole, fit);
+
+        return {
+          ...CodeActionProvider.getCodeAction(
+            params,
+            `Replace hole with \`${text}\``,
+            [TextEdit.replace(range, text)],
+          ),
+          isPreferred: i === 0,
+        };
+      },
+    );
+  },
+  // Every hole needs its own fit, so there is nothing to fix all at once
+  getFixAllCodeAction: (): CodeAction | undefined => {
+    return undefined;
+  },
+});
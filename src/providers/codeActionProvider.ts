@@ -25,11 +25,16 @@ import {
   DiagnosticsProvider,
   IDiagnostic,
 } from "./diagnostics/diagnosticsProvider";
+import { ElmJsonDiagnostics } from "./diagnostics/elmJsonDiagnostics";
 import { ElmLsDiagnostics } from "./diagnostics/elmLsDiagnostics";
 import { ElmMakeDiagnostics } from "./diagnostics/elmMakeDiagnostics";
 import { diagnosticsEquals } from "./diagnostics/fileDiagnostics";
 import { ExposeUnexposeHandler } from "./handlers/exposeUnexposeHandler";
 import { MoveRefactoringHandler } from "./handlers/moveRefactoringHandler";
+import { SafeDeleteHandler } from "./handlers/safeDeleteHandler";
+import { ChangeSignatureHandler } from "./handlers/changeSignatureHandler";
+import { JsonToElmHandler } from "./handlers/jsonToElmHandler";
+import { HtmlToElmHandler } from "./handlers/htmlToElmHandler";
 import { ICodeActionParams } from "./paramsExtensions";
 import { ElmPackageCache } from "../compiler/elmPackageCache";
 
@@ -52,6 +57,8 @@ export interface IRefactorCodeAction extends CodeAction {
 
 export interface IRefactorEdit {
   edits?: TextEdit[];
+  // Edits for other files, together with the edits of the current file
+  changes?: { [uri: string]: TextEdit[] };
   renamePosition?: Position;
 }
 export interface IRefactorRegistration {
@@ -67,6 +74,7 @@ export class CodeActionProvider {
   private settings: Settings;
   private elmMake: ElmMakeDiagnostics;
   private elmDiagnostics: ElmLsDiagnostics;
+  private elmJsonDiagnostics: ElmJsonDiagnostics;
   private diagnosticsProvider: DiagnosticsProvider;
 
   private static errorCodeToRegistrationMap = new MultiMap<
@@ -82,16 +90,21 @@ export class CodeActionProvider {
     this.settings = container.resolve("Settings");
     this.elmMake = container.resolve(ElmMakeDiagnostics);
     this.elmDiagnostics = container.resolve(ElmLsDiagnostics);
+    this.elmJsonDiagnostics = container.resolve(ElmJsonDiagnostics);
     this.connection = container.resolve<Connection>("Connection");
     this.diagnosticsProvider = container.resolve(DiagnosticsProvider);
 
     this.onCodeAction = this.onCodeAction.bind(this);
-    this.connection.onCodeAction(
-      this.diagnosticsProvider.interruptDiagnostics(() =>
-        new ElmWorkspaceMatcher((param: CodeActionParams) =>
-          URI.parse(param.textDocument.uri),
-        ).handle(this.onCodeAction.bind(this)),
-      ),
+    const onElmCodeAction = this.diagnosticsProvider.interruptDiagnostics(() =>
+      new ElmWorkspaceMatcher((param: CodeActionParams) =>
+        URI.parse(param.textDocument.uri),
+      ).handle(this.onCodeAction.bind(this)),
+    );
+    this.connection.onCodeAction((params, token) =>
+      // elm.json is not part of a source directory
+      params.textDocument.uri.endsWith("elm.json")
+        ? this.elmJsonDiagnostics.onCodeAction(params)
+        : onElmCodeAction(params, token),
     );
 
     this.connection.onRequest(
@@ -103,10 +116,29 @@ export class CodeActionProvider {
       ),
     );
 
-    if (this.settings.extendedCapabilities?.moveFunctionRefactoringSupport) {
+    if (
+      this.settings.extendedCapabilities?.moveFunctionRefactoringSupport ||
+      this.settings.extendedCapabilities?.splitModuleRefactoringSupport
+    ) {
       new MoveRefactoringHandler();
     }
 
+    if (this.settings.extendedCapabilities?.changeSignatureRefactoringSupport) {
+      new ChangeSignatureHandler();
+    }
+
+    if (this.settings.extendedCapabilities?.jsonToElmSupport) {
+      new JsonToElmHandler();
+    }
+
+    if (this.settings.extendedCapabilities?.htmlToElmSupport) {
+      new HtmlToElmHandler();
+    }
+
+    if (this.settings.extendedCapabilities?.safeDeleteSupport) {
+      new SafeDeleteHandler();
+    }
+
     new ExposeUnexposeHandler();
 
     setTimeout(() => {
@@ -277,7 +309,7 @@ export class CodeActionProvider {
     return [...results, ...make, ...elmDiagnostics];
   }
 
-  private onCodeActionResolve(
+  protected onCodeActionResolve(
     codeAction: IRefactorCodeAction,
     program: IProgram,
     sourceFile: ISourceFile,
@@ -297,7 +329,9 @@ export class CodeActionProvider {
         codeAction.data.actionName,
       );
 
-    if (result?.edits) {
+    if (result?.changes) {
+      codeAction.edit = { changes: result.changes };
+    } else if (result?.edits) {
       codeAction.edit = { changes: { [codeAction.data.uri]: result.edits } };
     }
 
@@ -16,6 +16,7 @@ import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
 import { References } from "../compiler/references";
 import { Settings } from "../util/settings";
 import { TreeUtils } from "../util/treeUtils";
+import { ElmJsonDependencies } from "./elmJsonDependencies";
 import { ICodeLensParams } from "./paramsExtensions";
 
 type CodeLensResult = CodeLens[] | null | undefined;
@@ -41,19 +42,30 @@ interface IExposedCodeLens extends CodeLens {
 export class CodeLensProvider {
   private readonly connection: Connection;
   private readonly settings: Settings;
+  private readonly elmJsonDependencies: ElmJsonDependencies;
 
   constructor() {
     this.connection = container.resolve<Connection>("Connection");
     this.settings = container.resolve<Settings>("Settings");
-    this.connection.onCodeLens(
-      new ElmWorkspaceMatcher((param: CodeLensParams) =>
-        URI.parse(param.textDocument.uri),
-      ).handle(this.handleCodeLensRequest),
+    this.elmJsonDependencies = container.resolve(ElmJsonDependencies);
+    const onElmCodeLens = new ElmWorkspaceMatcher((param: CodeLensParams) =>
+      URI.parse(param.textDocument.uri),
+    ).handle(this.handleCodeLensRequest);
+    this.connection.onCodeLens((params) =>
+      // elm.json is not part of a source directory
+      params.textDocument.uri.endsWith("elm.json")
+        ? this.elmJsonDependencies.onCodeLens(params)
+        : onElmCodeLens(params),
     );
     this.connection.onCodeLensResolve((params) =>
-      new ElmWorkspaceMatcher((param: ICodeLens) =>
-        URI.parse(param.data.uri),
-      ).handleResolve(this.handleCodeLensResolveRequest)(params as ICodeLens),
+      // The elm.json code lenses are created with their command
+      params.command
+        ? params
+        : new ElmWorkspaceMatcher((param: ICodeLens) =>
+            URI.parse(param.data.uri),
+          ).handleResolve(this.handleCodeLensResolveRequest)(
+            params as ICodeLens,
+          ),
     );
   }
 
@@ -22,11 +22,19 @@ import { HintHelper } from "../util/hintHelper";
 import { ImportUtils, IPossibleImport } from "../util/importUtils";
 import { RefactorEditUtils } from "../util/refactorEditUtils";
 import { TreeUtils } from "../util/treeUtils";
+import { Utils } from "../util/utils";
 import RANKING_LIST from "./ranking";
 import { DiagnosticsProvider } from ".";
 import { TypeChecker } from "../compiler/typeChecker";
 import escapeStringRegexp from "escape-string-regexp";
-import { TRecord } from "../compiler/typeInference";
+import {
+  curryFunction,
+  InferenceScope,
+  TFunction,
+  TRecord,
+  TVar,
+  Type,
+} from "../compiler/typeInference";
 import { ICompletionParams } from "./paramsExtensions";
 
 export type CompletionResult =
@@ -44,8 +52,13 @@ interface ICompletionOptions {
   detail?: string;
   additionalTextEdits?: TextEdit[];
   filterText?: string;
+  typeRank?: string;
 }
 
+type TypeRanker = (node: SyntaxNode | null | undefined) => string;
+
+const maxTypeRankedImports = 200;
+
 export class CompletionProvider {
   private qidRegex = /[_\d\p{L}.]+/u;
   private connection: Connection;
@@ -373,11 +386,29 @@ export class CompletionProvider {
         );
       }
 
+      const expectedType = this.findExpectedType(
+        checker,
+        sourceFile,
+        params.position,
+      );
+      const getTypeRank: TypeRanker = (node) =>
+        this.getTypeRank(node, expectedType, params.program, sourceFile);
+
       completions.push(
-        ...this.getSameFileTopLevelCompletions(tree, replaceRange),
+        ...this.getSameFileTopLevelCompletions(
+          tree,
+          replaceRange,
+          false,
+          getTypeRank,
+        ),
       );
       completions.push(
-        ...this.findDefinitionsForScope(nodeAtPosition, tree, replaceRange),
+        ...this.findDefinitionsForScope(
+          nodeAtPosition,
+          tree,
+          replaceRange,
+          getTypeRank,
+        ),
       );
 
       completions.push(
@@ -386,6 +417,7 @@ export class CompletionProvider {
           sourceFile,
           replaceRange,
           targetWord,
+          getTypeRank,
         ),
       );
 
@@ -398,6 +430,7 @@ export class CompletionProvider {
         tree,
         params.textDocument.uri,
         nodeAtPosition.text,
+        getTypeRank,
       );
 
       completions.push(...possibleImportCompletions.list);
@@ -535,6 +568,7 @@ export class CompletionProvider {
     sourceFile: ISourceFile,
     range: Range,
     inputText: string,
+    getTypeRank: TypeRanker = (): string => "",
   ): CompletionItem[] {
     const completions: CompletionItem[] = [];
 
@@ -586,6 +620,7 @@ export class CompletionProvider {
               range,
               sortPrefix,
               filterText,
+              typeRank: getTypeRank(element.node),
             }),
           );
           break;
@@ -596,6 +631,7 @@ export class CompletionProvider {
               range,
               sortPrefix,
               filterText,
+              typeRank: getTypeRank(element.node),
             }),
           );
           break;
@@ -653,6 +689,7 @@ export class CompletionProvider {
     tree: Tree,
     range: Range,
     moduleDefinition = false,
+    getTypeRank: TypeRanker = (): string => "",
   ): CompletionItem[] {
     const completions: CompletionItem[] = [];
     const topLevelFunctions = TreeUtils.findAllTopLevelFunctionDeclarations(
@@ -676,6 +713,7 @@ export class CompletionProvider {
             label: declaration.firstNamedChild!.firstNamedChild!.text,
             range,
             sortPrefix,
+            typeRank: getTypeRank(declaration.firstNamedChild),
           }),
         );
       }
@@ -725,6 +763,7 @@ export class CompletionProvider {
                 label: unionVariantName.text,
                 range,
                 sortPrefix,
+                typeRank: getTypeRank(unionVariant),
               }),
             );
           }
@@ -940,7 +979,9 @@ export class CompletionProvider {
         : undefined,
       kind: options.kind,
       label: options.label,
-      sortText: `${options.sortPrefix}_${options.label}`,
+      sortText: `${options.typeRank ?? ""}${options.sortPrefix}_${
+        options.label
+      }`,
       textEdit: TextEdit.replace(options.range, options.label),
       detail: options.detail,
       additionalTextEdits: options.additionalTextEdits,
@@ -972,6 +1013,7 @@ export class CompletionProvider {
     node: SyntaxNode,
     tree: Tree,
     range: Range,
+    getTypeRank: TypeRanker = (): string => "",
   ): CompletionItem[] {
     const result: CompletionItem[] = [];
     const sortPrefix = "a";
@@ -994,6 +1036,7 @@ export class CompletionProvider {
                 label: nodeToProcess.firstNamedChild.firstNamedChild.text,
                 range,
                 sortPrefix,
+                typeRank: getTypeRank(nodeToProcess.firstNamedChild),
               }),
             );
           }
@@ -1015,6 +1058,7 @@ export class CompletionProvider {
                   label: a.text,
                   range,
                   sortPrefix,
+                  typeRank: getTypeRank(a),
                 }),
               );
             });
@@ -1037,6 +1081,7 @@ export class CompletionProvider {
                 label: child.text,
                 range,
                 sortPrefix,
+                typeRank: getTypeRank(child),
               }),
             );
 
@@ -1073,7 +1118,9 @@ export class CompletionProvider {
           }
         });
       }
-      result.push(...this.findDefinitionsForScope(node.parent, tree, range));
+      result.push(
+        ...this.findDefinitionsForScope(node.parent, tree, range, getTypeRank),
+      );
     }
 
     return result;
@@ -1163,6 +1210,7 @@ export class CompletionProvider {
     tree: Tree,
     uri: string,
     filterText: string,
+    getTypeRank: TypeRanker = (): string => "",
   ): { list: CompletionItem[]; isIncomplete: boolean } {
     const result: CompletionItem[] = [];
     const possibleImports = this.getPossibleImportsFiltered(
@@ -1173,7 +1221,16 @@ export class CompletionProvider {
 
     const isIncomplete = possibleImports.length > 50;
 
-    possibleImports.splice(0, 49).forEach((possibleImport, i) => {
+    // Inferring the types is slow, so only the best text matches are ranked by their type
+    const rankedImports = possibleImports
+      .slice(0, maxTypeRankedImports)
+      .map((possibleImport) => ({
+        possibleImport,
+        typeRank: getTypeRank(possibleImport.node),
+      }))
+      .sort((a, b) => a.typeRank.localeCompare(b.typeRank));
+
+    rankedImports.slice(0, 49).forEach(({ possibleImport, typeRank }, i) => {
       const markdownDocumentation = HintHelper.createHint(possibleImport.node);
       const detail = `Auto import from module '${possibleImport.module}'`;
       const importTextEdit = RefactorEditUtils.addImport(
@@ -1191,6 +1248,7 @@ export class CompletionProvider {
         sortPrefix: `f${sortText}`,
         detail,
         additionalTextEdits: importTextEdit ? [importTextEdit] : undefined,
+        typeRank,
       };
       if (possibleImport.type === "Function") {
         result.push(this.createFunctionCompletion(completionOptions));
@@ -1206,6 +1264,7 @@ export class CompletionProvider {
             sortPrefix: `f${i}`,
             detail,
             additionalTextEdits: importTextEdit ? [importTextEdit] : undefined,
+            typeRank,
           }),
         );
       }
@@ -1214,6 +1273,318 @@ export class CompletionProvider {
     return { list: result, isIncomplete };
   }
 
+  /**
+   * Find the type expected at the cursor, based on the function argument,
+   * pipeline, record field or if branch the cursor is in
+   */
+  private findExpectedType(
+    checker: TypeChecker,
+    sourceFile: ISourceFile,
+    position: Position,
+  ): Type | undefined {
+    const previousNode = TreeUtils.findPreviousNode(
+      sourceFile.tree.rootNode,
+      position,
+    );
+
+    if (!previousNode) {
+      return;
+    }
+
+    let expectedType: Type | undefined;
+
+    if (
+      comparePosition(position, previousNode.endPosition) <= 0 &&
+      (TreeUtils.isIdentifier(previousNode) ||
+        previousNode.parent?.type === "unit_expr")
+    ) {
+      // We are typing an expression (or are inside `()`), find what its surroundings expect
+      let expression = previousNode;
+      while (
+        expression.parent &&
+        ["value_qid", "upper_case_qid", "value_expr", "unit_expr"].includes(
+          expression.parent.type,
+        )
+      ) {
+        expression = expression.parent;
+      }
+
+      expectedType = this.findExpectedTypeOfExpression(
+        expression,
+        checker,
+        sourceFile,
+      );
+    } else {
+      const application = TreeUtils.findFunctionApplication(
+        previousNode,
+        position,
+      );
+
+      if (application) {
+        const index = application.args.filter(
+          (arg) => comparePosition(position, arg.endPosition) > 0,
+        ).length;
+
+        expectedType = this.findParameterType(
+          application.target,
+          index,
+          checker,
+          sourceFile,
+        );
+
+        // When piped, the last parameter is already filled by the piped value
+        const functionType = checker.findType(application.target);
+        if (
+          application.isPiped &&
+          functionType.nodeType === "Function" &&
+          index >= functionType.params.length - 1
+        ) {
+          expectedType = undefined;
+        }
+      }
+    }
+
+    // Anything fits an unknown type or a type variable, so they can't be used for ranking
+    if (
+      expectedType?.nodeType === "Unknown" ||
+      expectedType?.nodeType === "Var"
+    ) {
+      return;
+    }
+
+    return expectedType;
+  }
+
+  private findExpectedTypeOfExpression(
+    expression: SyntaxNode,
+    checker: TypeChecker,
+    sourceFile: ISourceFile,
+  ): Type | undefined {
+    const parent = expression.parent;
+
+    if (!parent) {
+      return;
+    }
+
+    const isExpression = (node: SyntaxNode | null | undefined): boolean =>
+      node?.startIndex === expression.startIndex &&
+      node.endIndex === expression.endIndex;
+
+    switch (parent.type) {
+      case "parenthesized_expr":
+        return this.findExpectedTypeOfExpression(parent, checker, sourceFile);
+
+      case "function_call_expr": {
+        const target = parent.childForFieldName("target");
+
+        if (!target || isExpression(target)) {
+          return;
+        }
+
+        const index = parent.namedChildren
+          .slice(1)
+          .filter((arg) => !arg.type.includes("comment"))
+          .findIndex(isExpression);
+
+        return this.findParameterType(target, index, checker, sourceFile);
+      }
+
+      case "bin_op_expr": {
+        const operator = expression.previousNamedSibling;
+        const operand = operator?.previousNamedSibling;
+
+        if (operator?.type !== "operator" || !operand) {
+          return;
+        }
+
+        const operandType = checker.findType(operand);
+
+        if (operator.text === "|>") {
+          // In a chain of pipes, the piped value is the result of the previous function
+          const isChained =
+            operand.previousNamedSibling?.type === "operator" &&
+            operand.previousNamedSibling.text === "|>";
+          const pipedType = isChained
+            ? operandType.nodeType === "Function"
+              ? curryFunction(operandType, 1)
+              : undefined
+            : operandType;
+
+          return pipedType && pipedType.nodeType !== "Unknown"
+            ? TFunction([pipedType], TVar("a"))
+            : undefined;
+        } else if (operator.text === "<|") {
+          return operandType.nodeType === "Function"
+            ? operandType.params[0]
+            : undefined;
+        }
+
+        return;
+      }
+
+      case "field": {
+        const fieldName = parent.childForFieldName("name")?.text;
+        const record = parent.parent;
+
+        if (
+          !fieldName ||
+          record?.type !== "record_expr" ||
+          !isExpression(parent.childForFieldName("expression"))
+        ) {
+          return;
+        }
+
+        // A record update has the type of the base record
+        const recordType = record.childForFieldName("baseRecord")
+          ? checker.findType(record)
+          : this.findExpectedTypeOfExpression(record, checker, sourceFile);
+
+        return recordType?.nodeType === "Record"
+          ? recordType.fields[fieldName]
+          : undefined;
+      }
+
+      case "if_else_expr": {
+        const exprList = parent.namedChildren.filter(
+          (child) => !child.type.includes("comment"),
+        );
+        const index = exprList.findIndex(isExpression);
+
+        // Conditions are at the even indexes, except for the final else branch
+        const isBranch = (i: number): boolean =>
+          i % 2 === 1 || i === exprList.length - 1;
+
+        if (!isBranch(index)) {
+          return;
+        }
+
+        const otherBranchType = exprList
+          .filter((expr, i) => isBranch(i) && i !== index)
+          .map((expr) => checker.findType(expr))
+          .find((type) => type.nodeType !== "Unknown");
+
+        return (
+          otherBranchType ??
+          this.findExpectedTypeOfExpression(parent, checker, sourceFile)
+        );
+      }
+
+      case "case_of_branch": {
+        const caseOfExpr = parent.parent;
+
+        if (!caseOfExpr || !isExpression(parent.childForFieldName("expr"))) {
+          return;
+        }
+
+        const otherBranchType = caseOfExpr.namedChildren
+          .filter(
+            (branch) =>
+              branch.type === "case_of_branch" &&
+              branch.startIndex !== parent.startIndex,
+          )
+          .map((branch) => branch.childForFieldName("expr"))
+          .filter(Utils.notUndefinedOrNull.bind(this))
+          .map((expr) => checker.findType(expr))
+          .find((type) => type.nodeType !== "Unknown");
+
+        return (
+          otherBranchType ??
+          this.findExpectedTypeOfExpression(caseOfExpr, checker, sourceFile)
+        );
+      }
+
+      case "let_in_expr":
+        return isExpression(parent.childForFieldName("body"))
+          ? this.findExpectedTypeOfExpression(parent, checker, sourceFile)
+          : undefined;
+
+      case "value_declaration": {
+        const functionDeclarationLeft = parent.childForFieldName(
+          "functionDeclarationLeft",
+        );
+
+        // Without an annotation, the type of the declaration comes from the body itself
+        if (
+          !functionDeclarationLeft ||
+          !TreeUtils.getTypeAnnotation(parent) ||
+          !isExpression(parent.childForFieldName("body"))
+        ) {
+          return;
+        }
+
+        const declarationType = checker.findType(functionDeclarationLeft);
+        const paramCount = functionDeclarationLeft.namedChildren.length - 1;
+
+        return declarationType.nodeType === "Function" && paramCount > 0
+          ? curryFunction(declarationType, paramCount)
+          : declarationType;
+      }
+    }
+  }
+
+  private findParameterType(
+    target: SyntaxNode,
+    index: number,
+    checker: TypeChecker,
+    sourceFile: ISourceFile,
+  ): Type | undefined {
+    let functionType = checker.findType(target);
+
+    if (functionType.nodeType !== "Function") {
+      const functionName =
+        target.type === "value_expr"
+          ? target.firstNamedChild?.lastNamedChild
+          : undefined;
+      const definition = functionName
+        ? checker.findDefinition(functionName, sourceFile).symbol
+        : undefined;
+
+      if (!definition) {
+        return;
+      }
+
+      functionType = checker.findType(definition.node);
+    }
+
+    return functionType.nodeType === "Function" && index >= 0
+      ? functionType.params[index]
+      : undefined;
+  }
+
+  /**
+   * Rank a candidate by its type, values of the expected type come first,
+   * then functions that return it once applied. The other sort prefixes become a tiebreaker.
+   */
+  private getTypeRank(
+    node: SyntaxNode | null | undefined,
+    expectedType: Type | undefined,
+    program: IProgram,
+    sourceFile: ISourceFile,
+  ): string {
+    if (!expectedType) {
+      return "";
+    }
+
+    if (!node) {
+      return "2";
+    }
+
+    const argumentCount = InferenceScope.argumentsToFit(
+      program.getTypeChecker().findType(node),
+      expectedType,
+      sourceFile.uri,
+      program,
+    );
+
+    if (argumentCount === 0) {
+      return "0";
+    } else if (argumentCount !== undefined) {
+      return "1";
+    }
+
+    return "2";
+  }
+
   private getSubmodulesOrValues(
     node: SyntaxNode,
     sourceFile: ISourceFile,
@@ -0,0 +1,317 @@
+import {
+  DiagnosticSeverity,
+  DiagnosticTag,
+  Range,
+} from "vscode-languageserver";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISourceFile } from "../../compiler/forest";
+import { IProgram } from "../../compiler/program";
+import { PositionUtil } from "../../positionUtil";
+import { TreeUtils } from "../../util/treeUtils";
+import { IDiagnostic } from "./diagnosticsProvider";
+
+interface ITopLevelDeclaration {
+  name: string;
+  kind:
+    | "function"
+    | "type"
+    | "type alias"
+    | "value constructor"
+    | "port"
+    | "operator";
+  node: SyntaxNode;
+  nameNode: SyntaxNode;
+  sourceFile: ISourceFile;
+  // The type declaration of a value constructor
+  typeNode?: SyntaxNode;
+}
+
+export class DeadCodeDiagnostics {
+  /**
+   * Report the exposed functions, types, constructors and whole modules of the
+   * project that can't be reached from `main`, ports, tests or the exposed modules of a package
+   */
+  public createDiagnostics(program: IProgram): Map<string, IDiagnostic[]> {
+    const result = new Map<string, IDiagnostic[]>();
+
+    // Creating the type checker binds the source files
+    const checker = program.getTypeChecker();
+    const sourceFiles = Array.from(program.getForest().treeMap.values()).filter(
+      (sourceFile) => sourceFile.writeable,
+    );
+
+    const declarations = new Map<string, ITopLevelDeclaration>();
+    const roots: ITopLevelDeclaration[] = [];
+
+    sourceFiles.forEach((sourceFile) => {
+      const project = sourceFile.project;
+      const isExposedModule =
+        project.type === "package" &&
+        !!sourceFile.moduleName &&
+        project.exposedModules.has(sourceFile.moduleName);
+
+      getTopLevelDeclarations(sourceFile).forEach((declaration) => {
+        declarations.set(getKey(declaration.node), declaration);
+
+        if (
+          sourceFile.isTestFile ||
+          declaration.kind === "port" ||
+          declaration.kind === "operator" ||
+          (declaration.kind === "function" && declaration.name === "main") ||
+          (isExposedModule && isExposed(declaration))
+        ) {
+          roots.push(declaration);
+        }
+      });
+    });
+
+    // Without an entry point everything would be reported
+    if (roots.length === 0) {
+      sourceFiles.forEach((sourceFile) => result.set(sourceFile.uri, []));
+      return result;
+    }
+
+    const findDeclaration = (
+      node: SyntaxNode | undefined,
+    ): ITopLevelDeclaration | undefined =>
+      node &&
+      (declarations.get(getKey(node)) ??
+        (node.parent ? declarations.get(getKey(node.parent)) : undefined));
+
+    const reachable = new Set<string>();
+    const queue = [...roots];
+
+    while (queue.length > 0) {
+      const declaration = queue.pop();
+
+      if (!declaration || reachable.has(getKey(declaration.node))) {
+        continue;
+      }
+
+      reachable.add(getKey(declaration.node));
+
+      const dependencies = declaration.typeNode
+        ? [findDeclaration(declaration.typeNode)]
+        : [declaration.node, TreeUtils.getTypeAnnotation(declaration.node)]
+            .flatMap((node) => (node ? getReferenceNodes(node) : []))
+            .map((node) =>
+              findDeclaration(
+                checker.findDefinition(node, declaration.sourceFile).symbol
+                  ?.node,
+              ),
+            );
+
+      dependencies.forEach((dependency) => {
+        if (dependency && !reachable.has(getKey(dependency.node))) {
+          queue.push(dependency);
+        }
+      });
+    }
+
+    sourceFiles.forEach((sourceFile) => {
+      if (sourceFile.isTestFile) {
+        return;
+      }
+
+      const diagnostics: IDiagnostic[] = [];
+      const fileDeclarations = Array.from(declarations.values()).filter(
+        (declaration) => declaration.sourceFile === sourceFile,
+      );
+      const isReachable = (node: SyntaxNode): boolean =>
+        reachable.has(getKey(node));
+
+      const moduleNameNode = TreeUtils.getModuleNameNode(sourceFile.tree);
+
+      if (
+        moduleNameNode &&
+        fileDeclarations.length > 0 &&
+        !fileDeclarations.some((declaration) => isReachable(declaration.node))
+      ) {
+        diagnostics.push({
+          range: getNodeRange(moduleNameNode),
+          message: `Module \`${moduleNameNode.text}\` is not used in the project.`,
+          severity: DiagnosticSeverity.Warning,
+          source: "ElmLS",
+          tags: [DiagnosticTag.Unnecessary],
+          data: { uri: sourceFile.uri, code: "unused_module" },
+        });
+      } else {
+        fileDeclarations.forEach((declaration) => {
+          if (
+            isReachable(declaration.node) ||
+            !isExposed(declaration) ||
+            (declaration.typeNode && !isReachable(declaration.typeNode))
+          ) {
+            return;
+          }
+
+          diagnostics.push({
+            range: getNodeRange(declaration.nameNode),
+            message: `Exposed ${declaration.kind} \`${declaration.name}\` is not used in the project.`,
+            severity: DiagnosticSeverity.Warning,
+            source: "ElmLS",
+            tags: [DiagnosticTag.Unnecessary],
+            data: {
+              uri: sourceFile.uri,
+              code: declaration.typeNode
+                ? "unused_exposed_constructor"
+                : "unused_exposed",
+            },
+          });
+        });
+      }
+
+      result.set(sourceFile.uri, diagnostics);
+    });
+
+    return result;
+  }
+}
+
+function getKey(node: SyntaxNode): string {
+  return `${node.tree.uri}:${node.id}`;
+}
+
+function getTopLevelDeclarations(
+  sourceFile: ISourceFile,
+): ITopLevelDeclaration[] {
+  const declarations: ITopLevelDeclaration[] = [];
+
+  sourceFile.symbolLinks
+    ?.get(sourceFile.tree.rootNode)
+    ?.forEach(({ name, node, type }) => {
+      switch (type) {
+        case "Function":
+          if (node.parent && node.firstNamedChild) {
+            declarations.push({
+              name,
+              kind: "function",
+              node: node.parent,
+              nameNode: node.firstNamedChild,
+              sourceFile,
+            });
+          }
+          break;
+
+        case "Type":
+        case "TypeAlias":
+        case "UnionConstructor": {
+          const nameNode = node.childForFieldName("name");
+
+          if (nameNode) {
+            declarations.push({
+              name,
+              kind:
+                type === "Type"
+                  ? "type"
+                  : type === "TypeAlias"
+                  ? "type alias"
+                  : "value constructor",
+              node,
+              nameNode,
+              sourceFile,
+              typeNode:
+                type === "UnionConstructor"
+                  ? node.parent ?? undefined
+                  : undefined,
+            });
+          }
+          break;
+        }
+
+        case "Port": {
+          const nameNode = TreeUtils.findFirstNamedChildOfType(
+            "lower_case_identifier",
+            node,
+          );
+
+          if (nameNode) {
+            declarations.push({
+              name,
+              kind: "port",
+              node,
+              nameNode,
+              sourceFile,
+            });
+          }
+          break;
+        }
+
+        case "Operator": {
+          const nameNode = node.childForFieldName("operator");
+
+          if (nameNode) {
+            declarations.push({
+              name: nameNode.text,
+              kind: "operator",
+              node,
+              nameNode,
+              sourceFile,
+            });
+          }
+          break;
+        }
+      }
+    });
+
+  return declarations;
+}
+
+function isExposed(declaration: ITopLevelDeclaration): boolean {
+  const exposing = declaration.sourceFile.exposing;
+  const typeName = declaration.typeNode?.childForFieldName("name")?.text;
+
+  return typeName
+    ? !!exposing
+        ?.get(typeName)
+        ?.constructors?.some(
+          (constructor) => constructor.name === declaration.name,
+        )
+    : !!exposing?.has(declaration.name);
+}
+
+/**
+ * Get the nodes in a declaration that can reference another top level declaration
+ */
+function getReferenceNodes(node: SyntaxNode): SyntaxNode[] {
+  const references: SyntaxNode[] = [];
+  const treeCursor = node.walk();
+
+  const traverse = (): void => {
+    const currentNode = treeCursor.currentNode();
+
+    switch (currentNode.type) {
+      case "value_qid":
+      case "upper_case_qid":
+        if (currentNode.lastNamedChild) {
+          references.push(currentNode.lastNamedChild);
+        }
+        return;
+
+      case "operator_identifier":
+      case "record_base_identifier":
+        references.push(currentNode);
+        return;
+    }
+
+    if (treeCursor.gotoFirstChild()) {
+      do {
+        traverse();
+      } while (treeCursor.gotoNextSibling());
+
+      treeCursor.gotoParent();
+    }
+  };
+
+  traverse();
+  treeCursor.delete();
+
+  return references;
+}
+
+function getNodeRange(node: SyntaxNode): Range {
+  return Range.create(
+    PositionUtil.FROM_TS_POSITION(node.startPosition).toVSPosition(),
+    PositionUtil.FROM_TS_POSITION(node.endPosition).toVSPosition(),
+  );
+}
@@ -0,0 +1,270 @@
+import chokidar, { FSWatcher } from "chokidar";
+import * as fs from "fs";
+import escapeStringRegexp from "escape-string-regexp";
+import { container } from "tsyringe";
+import { Connection, DiagnosticSeverity } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { IProgram } from "../../compiler/program";
+import * as path from "../../util/path";
+import { TreeUtils } from "../../util/treeUtils";
+import { IDiagnostic } from "./diagnosticsProvider";
+
+export type RuleSeverity = "off" | "hint" | "warning" | "error";
+
+export interface IElmLanguageServerJson {
+  // Keyed by the diagnostic code, e.g. `unused_import`
+  rules?: { [rule: string]: RuleSeverity };
+  // Globs relative to the project root
+  ignorePaths?: string[];
+}
+
+const severities: { [severity: string]: DiagnosticSeverity } = {
+  hint: DiagnosticSeverity.Hint,
+  warning: DiagnosticSeverity.Warning,
+  error: DiagnosticSeverity.Error,
+};
+
+const ruleSeverities: RuleSeverity[] = ["off", "hint", "warning", "error"];
+
+const ignoreCommentRegex = /^--\s*elm-ls-ignore-next-line\b(.*)$/;
+
+/**
+ * Reads the rule configuration from `elm-language-server.json` next to `elm.json`
+ * and applies it to our own diagnostics
+ */
+export class DiagnosticsConfig {
+  private connection: Connection;
+  private configs = new Map<string, IElmLanguageServerJson>();
+  private watchers = new Map<string, FSWatcher>();
+  private changeListeners: (() => void)[] = [];
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+  }
+
+  public onDidChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  public dispose(): void {
+    this.watchers.forEach((watcher) => void watcher.close());
+    this.watchers.clear();
+  }
+
+  public getConfig(program: IProgram): IElmLanguageServerJson {
+    const configPath = path.join(
+      program.getRootPath().fsPath,
+      "elm-language-server.json",
+    );
+    const cached = this.configs.get(configPath);
+
+    if (cached) {
+      return cached;
+    }
+
+    if (!this.watchers.has(configPath)) {
+      // The config file is optional, so it is also watched for being created
+      this.watchers.set(
+        configPath,
+        chokidar
+          .watch(configPath, { ignoreInitial: true, persistent: false })
+          .on("all", () => {
+            this.configs.delete(configPath);
+            this.changeListeners.forEach((listener) => listener());
+          }),
+      );
+    }
+
+    let config: IElmLanguageServerJson = {};
+    try {
+      config = this.parseConfig(
+        configPath,
+        JSON.parse(fs.readFileSync(configPath, { encoding: "utf-8" })),
+      );
+    } catch (e) {
+      if ((e as { code?: string }).code !== "ENOENT") {
+        this.connection.console.warn(
+          `Skipping ${configPath} because it is not valid: ${String(e)}`,
+        );
+      }
+    }
+
+    this.configs.set(configPath, config);
+    return config;
+  }
+
+  /**
+   * Keep the valid entries of the config and warn about the others
+   */
+  public parseConfig(
+    configPath: string,
+    json: unknown,
+  ): IElmLanguageServerJson {
+    const config: IElmLanguageServerJson = {};
+    const warn = (message: string): void =>
+      this.connection.console.warn(`${configPath}: ${message}`);
+
+    if (!isObject(json)) {
+      warn("Expected an object");
+      return config;
+    }
+
+    if (json.ignorePaths !== undefined) {
+      if (Array.isArray(json.ignorePaths)) {
+        config.ignorePaths = json.ignorePaths.filter((glob): glob is string => {
+          if (typeof glob !== "string") {
+            warn(
+              `Skipping ignore path ${JSON.stringify(glob)}, expected a string`,
+            );
+            return false;
+          }
+          return true;
+        });
+      } else {
+        warn("Skipping `ignorePaths`, expected a list of strings");
+      }
+    }
+
+    if (json.rules !== undefined) {
+      if (isObject(json.rules)) {
+        config.rules = {};
+        for (const [rule, severity] of Object.entries(json.rules)) {
+          if (isRuleSeverity(severity)) {
+            config.rules[rule] = severity;
+          } else {
+            warn(
+              `Skipping rule \`${rule}\`, expected one of ${ruleSeverities
+                .map((ruleSeverity) => `"${ruleSeverity}"`)
+                .join(", ")}`,
+            );
+          }
+        }
+      } else {
+        warn("Skipping `rules`, expected an object");
+      }
+    }
+
+    return config;
+  }
+
+  /**
+   * Remove or change the severity of the diagnostics with source `ElmLS`
+   * based on the config, the ignored paths and the ignore comments in the file
+   */
+  public applyConfig(
+    config: IElmLanguageServerJson,
+    program: IProgram,
+    uri: string,
+    diagnostics: IDiagnostic[],
+  ): IDiagnostic[] {
+    if (!diagnostics.some((diagnostic) => diagnostic.source === "ElmLS")) {
+      return diagnostics;
+    }
+
+    const relativePath = path.relative(
+      program.getRootPath().fsPath,
+      URI.parse(uri).fsPath,
+    );
+
+    if (
+      config.ignorePaths?.some((glob) => globToRegExp(glob).test(relativePath))
+    ) {
+      return diagnostics.filter((diagnostic) => diagnostic.source !== "ElmLS");
+    }
+
+    const ignoredLines = getIgnoredLines(program, uri);
+
+    return diagnostics.flatMap((diagnostic) => {
+      if (diagnostic.source !== "ElmLS") {
+        return [diagnostic];
+      }
+
+      const ignoredRules = ignoredLines.get(diagnostic.range.start.line);
+
+      if (
+        ignoredRules &&
+        (ignoredRules.length === 0 ||
+          ignoredRules.includes(diagnostic.data.code))
+      ) {
+        return [];
+      }
+
+      const severity = config.rules?.[diagnostic.data.code];
+
+      if (severity === "off") {
+        return [];
+      }
+
+      return severity && severities[severity]
+        ? [{ ...diagnostic, severity: severities[severity] }]
+        : [diagnostic];
+    });
+  }
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRuleSeverity(value: unknown): value is RuleSeverity {
+  return ruleSeverities.includes(value as RuleSeverity);
+}
+
+/**
+ * Get the lines following an `-- elm-ls-ignore-next-line` comment with the rules
+ * it ignores, an empty list ignores all rules
+ */
+function getIgnoredLines(
+  program: IProgram,
+  uri: string,
+): Map<number, string[]> {
+  const ignoredLines = new Map<number, string[]>();
+  const sourceFile = program.getSourceFile(uri);
+
+  if (!sourceFile) {
+    return ignoredLines;
+  }
+
+  TreeUtils.descendantsOfType(sourceFile.tree.rootNode, "line_comment").forEach(
+    (comment) => {
+      const match = ignoreCommentRegex.exec(comment.text);
+
+      if (match) {
+        ignoredLines.set(
+          comment.endPosition.row + 1,
+          match[1].split(/[\s,]+/).filter((rule) => rule.length > 0),
+        );
+      }
+    },
+  );
+
+  return ignoredLines;
+}
+
+/**
+ * Convert a glob with `**`, `*` and `?` to a regex, a glob without
+ * wildcards also matches everything in that directory
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/^\.\//, "")
+    .replace(/\/$/, "")
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case "**/":
+          return "(?:.*/)?";
+        case "**":
+          return ".*";
+        case "*":
+          return "[^/]*";
+        case "?":
+          return "[^/]";
+        default:
+          return escapeStringRegexp(part);
+      }
+    })
+    .join("");
+
+  return new RegExp(`^${pattern}(?:/.*)?$`);
+}
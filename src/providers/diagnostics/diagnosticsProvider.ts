@@ -19,6 +19,9 @@ import { Diagnostic } from "../../compiler/diagnostics";
 import { ASTProvider } from "../astProvider";
 import { DiagnosticSource } from "./diagnosticSource";
 import { DiagnosticsRequest } from "./diagnosticsRequest";
+import { DeadCodeDiagnostics } from "./deadCodeDiagnostics";
+import { DiagnosticsConfig } from "./diagnosticsConfig";
+import { ElmJsonDiagnostics } from "./elmJsonDiagnostics";
 import { ElmLsDiagnostics } from "./elmLsDiagnostics";
 import { ElmMakeDiagnostics } from "./elmMakeDiagnostics";
 import { DiagnosticKind, FileDiagnostics } from "./fileDiagnostics";
@@ -72,6 +75,9 @@ class PendingDiagnostics extends Map<string, number> {
 export class DiagnosticsProvider {
   private elmMakeDiagnostics: ElmMakeDiagnostics;
   private elmLsDiagnostics: ElmLsDiagnostics;
+  private deadCodeDiagnostics: DeadCodeDiagnostics;
+  private elmJsonDiagnostics: ElmJsonDiagnostics;
+  private diagnosticsConfig: DiagnosticsConfig;
   private currentDiagnostics: Map<string, FileDiagnostics>;
   private events: TextDocumentEvents;
   private connection: Connection;
@@ -83,6 +89,10 @@ export class DiagnosticsProvider {
   private pendingRequest: DiagnosticsRequest | undefined;
   private pendingDiagnostics: PendingDiagnostics;
   private diagnosticsDelayer: Delayer<any>;
+  private deadCodeDelayer: Delayer<void>;
+  // The programs that need to be searched on the next run and the ones without changes since the last
+  private pendingDeadCode = new Set<IProgram>();
+  private upToDateDeadCode = new Set<IProgram>();
   private diagnosticsOperation: MultistepOperation;
   private changeSeq = 0;
 
@@ -91,6 +101,9 @@ export class DiagnosticsProvider {
 
     this.elmMakeDiagnostics = container.resolve(ElmMakeDiagnostics);
     this.elmLsDiagnostics = container.resolve(ElmLsDiagnostics);
+    this.deadCodeDiagnostics = container.resolve(DeadCodeDiagnostics);
+    this.elmJsonDiagnostics = container.resolve(ElmJsonDiagnostics);
+    this.diagnosticsConfig = container.resolve(DiagnosticsConfig);
     this.documentEvents = container.resolve(TextDocumentEvents);
 
     this.connection = container.resolve("Connection");
@@ -105,6 +118,7 @@ export class DiagnosticsProvider {
     this.currentDiagnostics = new Map<string, FileDiagnostics>();
     this.pendingDiagnostics = new PendingDiagnostics();
     this.diagnosticsDelayer = new Delayer(300);
+    this.deadCodeDelayer = new Delayer(1000);
 
     const clientInitiatedDiagnostics =
       this.clientSettings.extendedCapabilities?.clientInitiatedDiagnostics ??
@@ -125,6 +139,11 @@ export class DiagnosticsProvider {
 
       void this.getElmMakeDiagnostics(sourceFile);
 
+      if (!this.clientSettings.disableElmLSDiagnostics) {
+        this.requestDeadCodeDiagnostics(program);
+        void this.getElmJsonDiagnostics(program);
+      }
+
       // If we aren't doing them on change, we need to trigger them here
       if (disableDiagnosticsOnChange) {
         this.updateDiagnostics(
@@ -139,6 +158,9 @@ export class DiagnosticsProvider {
     this.events.on("save", handleSaveOrOpen);
 
     this.connection.onDidChangeWatchedFiles((event) => {
+      // Files changed outside the editor can use or stop using any declaration
+      this.upToDateDeadCode.clear();
+
       const newDeleteEvents = event.changes
         .filter((a) => a.type === FileChangeType.Deleted)
         .map((a) => a.uri);
@@ -159,27 +181,22 @@ export class DiagnosticsProvider {
       this.clientSettings = <IClientSettings>params.settings;
 
       if (this.clientSettings.disableElmLSDiagnostics) {
-        this.currentDiagnostics.forEach((_, uri) =>
-          this.updateDiagnostics(uri, DiagnosticKind.ElmLS, []),
-        );
+        this.currentDiagnostics.forEach((_, uri) => {
+          this.updateDiagnostics(uri, DiagnosticKind.ElmLS, []);
+          this.updateDiagnostics(uri, DiagnosticKind.DeadCode, []);
+          this.updateDiagnostics(uri, DiagnosticKind.ElmJson, []);
+        });
       } else {
-        this.workspaces.forEach((program) => {
-          if (!program.getForest(false)) {
-            return;
-          }
+        this.refreshElmLsDiagnostics();
+      }
+    });
 
-          program.getForest().treeMap.forEach((sourceFile) => {
-            if (sourceFile.writeable) {
-              this.updateDiagnostics(
-                sourceFile.uri,
-                DiagnosticKind.ElmLS,
-                this.elmLsDiagnostics.createDiagnostics(sourceFile, program),
-              );
-            }
-          });
-        });
+    this.diagnosticsConfig.onDidChange(() => {
+      if (!this.clientSettings.disableElmLSDiagnostics) {
+        this.refreshElmLsDiagnostics();
       }
     });
+    this.connection.onShutdown(() => this.diagnosticsConfig.dispose());
 
     if (!clientInitiatedDiagnostics && !disableDiagnosticsOnChange) {
       this.requestAllDiagnostics();
@@ -187,6 +204,12 @@ export class DiagnosticsProvider {
 
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     astProvider.onTreeChange(({ sourceFile, declaration }) => {
+      this.upToDateDeadCode.forEach((program) => {
+        if (program.getSourceFile(sourceFile.uri)) {
+          this.upToDateDeadCode.delete(program);
+        }
+      });
+
       if (!clientInitiatedDiagnostics && !disableDiagnosticsOnChange) {
         this.requestDiagnostics(sourceFile.uri);
       }
@@ -291,6 +314,19 @@ export class DiagnosticsProvider {
   ): void {
     let didUpdate = false;
 
+    const program =
+      ElmJsonDiagnostics.getProgramForElmJson(uri) ??
+      this.workspaces.find((program) => program.hasDocument(URI.parse(uri)));
+
+    if (program) {
+      diagnostics = this.diagnosticsConfig.applyConfig(
+        this.diagnosticsConfig.getConfig(program),
+        program,
+        uri,
+        diagnostics,
+      );
+    }
+
     let fileDiagnostics = this.currentDiagnostics.get(uri);
 
     if (fileDiagnostics) {
@@ -460,6 +496,76 @@ export class DiagnosticsProvider {
     });
   }
 
+  private refreshElmLsDiagnostics(): void {
+    this.workspaces.forEach((program) => {
+      if (!program.getForest(false)) {
+        return;
+      }
+
+      program.getForest().treeMap.forEach((sourceFile) => {
+        if (sourceFile.writeable) {
+          this.updateDiagnostics(
+            sourceFile.uri,
+            DiagnosticKind.ElmLS,
+            this.elmLsDiagnostics.createDiagnostics(sourceFile, program),
+          );
+        }
+      });
+
+      this.upToDateDeadCode.delete(program);
+      this.requestDeadCodeDiagnostics(program);
+      void this.getElmJsonDiagnostics(program);
+    });
+  }
+
+  /**
+   * Searching the whole program is slow, so it is delayed and only done again after a change
+   */
+  private requestDeadCodeDiagnostics(program: IProgram): void {
+    if (this.upToDateDeadCode.has(program)) {
+      return;
+    }
+
+    this.pendingDeadCode.add(program);
+
+    void this.deadCodeDelayer.trigger(() => {
+      if (this.clientSettings.disableElmLSDiagnostics) {
+        this.pendingDeadCode.clear();
+        return;
+      }
+
+      this.pendingDeadCode.forEach((pendingProgram) => {
+        this.upToDateDeadCode.add(pendingProgram);
+        this.getDeadCodeDiagnostics(pendingProgram);
+      });
+      this.pendingDeadCode.clear();
+    });
+  }
+
+  private getDeadCodeDiagnostics(program: IProgram): void {
+    // Every writeable file of the program gets diagnostics, so there is nothing to reset
+    this.deadCodeDiagnostics
+      .createDiagnostics(program)
+      .forEach((diagnostics, uri) =>
+        this.updateDiagnostics(uri, DiagnosticKind.DeadCode, diagnostics),
+      );
+  }
+
+  private async getElmJsonDiagnostics(program: IProgram): Promise<void> {
+    try {
+      this.updateDiagnostics(
+        ElmJsonDiagnostics.getElmJsonUri(program),
+        DiagnosticKind.ElmJson,
+        this.elmJsonDiagnostics.createDiagnostics(
+          program,
+          await ElmJsonDiagnostics.readElmJson(program),
+        ),
+      );
+    } catch (e) {
+      this.connection.console.error(e);
+    }
+  }
+
   private resetDiagnostics(
     diagnosticList: Map<string, IDiagnostic[]>,
     diagnosticKind: DiagnosticKind,
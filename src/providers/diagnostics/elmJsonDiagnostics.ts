@@ -0,0 +1,521 @@
+import escapeStringRegexp from "escape-string-regexp";
+import fs from "fs";
+import { container } from "tsyringe";
+import util from "util";
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  DiagnosticSeverity,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import {
+  ElmJson,
+  ElmProject,
+  IElmApplicationJson,
+  IProgram,
+} from "../../compiler/program";
+import { PackageManager } from "../../util/packageManager";
+import * as path from "../../util/path";
+import { TextDocumentEvents } from "../../util/textDocumentEvents";
+import { IDiagnostic } from "./diagnosticsProvider";
+
+const readFile = util.promisify(fs.readFile);
+
+interface IDependencyProblem {
+  code:
+    | "unused_dependency"
+    | "used_indirect_dependency"
+    | "test_dependency_used_in_src";
+  packageName: string;
+  // The path of the object in elm.json that contains the dependency
+  section: string[];
+}
+
+// Elm needs these packages even if none of their modules are imported
+const requiredPackages = ["elm/core", "elm/json"];
+
+export class ElmJsonDiagnostics {
+  public static getElmJsonUri(program: IProgram): string {
+    return URI.file(
+      path.join(program.getRootPath().fsPath, "elm.json"),
+    ).toString();
+  }
+
+  public static getProgramForElmJson(uri: string): IProgram | undefined {
+    return container
+      .resolve<IProgram[]>("ElmWorkspaces")
+      .find((program) => ElmJsonDiagnostics.getElmJsonUri(program) === uri);
+  }
+
+  /**
+   * Read elm.json from the open document if there is one, so that the ranges
+   * include the unsaved changes, otherwise from the disk
+   */
+  public static readElmJson(program: IProgram): Promise<string> {
+    const document = container
+      .resolve(TextDocumentEvents)
+      .get(ElmJsonDiagnostics.getElmJsonUri(program));
+
+    if (document) {
+      return Promise.resolve(document.getText());
+    }
+
+    return readFile(path.join(program.getRootPath().fsPath, "elm.json"), {
+      encoding: "utf-8",
+    });
+  }
+
+  /**
+   * Find unused direct dependencies and packages that are imported
+   * without being a direct dependency of the source or test files
+   */
+  public createDiagnostics(program: IProgram, text: string): IDiagnostic[] {
+    const uri = ElmJsonDiagnostics.getElmJsonUri(program);
+    const document = TextDocument.create(uri, "json", 0, text);
+
+    return findProblems(program, JSON.parse(text) as ElmJson).map(
+      ({ code, packageName, section }) => {
+        const offsets = findDependencyOffsets(text, section, packageName);
+
+        return {
+          range: Range.create(
+            document.positionAt(offsets?.start ?? 0),
+            document.positionAt(offsets?.end ?? 0),
+          ),
+          message:
+            code === "unused_dependency"
+              ? `Unused dependency \`${packageName}\``
+              : code === "used_indirect_dependency"
+              ? `Indirect dependency \`${packageName}\` is imported, it should be a direct dependency`
+              : `Test dependency \`${packageName}\` is imported from the source directories`,
+          severity: DiagnosticSeverity.Warning,
+          source: "ElmLS",
+          data: { uri, code },
+        };
+      },
+    );
+  }
+
+  public async onCodeAction(params: CodeActionParams): Promise<CodeAction[]> {
+    const program = ElmJsonDiagnostics.getProgramForElmJson(
+      params.textDocument.uri,
+    );
+
+    if (!program) {
+      return [];
+    }
+
+    return this.getCodeActions(
+      program,
+      await ElmJsonDiagnostics.readElmJson(program),
+      params.context.diagnostics as IDiagnostic[],
+    );
+  }
+
+  /**
+   * Get the quick fixes that rewrite elm.json, the indirect dependencies are
+   * recomputed from the loaded packages the same way they are solved
+   */
+  public getCodeActions(
+    program: IProgram,
+    text: string,
+    diagnostics: IDiagnostic[],
+  ): CodeAction[] {
+    const uri = ElmJsonDiagnostics.getElmJsonUri(program);
+    const document = TextDocument.create(uri, "json", 0, text);
+    const problems = findProblems(program, JSON.parse(text) as ElmJson);
+
+    return diagnostics.flatMap((diagnostic) => {
+      const problem = problems.find((problem) => {
+        const offsets = findDependencyOffsets(
+          text,
+          problem.section,
+          problem.packageName,
+        );
+
+        return (
+          problem.code === diagnostic.data.code &&
+          offsets &&
+          document.offsetAt(diagnostic.range.start) === offsets.start
+        );
+      });
+
+      if (!problem) {
+        return [];
+      }
+
+      const elmJson = fixProblem(
+        program.getRootProject(),
+        JSON.parse(text) as ElmJson,
+        problem,
+      );
+
+      if (!elmJson) {
+        return [];
+      }
+
+      return [
+        {
+          title:
+            problem.code === "unused_dependency"
+              ? `Remove unused dependency \`${problem.packageName}\``
+              : problem.code === "used_indirect_dependency"
+              ? `Move \`${problem.packageName}\` to the direct dependencies`
+              : `Move \`${problem.packageName}\` to the dependencies`,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          isPreferred: true,
+          edit: {
+            changes: {
+              [uri]: [
+                TextEdit.replace(
+                  Range.create(
+                    document.positionAt(0),
+                    document.positionAt(text.length),
+                  ),
+                  PackageManager.printElmJson(elmJson),
+                ),
+              ],
+            },
+          },
+        },
+      ];
+    });
+  }
+}
+
+function findProblems(
+  program: IProgram,
+  elmJson: ElmJson,
+): IDependencyProblem[] {
+  const modulePackages = getModulePackages(program.getRootProject());
+  const problems = new Map<string, IDependencyProblem>();
+  const used = new Set<string>();
+
+  const [direct, indirect, testDirect, testIndirect] =
+    elmJson.type === "application"
+      ? [
+          elmJson.dependencies.direct,
+          elmJson.dependencies.indirect,
+          elmJson["test-dependencies"].direct,
+          elmJson["test-dependencies"].indirect,
+        ]
+      : [elmJson.dependencies, {}, elmJson["test-dependencies"], {}];
+
+  const [
+    directSection,
+    indirectSection,
+    testDirectSection,
+    testIndirectSection,
+  ] =
+    elmJson.type === "application"
+      ? [
+          ["dependencies", "direct"],
+          ["dependencies", "indirect"],
+          ["test-dependencies", "direct"],
+          ["test-dependencies", "indirect"],
+        ]
+      : [["dependencies"], [], ["test-dependencies"], []];
+
+  const addProblem = (problem: IDependencyProblem): void => {
+    problems.set(`${problem.code} ${problem.packageName}`, problem);
+  };
+
+  program.getForest().treeMap.forEach((sourceFile) => {
+    if (!sourceFile.writeable) {
+      return;
+    }
+
+    sourceFile.tree.rootNode.namedChildren
+      .filter((child) => child.type === "import_clause")
+      .forEach((importClause) => {
+        const moduleName = importClause.childForFieldName("moduleName")?.text;
+
+        if (
+          !moduleName ||
+          program.getSourceFileOfImportableModule(sourceFile, moduleName)
+            ?.writeable
+        ) {
+          return;
+        }
+
+        const packages = modulePackages.get(moduleName) ?? [];
+        const available = packages.find(
+          (packageName) =>
+            packageName in direct ||
+            (sourceFile.isTestFile && packageName in testDirect),
+        );
+
+        if (available) {
+          used.add(available);
+          return;
+        }
+
+        const packageName = packages[0];
+
+        if (!packageName) {
+          return;
+        }
+
+        used.add(packageName);
+
+        if (!sourceFile.isTestFile && packageName in indirect) {
+          addProblem({
+            code: "used_indirect_dependency",
+            packageName,
+            section: indirectSection,
+          });
+        } else if (sourceFile.isTestFile && packageName in testIndirect) {
+          addProblem({
+            code: "used_indirect_dependency",
+            packageName,
+            section: testIndirectSection,
+          });
+        } else if (!sourceFile.isTestFile && packageName in testDirect) {
+          addProblem({
+            code: "test_dependency_used_in_src",
+            packageName,
+            section: testDirectSection,
+          });
+        }
+      });
+  });
+
+  [
+    { dependencies: direct, section: directSection },
+    { dependencies: testDirect, section: testDirectSection },
+  ].forEach(({ dependencies, section }) =>
+    Object.keys(dependencies).forEach((packageName) => {
+      if (!used.has(packageName) && !requiredPackages.includes(packageName)) {
+        addProblem({ code: "unused_dependency", packageName, section });
+      }
+    }),
+  );
+
+  return Array.from(problems.values());
+}
+
+/**
+ * Map the modules to the packages that expose them
+ */
+function getModulePackages(project: ElmProject): Map<string, string[]> {
+  const modulePackages = new Map<string, string[]>();
+
+  getPackageDependencies(project).forEach(({ exposedModules }, packageName) =>
+    exposedModules.forEach((moduleName) =>
+      modulePackages.set(moduleName, [
+        ...(modulePackages.get(moduleName) ?? []),
+        packageName,
+      ]),
+    ),
+  );
+
+  return modulePackages;
+}
+
+/**
+ * Get all packages loaded for the project with their exposed modules and dependencies
+ */
+function getPackageDependencies(
+  project: ElmProject,
+): Map<string, { exposedModules: Set<string>; dependencies: string[] }> {
+  const packages = new Map<
+    string,
+    { exposedModules: Set<string>; dependencies: string[] }
+  >();
+
+  const visit = (dependencies: ElmProject["dependencies"]): void =>
+    dependencies.forEach((dependency, packageName) => {
+      if (!packages.has(packageName)) {
+        packages.set(packageName, {
+          exposedModules: dependency.exposedModules,
+          dependencies: Array.from(dependency.dependencies.keys()),
+        });
+        visit(dependency.dependencies);
+      }
+    });
+
+  visit(project.dependencies);
+  visit(project.testDependencies);
+
+  return packages;
+}
+
+function fixProblem(
+  project: ElmProject,
+  elmJson: ElmJson,
+  { code, packageName }: IDependencyProblem,
+): ElmJson | undefined {
+  if (elmJson.type === "package") {
+    const dependencies = { ...elmJson.dependencies };
+    const testDependencies = { ...elmJson["test-dependencies"] };
+
+    if (code === "unused_dependency") {
+      delete dependencies[packageName];
+      delete testDependencies[packageName];
+    } else if (code === "test_dependency_used_in_src") {
+      dependencies[packageName] = testDependencies[packageName];
+      delete testDependencies[packageName];
+    } else {
+      return;
+    }
+
+    return {
+      ...elmJson,
+      dependencies: PackageManager.sortDependencies(dependencies),
+      "test-dependencies": PackageManager.sortDependencies(testDependencies),
+    };
+  }
+
+  const direct = new Set(Object.keys(elmJson.dependencies.direct));
+  const testDirect = new Set(Object.keys(elmJson["test-dependencies"].direct));
+
+  if (code === "unused_dependency") {
+    direct.delete(packageName);
+    testDirect.delete(packageName);
+  } else if (code === "used_indirect_dependency") {
+    if (packageName in elmJson.dependencies.indirect) {
+      direct.add(packageName);
+    } else {
+      testDirect.add(packageName);
+    }
+  } else {
+    testDirect.delete(packageName);
+    direct.add(packageName);
+  }
+
+  return withDirectDependencies(project, elmJson, direct, testDirect);
+}
+
+/**
+ * Recompute the indirect dependencies of an application from its direct dependencies,
+ * keeping the versions that are already in elm.json
+ */
+function withDirectDependencies(
+  project: ElmProject,
+  elmJson: IElmApplicationJson,
+  direct: Set<string>,
+  testDirect: Set<string>,
+): IElmApplicationJson | undefined {
+  const packages = getPackageDependencies(project);
+  const versions = new Map<string, string>(
+    Object.entries({
+      ...elmJson.dependencies.direct,
+      ...elmJson.dependencies.indirect,
+      ...elmJson["test-dependencies"].direct,
+      ...elmJson["test-dependencies"].indirect,
+    }),
+  );
+
+  const closure = (roots: string[]): Set<string> => {
+    const result = new Set<string>();
+    const queue = [...roots];
+
+    while (queue.length > 0) {
+      const packageName = queue.pop();
+
+      if (packageName && !result.has(packageName)) {
+        result.add(packageName);
+        queue.push(...(packages.get(packageName)?.dependencies ?? []));
+      }
+    }
+
+    return result;
+  };
+
+  const dependencies = closure(Array.from(direct));
+  const testDependencies = closure([...direct, ...testDirect]);
+
+  const getVersions = (
+    filter: (packageName: string) => boolean,
+    from: Set<string>,
+  ): { [name: string]: string } | undefined => {
+    const result: { [name: string]: string } = {};
+
+    for (const packageName of Array.from(from).filter(filter)) {
+      const version = versions.get(packageName);
+
+      if (!version) {
+        return;
+      }
+
+      result[packageName] = version;
+    }
+
+    return PackageManager.sortDependencies(result);
+  };
+
+  const newDirect = getVersions(() => true, direct);
+  const newIndirect = getVersions(
+    (packageName) => !direct.has(packageName),
+    dependencies,
+  );
+  const newTestDirect = getVersions(
+    (packageName) => !dependencies.has(packageName),
+    testDirect,
+  );
+  const newTestIndirect = getVersions(
+    (packageName) =>
+      !dependencies.has(packageName) && !testDirect.has(packageName),
+    testDependencies,
+  );
+
+  if (!newDirect || !newIndirect || !newTestDirect || !newTestIndirect) {
+    return;
+  }
+
+  return {
+    ...elmJson,
+    dependencies: { direct: newDirect, indirect: newIndirect },
+    "test-dependencies": { direct: newTestDirect, indirect: newTestIndirect },
+  };
+}
+
+/**
+ * Find the `"package": "version"` entry of a dependency in the elm.json text
+ */
+export function findDependencyOffsets(
+  text: string,
+  section: string[],
+  packageName: string,
+): { start: number; end: number } | undefined {
+  let start = 0;
+  let end = text.length;
+
+  for (const key of section) {
+    const keyMatch = new RegExp(`"${escapeStringRegexp(key)}"\\s*:\\s*{`).exec(
+      text.slice(start, end),
+    );
+
+    if (!keyMatch) {
+      return;
+    }
+
+    start += keyMatch.index + keyMatch[0].length;
+
+    // Find the closing brace of the object
+    let depth = 1;
+    for (end = start; end < text.length && depth > 0; end++) {
+      if (text[end] === "{") {
+        depth++;
+      } else if (text[end] === "}") {
+        depth--;
+      }
+    }
+  }
+
+  const entryMatch = new RegExp(
+    `"${escapeStringRegexp(packageName)}"\\s*:\\s*"[^"]*"`,
+  ).exec(text.slice(start, end));
+
+  if (entryMatch) {
+    return {
+      start: start + entryMatch.index,
+      end: start + entryMatch.index + entryMatch[0].length,
+    };
+  }
+}
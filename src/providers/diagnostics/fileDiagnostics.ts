@@ -5,6 +5,8 @@ export const enum DiagnosticKind {
   ElmMake,
   ElmTest,
   ElmLS,
+  DeadCode,
+  ElmJson,
   Syntactic,
   Semantic,
   Suggestion,
@@ -50,6 +52,8 @@ export class FileDiagnostics {
       ...this.getForKind(DiagnosticKind.ElmMake),
       ...this.getForKind(DiagnosticKind.ElmTest),
       ...this.getForKind(DiagnosticKind.ElmLS),
+      ...this.getForKind(DiagnosticKind.DeadCode),
+      ...this.getForKind(DiagnosticKind.ElmJson),
       ...this.getForKind(DiagnosticKind.Syntactic),
       ...this.getForKind(DiagnosticKind.Semantic),
       ...this.getForKind(DiagnosticKind.Suggestion),
@@ -0,0 +1,92 @@
+import { container } from "tsyringe";
+import {
+  Connection,
+  DocumentHighlight,
+  DocumentHighlightKind,
+  DocumentHighlightParams,
+  Range,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { SyntaxNode } from "web-tree-sitter";
+import { References } from "../compiler/references";
+import { PositionUtil } from "../positionUtil";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { TreeUtils } from "../util/treeUtils";
+import { IDocumentHighlightParams } from "./paramsExtensions";
+
+type DocumentHighlightResult = DocumentHighlight[] | null | undefined;
+
+export class DocumentHighlightProvider {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+    this.connection.onDocumentHighlight(
+      new ElmWorkspaceMatcher((params: DocumentHighlightParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleDocumentHighlight.bind(this)),
+    );
+  }
+
+  protected handleDocumentHighlight = (
+    params: IDocumentHighlightParams,
+  ): DocumentHighlightResult => {
+    const sourceFile = params.sourceFile;
+    const checker = params.program.getTypeChecker();
+
+    const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+      sourceFile.tree.rootNode,
+      params.position,
+    );
+
+    const definition = checker.findDefinition(nodeAtPosition, sourceFile)
+      .symbol;
+
+    if (!definition) {
+      return;
+    }
+
+    return References.find(definition, params.program)
+      .filter((reference) => reference.uri === sourceFile.uri)
+      .map(({ node }) =>
+        DocumentHighlight.create(
+          Range.create(
+            PositionUtil.FROM_TS_POSITION(node.startPosition).toVSPosition(),
+            PositionUtil.FROM_TS_POSITION(node.endPosition).toVSPosition(),
+          ),
+          this.getHighlightKind(node),
+        ),
+      );
+  };
+
+  private getHighlightKind(node: SyntaxNode): DocumentHighlightKind {
+    const parent = node.parent;
+
+    if (
+      node.type === "lower_pattern" ||
+      parent?.type === "lower_pattern" ||
+      parent?.type === "type_declaration" ||
+      parent?.type === "type_alias_declaration" ||
+      parent?.type === "union_variant" ||
+      parent?.type === "field_type" ||
+      parent?.type === "port_annotation" ||
+      (parent?.type === "function_declaration_left" &&
+        parent.firstNamedChild?.startIndex === node.startIndex)
+    ) {
+      return DocumentHighlightKind.Write;
+    }
+
+    // Type annotations, exposing lists and imports only mention the name
+    if (
+      parent?.type === "type_annotation" ||
+      parent?.type === "exposed_value" ||
+      parent?.type === "exposed_type" ||
+      node.type === "exposed_value" ||
+      node.type === "exposed_type"
+    ) {
+      return DocumentHighlightKind.Text;
+    }
+
+    return DocumentHighlightKind.Read;
+  }
+}
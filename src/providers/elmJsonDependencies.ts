@@ -0,0 +1,364 @@
+import {
+  CodeLens,
+  CodeLensParams,
+  Command,
+  Hover,
+  MarkupKind,
+  Range,
+  TextDocumentPositionParams,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { IElmPackageCache } from "../compiler/elmPackageCache";
+import { ElmJson } from "../compiler/program";
+import {
+  constraintIntersect,
+  IConstraint,
+  IVersion,
+  parseConstraint,
+  parseVersion,
+  solveDependencies,
+  versionCompare,
+} from "../compiler/utils/elmUtils";
+import {
+  ElmJsonDiagnostics,
+  findDependencyOffsets,
+} from "./diagnostics/elmJsonDiagnostics";
+
+export interface IDependencyInfo {
+  packageName: string;
+  // The path of the object in elm.json that contains the dependency
+  section: string[];
+  // The version of an application dependency or the constraint of a package dependency
+  current: string;
+  newestVersion?: IVersion;
+  // The newest version with the same major version
+  minorUpgrade?: IVersion;
+  majorUpgrade?: IVersion;
+  // The dependencies that don't allow the major upgrade
+  blockedBy: string[];
+  // Whether the upgrade can be applied with `elm.upgrade`
+  canUpgrade: boolean;
+}
+
+export class ElmJsonDependencies {
+  public async onCodeLens(params: CodeLensParams): Promise<CodeLens[]> {
+    const elmJson = await this.readDependencyInfo(params.textDocument.uri);
+
+    if (!elmJson) {
+      return [];
+    }
+
+    return this.getCodeLenses(
+      params.textDocument.uri,
+      elmJson.text,
+      elmJson.dependencies,
+    );
+  }
+
+  public async onHover(
+    params: TextDocumentPositionParams,
+  ): Promise<Hover | undefined> {
+    const elmJson = await this.readDependencyInfo(params.textDocument.uri);
+
+    if (!elmJson) {
+      return;
+    }
+
+    return this.getHover(
+      params.textDocument.uri,
+      elmJson.text,
+      params.position,
+      elmJson.dependencies,
+    );
+  }
+
+  /**
+   * Compare each dependency with the newest versions in the local package cache
+   */
+  public async getDependencyInfo(
+    packageCache: IElmPackageCache,
+    elmJson: ElmJson,
+  ): Promise<IDependencyInfo[]> {
+    const entries: [string[], { [packageName: string]: string }][] =
+      elmJson.type === "application"
+        ? [
+            [["dependencies", "direct"], elmJson.dependencies.direct],
+            [["dependencies", "indirect"], elmJson.dependencies.indirect],
+            [
+              ["test-dependencies", "direct"],
+              elmJson["test-dependencies"].direct,
+            ],
+            [
+              ["test-dependencies", "indirect"],
+              elmJson["test-dependencies"].indirect,
+            ],
+          ]
+        : [
+            [["dependencies"], elmJson.dependencies],
+            [["test-dependencies"], elmJson["test-dependencies"]],
+          ];
+
+    const installedVersions = await getInstalledVersions(packageCache, elmJson);
+
+    // The constraints that the installed packages put on their dependencies
+    const dependents = new Map<string, Map<string, IConstraint>>();
+    for (const [name, version] of installedVersions) {
+      const dependencies = await packageCache
+        .getDependencies(name, version)
+        .catch(() => new Map<string, IConstraint>());
+
+      dependencies.forEach((constraint, dependency) => {
+        const constraints = dependents.get(dependency) ?? new Map();
+        constraints.set(name, constraint);
+        dependents.set(dependency, constraints);
+      });
+    }
+
+    const result: IDependencyInfo[] = [];
+
+    for (const [section, dependencies] of entries) {
+      for (const [packageName, current] of Object.entries(dependencies)) {
+        const versions = [
+          ...(await packageCache.getVersions(packageName).catch(() => [])),
+        ].sort(versionCompare);
+        const installedVersion = installedVersions.get(packageName);
+
+        const newerVersions = installedVersion
+          ? versions.filter(
+              (version) => versionCompare(version, installedVersion) === 1,
+            )
+          : [];
+
+        const minorUpgrade =
+          elmJson.type === "application"
+            ? newerVersions
+                .filter((version) => version.major === installedVersion?.major)
+                .pop()
+            : undefined;
+
+        const majorUpgrade = newerVersions
+          .filter((version) => version.major !== installedVersion?.major)
+          .pop();
+
+        const blockedBy = majorUpgrade
+          ? Array.from(dependents.get(packageName) ?? [])
+              .filter(
+                ([, constraint]) =>
+                  !constraintIntersect(
+                    constraint,
+                    parseConstraint(
+                      `${majorUpgrade.major}.0.0 <= v < ${
+                        majorUpgrade.major + 1
+                      }.0.0`,
+                    ),
+                  ),
+              )
+              .map(([name]) => name)
+              .sort()
+          : [];
+
+        result.push({
+          packageName,
+          section,
+          current,
+          newestVersion: versions[versions.length - 1],
+          minorUpgrade,
+          majorUpgrade,
+          blockedBy,
+          canUpgrade: elmJson.type === "package" || section[1] === "direct",
+        });
+      }
+    }
+
+    return result;
+  }
+
+  public getCodeLenses(
+    uri: string,
+    text: string,
+    dependencies: IDependencyInfo[],
+  ): CodeLens[] {
+    const document = TextDocument.create(uri, "json", 0, text);
+    const codeLenses: CodeLens[] = [];
+
+    dependencies.forEach((dependency) => {
+      const offsets = findDependencyOffsets(
+        text,
+        dependency.section,
+        dependency.packageName,
+      );
+
+      if (!offsets || !dependency.newestVersion) {
+        return;
+      }
+
+      const range = Range.create(
+        document.positionAt(offsets.start),
+        document.positionAt(offsets.end),
+      );
+      const { packageName, minorUpgrade, majorUpgrade, blockedBy } = dependency;
+      const upgradeCommand = (title: string, majorUpgrade: boolean): Command =>
+        dependency.canUpgrade
+          ? Command.create(title, "elm.upgrade", uri, packageName, majorUpgrade)
+          : Command.create(title, "");
+
+      if (minorUpgrade) {
+        codeLenses.push({
+          range,
+          command: upgradeCommand(`Upgrade to ${minorUpgrade.string}`, false),
+        });
+      }
+
+      if (majorUpgrade) {
+        codeLenses.push({
+          range,
+          command:
+            blockedBy.length > 0
+              ? Command.create(
+                  `${majorUpgrade.string} is blocked by ${blockedBy.join(
+                    ", ",
+                  )}`,
+                  "",
+                )
+              : upgradeCommand(`Upgrade to ${majorUpgrade.string}`, true),
+        });
+      }
+
+      if (!minorUpgrade && !majorUpgrade) {
+        codeLenses.push({ range, command: Command.create("Latest", "") });
+      }
+    });
+
+    return codeLenses;
+  }
+
+  public getHover(
+    uri: string,
+    text: string,
+    position: { line: number; character: number },
+    dependencies: IDependencyInfo[],
+  ): Hover | undefined {
+    const document = TextDocument.create(uri, "json", 0, text);
+    const offset = document.offsetAt(position);
+
+    for (const dependency of dependencies) {
+      const offsets = findDependencyOffsets(
+        text,
+        dependency.section,
+        dependency.packageName,
+      );
+
+      if (!offsets || offset < offsets.start || offset > offsets.end) {
+        continue;
+      }
+
+      const {
+        packageName,
+        newestVersion,
+        majorUpgrade,
+        blockedBy,
+      } = dependency;
+      const lines = [`\`${packageName}\` ${dependency.current}`];
+
+      lines.push(
+        newestVersion
+          ? `Newest locally known version: ${newestVersion.string}`
+          : "Not in the local package cache",
+      );
+
+      if (majorUpgrade) {
+        lines.push(
+          blockedBy.length > 0
+            ? `Upgrading to ${
+                majorUpgrade.string
+              } is blocked by ${blockedBy
+                .map((name) => `\`${name}\``)
+                .join(", ")}`
+            : `Can be upgraded to ${majorUpgrade.string}`,
+        );
+      }
+
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: lines.join("\n\n"),
+        },
+        range: Range.create(
+          document.positionAt(offsets.start),
+          document.positionAt(offsets.end),
+        ),
+      };
+    }
+  }
+
+  /**
+   * Read the open elm.json document, or the file if it isn't open, and get its dependencies,
+   * undefined while the unsaved changes are not valid JSON
+   */
+  private async readDependencyInfo(
+    uri: string,
+  ): Promise<{ text: string; dependencies: IDependencyInfo[] } | undefined> {
+    const program = ElmJsonDiagnostics.getProgramForElmJson(uri);
+
+    if (!program) {
+      return;
+    }
+
+    const text = await ElmJsonDiagnostics.readElmJson(program);
+    let elmJson: ElmJson;
+    try {
+      elmJson = JSON.parse(text) as ElmJson;
+    } catch {
+      return;
+    }
+
+    return {
+      text,
+      dependencies: await this.getDependencyInfo(
+        program.getPackageCache(),
+        elmJson,
+      ),
+    };
+  }
+}
+
+/**
+ * Get the versions used by an application, or a solution of the constraints of a package
+ */
+async function getInstalledVersions(
+  packageCache: IElmPackageCache,
+  elmJson: ElmJson,
+): Promise<ReadonlyMap<string, IVersion>> {
+  if (elmJson.type === "application") {
+    return new Map(
+      Object.entries({
+        ...elmJson.dependencies.direct,
+        ...elmJson.dependencies.indirect,
+        ...elmJson["test-dependencies"].direct,
+        ...elmJson["test-dependencies"].indirect,
+      }).map(([name, version]) => [name, parseVersion(version)]),
+    );
+  }
+
+  const constraints = new Map(
+    Object.entries({
+      ...elmJson.dependencies,
+      ...elmJson["test-dependencies"],
+    }).map(([name, constraint]) => [name, parseConstraint(constraint)]),
+  );
+
+  const solution = await solveDependencies(packageCache, constraints).catch(
+    () => undefined,
+  );
+
+  // Fall back to the lowest allowed versions
+  return (
+    solution ??
+    new Map(
+      Array.from(constraints).map(([name, constraint]) => [
+        name,
+        constraint.lower,
+      ]),
+    )
+  );
+}
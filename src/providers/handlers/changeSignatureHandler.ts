@@ -0,0 +1,478 @@
+import { container } from "tsyringe";
+import {
+  Connection,
+  Position,
+  Range,
+  ResponseError,
+  TextEdit,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISourceFile } from "../../compiler/forest";
+import { IProgram } from "../../compiler/program";
+import { References } from "../../compiler/references";
+import {
+  ChangeSignatureRequest,
+  GetFunctionSignatureRequest,
+  IChangedParameter,
+  IChangeSignatureParams,
+  IFunctionSignature,
+  IFunctionSignatureParams,
+} from "../../protocol";
+import { CodeGenUtils } from "../../util/codeGenUtils";
+import { ElmWorkspaceMatcher } from "../../util/elmWorkspaceMatcher";
+import { ITextReplacement, replaceInText } from "../../util/refactorEditUtils";
+import { TreeUtils } from "../../util/treeUtils";
+
+interface IFunction {
+  name: string;
+  functionDeclarationLeft: SyntaxNode;
+  parameters: SyntaxNode[];
+  typeAnnotation?: SyntaxNode;
+  // The parts of the annotation for the parameters and the return type
+  parameterTypes?: SyntaxNode[];
+  returnType?: SyntaxNode;
+}
+
+export class ChangeSignatureHandler {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve("Connection");
+    this.connection.onRequest(
+      GetFunctionSignatureRequest,
+      new ElmWorkspaceMatcher((params: IFunctionSignatureParams) =>
+        URI.parse(params.sourceUri),
+      ).handle(this.handleGetFunctionSignatureRequest.bind(this)),
+    );
+
+    this.connection.onRequest(
+      ChangeSignatureRequest,
+      new ElmWorkspaceMatcher((params: IChangeSignatureParams) =>
+        URI.parse(params.sourceUri),
+      ).handle(this.handleChangeSignatureRequest.bind(this)),
+    );
+  }
+
+  private handleGetFunctionSignatureRequest(
+    params: IFunctionSignatureParams,
+  ): IFunctionSignature | undefined {
+    const func = findFunction(params);
+
+    if (func) {
+      return {
+        name: func.name,
+        parameters: func.parameters.map((parameter, i) => ({
+          pattern: parameter.text,
+          type: func.parameterTypes?.[i].text,
+        })),
+      };
+    }
+  }
+
+  private async handleChangeSignatureRequest(
+    params: IChangeSignatureParams,
+  ): Promise<void> {
+    const func = findFunction(params);
+
+    if (!func) {
+      return;
+    }
+
+    validateChange(func, params);
+
+    const changes: { [uri: string]: TextEdit[] } = {
+      [params.sourceUri]: getDeclarationEdits(func, params.parameters),
+    };
+
+    const calls = new Map<string, SyntaxNode[]>();
+
+    References.find(
+      {
+        name: func.name,
+        node: func.functionDeclarationLeft,
+        type: "Function",
+      },
+      params.program,
+    ).forEach((ref) => {
+      const valueExpr = ref.node.parent?.parent;
+
+      if (
+        ref.node.parent?.type === "value_qid" &&
+        valueExpr?.type === "value_expr" &&
+        params.program.getSourceFile(ref.uri)?.writeable
+      ) {
+        calls.set(ref.uri, [...(calls.get(ref.uri) ?? []), valueExpr]);
+      }
+    });
+
+    calls.forEach((valueExprs, uri) => {
+      const sourceFile = params.program.getSourceFile(uri);
+
+      if (!sourceFile) {
+        return;
+      }
+
+      changes[uri] = [
+        ...(changes[uri] ?? []),
+        ...getCallEdits(
+          params.program,
+          sourceFile,
+          valueExprs,
+          func.parameters,
+          params.parameters,
+        ),
+      ];
+    });
+
+    await this.connection.workspace.applyEdit({ changes });
+  }
+}
+
+function findFunction(params: IFunctionSignatureParams): IFunction | undefined {
+  const tree = params.program.getForest().getTree(params.sourceUri);
+
+  if (!tree) {
+    return;
+  }
+
+  const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+    tree.rootNode,
+    params.params.range.start,
+  );
+
+  const declaration =
+    nodeAtPosition.parent?.type === "type_annotation"
+      ? nodeAtPosition.parent.nextNamedSibling
+      : nodeAtPosition.parent?.parent;
+  const functionDeclarationLeft = declaration?.childForFieldName(
+    "functionDeclarationLeft",
+  );
+
+  if (
+    declaration?.type !== "value_declaration" ||
+    declaration.parent?.type !== "file" ||
+    !functionDeclarationLeft ||
+    functionDeclarationLeft.firstNamedChild?.text !== nodeAtPosition.text
+  ) {
+    return;
+  }
+
+  const parameters = functionDeclarationLeft.namedChildren
+    .slice(1)
+    .filter((child) => !child.type.includes("comment"));
+
+  const typeAnnotation = TreeUtils.getTypeAnnotation(declaration);
+  const typeParts =
+    typeAnnotation
+      ?.childForFieldName("typeExpression")
+      ?.namedChildren.filter(
+        (child) => child.type !== "arrow" && !child.type.includes("comment"),
+      ) ?? [];
+
+  // The annotation can return a type alias of a function instead of listing all parameters
+  const hasParameterTypes = typeParts.length > parameters.length;
+
+  return {
+    name: nodeAtPosition.text,
+    functionDeclarationLeft,
+    parameters,
+    typeAnnotation,
+    parameterTypes: hasParameterTypes
+      ? typeParts.slice(0, parameters.length)
+      : undefined,
+    returnType: hasParameterTypes ? typeParts[parameters.length] : undefined,
+  };
+}
+
+function validateChange(func: IFunction, params: IChangeSignatureParams): void {
+  const newParameters = params.parameters;
+
+  newParameters.forEach((parameter) => {
+    if (parameter.index !== undefined) {
+      if (!func.parameters[parameter.index]) {
+        throw new ResponseError(
+          1,
+          `Parameter ${parameter.index} does not exist.`,
+        );
+      }
+      return;
+    }
+
+    if (!parameter.pattern) {
+      throw new ResponseError(1, "A new parameter needs a name.");
+    }
+
+    if (func.typeAnnotation && !parameter.type) {
+      throw new ResponseError(
+        1,
+        `The new parameter \`${parameter.pattern}\` needs a type for the type annotation.`,
+      );
+    }
+  });
+
+  if (func.typeAnnotation && !func.parameterTypes) {
+    throw new ResponseError(
+      1,
+      "Can not change the signature, the type annotation does not list all parameters.",
+    );
+  }
+
+  // Removed parameters can't be used in the body anymore
+  const checker = params.program.getTypeChecker();
+  const body = func.functionDeclarationLeft.parent?.childForFieldName("body");
+
+  func.parameters.forEach((parameter, i) => {
+    if (newParameters.some((newParameter) => newParameter.index === i)) {
+      return;
+    }
+
+    const isUsed = !!body?.descendantsOfType("value_expr").some((valueExpr) => {
+      const nameNode = valueExpr.firstNamedChild?.lastNamedChild;
+      const definition = nameNode
+        ? checker.findDefinition(nameNode, params.sourceFile).symbol
+        : undefined;
+
+      return (
+        definition?.node.tree.uri === params.sourceUri &&
+        definition.node.startIndex >= parameter.startIndex &&
+        definition.node.endIndex <= parameter.endIndex
+      );
+    });
+
+    if (isUsed) {
+      throw new ResponseError(
+        1,
+        `Can not remove parameter \`${parameter.text}\`, it is used in the function body.`,
+      );
+    }
+  });
+}
+
+function getDeclarationEdits(
+  func: IFunction,
+  newParameters: IChangedParameter[],
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const functionName = func.functionDeclarationLeft.firstNamedChild;
+
+  if (!functionName) {
+    return edits;
+  }
+
+  const patterns = newParameters.map((parameter) =>
+    parameter.index !== undefined
+      ? func.parameters[parameter.index].text
+      : parameter.pattern ?? "_",
+  );
+
+  const lastParameter = func.parameters[func.parameters.length - 1];
+
+  edits.push(
+    TextEdit.replace(
+      Range.create(
+        toPosition(functionName.endPosition),
+        toPosition((lastParameter ?? functionName).endPosition),
+      ),
+      patterns.map((pattern) => ` ${pattern}`).join(""),
+    ),
+  );
+
+  if (func.parameterTypes && func.returnType) {
+    const types = newParameters.map((parameter) =>
+      parameter.index !== undefined
+        ? func.parameterTypes?.[parameter.index].text
+        : parameter.type,
+    );
+
+    edits.push(
+      TextEdit.replace(
+        Range.create(
+          toPosition((func.parameterTypes[0] ?? func.returnType).startPosition),
+          toPosition(func.returnType.startPosition),
+        ),
+        types.map((type) => `${type ?? "a"} -> `).join(""),
+      ),
+    );
+  }
+
+  return edits;
+}
+
+/**
+ * Rewrite the applications of the function in a file.
+ * Calls can be nested in the arguments of other calls, so those are rewritten first.
+ */
+function getCallEdits(
+  program: IProgram,
+  sourceFile: ISourceFile,
+  valueExprs: SyntaxNode[],
+  oldParameters: SyntaxNode[],
+  newParameters: IChangedParameter[],
+): TextEdit[] {
+  const replacements: ITextReplacement[] = [];
+  const contains = (outer: SyntaxNode, inner: SyntaxNode): boolean =>
+    outer.startIndex <= inner.startIndex && outer.endIndex >= inner.endIndex;
+  const imports = program.getTypeChecker().getAllImports(sourceFile);
+
+  valueExprs
+    .map((valueExpr) => ({
+      valueExpr,
+      replacedNode: getReplacedNode(valueExpr),
+    }))
+    .sort(
+      (a, b) =>
+        a.replacedNode.endIndex -
+        a.replacedNode.startIndex -
+        (b.replacedNode.endIndex - b.replacedNode.startIndex),
+    )
+    .forEach(({ valueExpr, replacedNode }) => {
+      const namesInScope = TreeUtils.getNamesInScope(replacedNode, sourceFile);
+
+      replacements.push({
+        node: replacedNode,
+        text: getCallText(
+          valueExpr,
+          oldParameters,
+          newParameters,
+          (arg) =>
+            replaceInText(
+              arg,
+              replacements.filter((replacement) =>
+                contains(arg, replacement.node),
+              ),
+            ),
+          (name) =>
+            namesInScope.has(name) ||
+            imports.getVar(name).length > 0 ||
+            CodeGenUtils.isReservedWord(name),
+        ),
+      });
+    });
+
+  return replacements
+    .filter(
+      (replacement) =>
+        !replacements.some(
+          (other) =>
+            other !== replacement && contains(other.node, replacement.node),
+        ),
+    )
+    .map((replacement) =>
+      TextEdit.replace(
+        Range.create(
+          toPosition(replacement.node.startPosition),
+          toPosition(replacement.node.endPosition),
+        ),
+        replacement.text,
+      ),
+    );
+}
+
+function getReplacedNode(valueExpr: SyntaxNode): SyntaxNode {
+  const call = valueExpr.parent;
+
+  return call?.type === "function_call_expr" &&
+    call.childForFieldName("target")?.id === valueExpr.id
+    ? call
+    : valueExpr;
+}
+
+/**
+ * Get the application of the function with the new arguments.
+ * If the function is partially applied and the remaining parameters changed, it is wrapped in a lambda.
+ */
+function getCallText(
+  valueExpr: SyntaxNode,
+  oldParameters: SyntaxNode[],
+  newParameters: IChangedParameter[],
+  getArgumentText: (arg: SyntaxNode) => string,
+  isNameUsed: (name: string) => boolean,
+): string {
+  const call = getReplacedNode(valueExpr);
+  const isCallTarget = call.id !== valueExpr.id;
+
+  const args = isCallTarget
+    ? call.namedChildren.slice(1).filter((arg) => !arg.type.includes("comment"))
+    : [];
+  const appliedCount = Math.min(args.length, oldParameters.length);
+  const extraArgs = args.slice(oldParameters.length).map(getArgumentText);
+
+  const firstUnapplied = newParameters.findIndex(
+    (parameter) =>
+      parameter.index !== undefined && parameter.index >= appliedCount,
+  );
+  const unapplied =
+    firstUnapplied >= 0 ? newParameters.slice(firstUnapplied) : [];
+
+  // The remaining parameters are still applied in the same order, for example in a pipeline
+  const isPartialApplication =
+    unapplied.length === oldParameters.length - appliedCount &&
+    unapplied.every((parameter, i) => parameter.index === appliedCount + i);
+
+  // The lambda parameters can't shadow or capture the names at the call site
+  const lambdaParameters: string[] = [];
+  oldParameters
+    .slice(appliedCount)
+    .forEach((parameter, i) =>
+      lambdaParameters.push(
+        CodeGenUtils.getUniqueName(
+          parameter.type === "lower_pattern"
+            ? parameter.text
+            : `arg${appliedCount + i + 1}`,
+          (candidate) =>
+            isNameUsed(candidate) || lambdaParameters.includes(candidate),
+        ),
+      ),
+    );
+
+  const getArgument = (parameter: IChangedParameter): string => {
+    if (parameter.index === undefined) {
+      return CodeGenUtils.parenthesize(
+        parameter.defaultValue ?? `Debug.todo "${parameter.pattern ?? ""}"`,
+      );
+    }
+
+    return parameter.index < appliedCount
+      ? getArgumentText(args[parameter.index])
+      : lambdaParameters[parameter.index - appliedCount];
+  };
+
+  const appliedParameters = isPartialApplication
+    ? newParameters.slice(0, firstUnapplied >= 0 ? firstUnapplied : undefined)
+    : newParameters;
+
+  const text = [
+    valueExpr.text,
+    ...appliedParameters.map(getArgument),
+    ...extraArgs,
+  ].join(" ");
+
+  if (!isPartialApplication) {
+    const lambdaPatterns = lambdaParameters.map((lambdaParameter, i) =>
+      newParameters.some((parameter) => parameter.index === appliedCount + i)
+        ? lambdaParameter
+        : "_",
+    );
+
+    const lambda = `\\${lambdaPatterns.join(" ")} -> ${text}`;
+
+    return call.parent?.type === "parenthesized_expr" ? lambda : `(${lambda})`;
+  }
+
+  const parent = call.parent;
+  if (
+    !isCallTarget &&
+    appliedParameters.length > 0 &&
+    (parent?.type === "function_call_expr" ||
+      parent?.type === "field_access_expr")
+  ) {
+    return `(${text})`;
+  }
+
+  return text;
+}
+
+function toPosition(point: { row: number; column: number }): Position {
+  return Position.create(point.row, point.column);
+}
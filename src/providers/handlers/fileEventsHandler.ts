@@ -27,6 +27,9 @@ import {
 import { RenameProvider } from "../renameProvider";
 
 export class FileEventsHandler {
+  // Files created by the server that already have a module declaration
+  private static pendingCreates = new Set<string>();
+
   private connection: Connection;
   private astProvider: ASTProvider;
 
@@ -81,10 +84,23 @@ export class FileEventsHandler {
     });
   }
 
+  public static addPendingCreate(uri: string): void {
+    FileEventsHandler.pendingCreates.add(uri);
+  }
+
+  // Not every client sends the create event, so the server clears it once its edit is applied
+  public static removePendingCreate(uri: string): void {
+    FileEventsHandler.pendingCreates.delete(uri);
+  }
+
   private onDidCreateFile({
     uri,
     program,
   }: ICreateFileParams): TextEdit[] | undefined {
+    if (FileEventsHandler.pendingCreates.delete(uri)) {
+      return;
+    }
+
     const moduleName = this.getModuleNameFromFile(uri, program);
 
     if (moduleName) {
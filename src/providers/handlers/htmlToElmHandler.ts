@@ -0,0 +1,45 @@
+import { container } from "tsyringe";
+import { Connection, ResponseError } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { HtmlToElmRequest, IHtmlToElmParams } from "../../protocol";
+import { ElmWorkspaceMatcher } from "../../util/elmWorkspaceMatcher";
+import { HtmlToElm } from "../../util/htmlToElm";
+
+export class HtmlToElmHandler {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve("Connection");
+    this.connection.onRequest(
+      HtmlToElmRequest,
+      new ElmWorkspaceMatcher((params: IHtmlToElmParams) =>
+        URI.parse(params.sourceUri),
+      ).handle(this.handleHtmlToElmRequest.bind(this)),
+    );
+  }
+
+  private async handleHtmlToElmRequest(
+    params: IHtmlToElmParams,
+  ): Promise<void> {
+    let edits;
+    try {
+      edits = HtmlToElm.getEdits(
+        params.html,
+        params.program,
+        params.sourceFile,
+        params.params.range,
+      );
+    } catch (error) {
+      throw new ResponseError(
+        1,
+        `Could not convert the HTML: ${(error as Error).message}`,
+      );
+    }
+
+    await this.connection.workspace.applyEdit({
+      changes: {
+        [params.sourceUri]: edits,
+      },
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { container } from "tsyringe";
+import { Connection, ResponseError } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { IJsonToElmParams, JsonToElmRequest } from "../../protocol";
+import { ElmWorkspaceMatcher } from "../../util/elmWorkspaceMatcher";
+import { JsonToElm } from "../../util/jsonToElm";
+
+export class JsonToElmHandler {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve("Connection");
+    this.connection.onRequest(
+      JsonToElmRequest,
+      new ElmWorkspaceMatcher((params: IJsonToElmParams) =>
+        URI.parse(params.sourceUri),
+      ).handle(this.handleJsonToElmRequest.bind(this)),
+    );
+  }
+
+  private async handleJsonToElmRequest(
+    params: IJsonToElmParams,
+  ): Promise<void> {
+    let edits;
+    try {
+      edits = JsonToElm.getEdits(
+        params.json,
+        params.name ?? "Root",
+        params.sourceFile,
+        params.params.range.start,
+      );
+    } catch (error) {
+      throw new ResponseError(
+        1,
+        `Could not generate types from the JSON: ${(error as Error).message}`,
+      );
+    }
+
+    await this.connection.workspace.applyEdit({
+      changes: {
+        [params.sourceUri]: edits,
+      },
+    });
+  }
+}
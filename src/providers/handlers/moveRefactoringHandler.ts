@@ -1,17 +1,54 @@
 import { container } from "tsyringe";
-import { Connection, Position, Range, TextEdit } from "vscode-languageserver";
+import {
+  Connection,
+  CreateFile,
+  OptionalVersionedTextDocumentIdentifier,
+  Position,
+  Range,
+  ResponseError,
+  TextDocumentEdit,
+  TextEdit,
+} from "vscode-languageserver";
 import { URI } from "vscode-uri";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISourceFile } from "../../compiler/forest";
+import { IProgram } from "../../compiler/program";
 import {
   GetMoveDestinationRequest,
   IMoveDestination,
   IMoveDestinationsResponse,
   IMoveParams,
+  ISplitModuleParams,
   MoveRequest,
+  SplitModuleRequest,
 } from "../../protocol";
 import { ElmWorkspaceMatcher } from "../../util/elmWorkspaceMatcher";
+import { OrganizeImports } from "../../util/organizeImports";
+import * as path from "../../util/path";
 import { RefactorEditUtils } from "../../util/refactorEditUtils";
 import { References } from "../../compiler/references";
 import { TreeUtils } from "../../util/treeUtils";
+import { FileEventsHandler } from "./fileEventsHandler";
+
+interface IDeclarationReference {
+  uri: string;
+  // The value_qid or upper_case_qid of the reference
+  node: SyntaxNode;
+  // The top level declaration that is referenced
+  declaration: SyntaxNode;
+  qualifier?: string;
+  isConstructor: boolean;
+}
+
+interface ITopLevelDeclaration {
+  // The names of the declaration and of its constructors
+  names: string[];
+  declaration: SyntaxNode;
+  // The doc comment, type annotation and declaration
+  nodes: SyntaxNode[];
+  // The unqualified names used by the declaration
+  usedNames: Set<string>;
+}
 
 export class MoveRefactoringHandler {
   private connection: Connection;
@@ -31,6 +68,13 @@ export class MoveRefactoringHandler {
         URI.parse(param.sourceUri),
       ).handle(this.handleMoveRequest.bind(this)),
     );
+
+    this.connection.onRequest(
+      SplitModuleRequest,
+      new ElmWorkspaceMatcher((param: ISplitModuleParams) =>
+        URI.parse(param.sourceUri),
+      ).handle(this.handleSplitModuleRequest.bind(this)),
+    );
   }
 
   private handleGetMoveDestinationsRequest(
@@ -74,6 +118,15 @@ export class MoveRefactoringHandler {
         params.params.range.start,
       );
 
+      if (
+        (nodeAtPosition.parent?.type === "type_declaration" ||
+          nodeAtPosition.parent?.type === "type_alias_declaration") &&
+        nodeAtPosition.parent.childForFieldName("name")?.id ===
+          nodeAtPosition.id
+      ) {
+        return this.moveType(params, params.destination, nodeAtPosition.parent);
+      }
+
       const isTypeNode = nodeAtPosition.parent?.type === "type_annotation";
       const isDeclarationNode =
         nodeAtPosition.parent?.parent?.type === "value_declaration";
@@ -273,4 +326,857 @@ export class MoveRefactoringHandler {
       }
     }
   }
+
+  private async moveType(
+    params: IMoveParams,
+    destination: IMoveDestination,
+    declarationNode: SyntaxNode,
+  ): Promise<void> {
+    const program = params.program;
+    const sourceFile = params.sourceFile;
+    const destinationFile = program.getForest().getByUri(destination.uri);
+
+    const typeName = declarationNode.childForFieldName("name")?.text;
+    const moduleName = TreeUtils.getModuleNameNode(sourceFile.tree)?.text;
+    const destinationModuleName =
+      destinationFile &&
+      TreeUtils.getModuleNameNode(destinationFile.tree)?.text;
+
+    if (
+      !destinationFile ||
+      !typeName ||
+      !moduleName ||
+      !destinationModuleName
+    ) {
+      return;
+    }
+
+    const isCustomType = declarationNode.type === "type_declaration";
+    const constructorNames = isCustomType
+      ? declarationNode.namedChildren
+          .filter((child) => child.type === "union_variant")
+          .map((variant) => variant.childForFieldName("name")?.text ?? "")
+      : [];
+
+    const destinationSymbols = destinationFile.symbolLinks?.get(
+      destinationFile.tree.rootNode,
+    );
+    const conflict = [typeName, ...constructorNames].find(
+      (name) =>
+        !!destinationSymbols?.get(
+          name,
+          (symbol) =>
+            symbol.type === "Type" ||
+            symbol.type === "TypeAlias" ||
+            symbol.type === "UnionConstructor",
+        ),
+    );
+
+    if (conflict) {
+      throw new ResponseError(
+        1,
+        `\`${destinationModuleName}\` already contains \`${conflict}\``,
+      );
+    }
+
+    const references = this.findReferences(
+      program,
+      [declarationNode],
+      [declarationNode],
+    );
+    const dependencies = this.findTypeDependencies(
+      sourceFile,
+      declarationNode,
+      typeName,
+    );
+
+    // Every module that uses the type will import the destination,
+    // and the destination will import the source if it needs its types
+    const sourceNeedsDestination = references.some(
+      (ref) => ref.uri === sourceFile.uri,
+    );
+    const destinationNeedsSource = dependencies.length > 0;
+    const referencingModules = new Set(
+      references
+        .filter((ref) => ref.uri !== destination.uri)
+        .map((ref) => program.getSourceFile(ref.uri)?.moduleName),
+    );
+
+    if (
+      (sourceNeedsDestination && destinationNeedsSource) ||
+      Array.from(referencingModules).some(
+        (referencingModule) =>
+          !!referencingModule &&
+          this.importsModule(program, destinationFile, referencingModule),
+      ) ||
+      (destinationNeedsSource &&
+        this.importsModule(program, sourceFile, destinationModuleName))
+    ) {
+      throw new ResponseError(
+        1,
+        `Moving \`${typeName}\` to \`${destinationModuleName}\` would create an import cycle`,
+      );
+    }
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    const addChange = (uri: string, edit: TextEdit | undefined): void => {
+      if (edit) {
+        changes[uri] = [...(changes[uri] ?? []), edit];
+      }
+    };
+
+    const commentNode =
+      declarationNode.previousNamedSibling?.type === "block_comment"
+        ? declarationNode.previousNamedSibling
+        : undefined;
+    // Also remove the blank lines above the declaration
+    const startPosition =
+      (commentNode ?? declarationNode).previousSibling?.endPosition ??
+      (commentNode ?? declarationNode).startPosition;
+    const endPosition = declarationNode.endPosition;
+    const comment = commentNode ? `${commentNode.text}\n` : "";
+
+    // Move the declaration
+    addChange(
+      sourceFile.uri,
+      TextEdit.del(
+        Range.create(
+          Position.create(startPosition.row, startPosition.column),
+          Position.create(endPosition.row, endPosition.column),
+        ),
+      ),
+    );
+    const lastNode = destinationFile.tree.rootNode.lastNamedChild;
+    addChange(
+      destination.uri,
+      TextEdit.insert(
+        lastNode
+          ? Position.create(
+              lastNode.endPosition.row,
+              lastNode.endPosition.column,
+            )
+          : Position.create(destinationFile.tree.rootNode.endPosition.row, 0),
+        `\n\n\n${comment}${declarationNode.text}`,
+      ),
+    );
+
+    // Update the exposing lists of both modules
+    const exposedSymbol = sourceFile.exposing?.get(typeName);
+    const externalReferences = references.filter(
+      (ref) => ref.uri !== destination.uri,
+    );
+
+    addChange(
+      sourceFile.uri,
+      RefactorEditUtils.unexposedValueInModule(sourceFile.tree, typeName),
+    );
+
+    if (exposedSymbol || externalReferences.length > 0) {
+      const exposeConstructors =
+        isCustomType &&
+        (!!exposedSymbol?.constructors?.length ||
+          externalReferences.some((ref) => ref.isConstructor));
+
+      addChange(
+        destination.uri,
+        RefactorEditUtils.exposeValueInModule(
+          destinationFile.tree,
+          exposeConstructors ? `${typeName}(..)` : typeName,
+        ),
+      );
+    }
+
+    // The destination needs to import the types the declaration depends on
+    if (destinationNeedsSource) {
+      const unexposedDependencies = dependencies.filter(
+        (dependency) => !sourceFile.exposing?.has(dependency),
+      );
+
+      if (unexposedDependencies.length > 0) {
+        addChange(
+          sourceFile.uri,
+          RefactorEditUtils.exposeValueInModule(
+            sourceFile.tree,
+            unexposedDependencies.join(", "),
+          ),
+        );
+      }
+
+      addChange(
+        destination.uri,
+        RefactorEditUtils.exposeValueInImport(
+          destinationFile.tree,
+          moduleName,
+          dependencies.join(", "),
+        ),
+      );
+    }
+
+    // The destination also needs the other imports the declaration uses
+    OrganizeImports.getAddUsedImportsEdits(
+      program,
+      sourceFile,
+      [declarationNode],
+      destinationFile.tree,
+    ).forEach((edit) => addChange(destination.uri, edit));
+
+    // The files that use other declarations of the source keep importing it
+    const otherDeclarations = this.getTopLevelDeclarations(sourceFile)
+      .map(({ declaration }) => declaration)
+      .filter((declaration) => declaration.id !== declarationNode.id);
+    const sourceUsers = new Set(
+      this.findReferences(program, otherDeclarations, []).map((ref) => ref.uri),
+    );
+
+    // Update the references and imports of every file that uses the type
+    new Set(references.map((ref) => ref.uri)).forEach((uri) => {
+      const refTree = program.getForest().getTree(uri);
+
+      if (!refTree) {
+        return;
+      }
+
+      const fileReferences = references.filter((ref) => ref.uri === uri);
+
+      // The import is removed if it only exposed the type, or everything
+      const exposing = TreeUtils.findImportClauseByName(
+        refTree,
+        moduleName,
+      )?.childForFieldName("exposing");
+      const exposesOthers =
+        !!exposing &&
+        !exposing.childForFieldName("doubleDot") &&
+        exposing.namedChildren.some(
+          (child) =>
+            (child.type === "exposed_value" ||
+              child.type === "exposed_type" ||
+              child.type === "exposed_operator") &&
+            (child.firstNamedChild?.text ?? child.text) !== typeName,
+        );
+
+      addChange(
+        uri,
+        uri === sourceFile.uri ||
+          sourceUsers.has(uri) ||
+          exposesOthers ||
+          (uri === destination.uri && destinationNeedsSource)
+          ? RefactorEditUtils.removeValueFromImport(
+              refTree,
+              moduleName,
+              typeName,
+            )
+          : RefactorEditUtils.removeImport(refTree, moduleName),
+      );
+
+      if (uri === destination.uri) {
+        fileReferences
+          .filter((ref) => ref.qualifier)
+          .forEach((ref) =>
+            addChange(uri, RefactorEditUtils.changeQualifier(ref.node)),
+          );
+        return;
+      }
+
+      const qualifier =
+        TreeUtils.findImportAliasOfModule(destinationModuleName, refTree) ??
+        destinationModuleName;
+
+      fileReferences
+        .filter((ref) => ref.qualifier)
+        .forEach((ref) =>
+          addChange(
+            uri,
+            RefactorEditUtils.changeQualifier(ref.node, qualifier),
+          ),
+        );
+
+      const unqualifiedReferences = fileReferences.filter(
+        (ref) => !ref.qualifier,
+      );
+
+      addChange(
+        uri,
+        RefactorEditUtils.exposeValueInImport(
+          refTree,
+          destinationModuleName,
+          unqualifiedReferences.length === 0
+            ? undefined
+            : isCustomType &&
+              unqualifiedReferences.some((ref) => ref.isConstructor)
+            ? `${typeName}(..)`
+            : typeName,
+        ),
+      );
+    });
+
+    await this.connection.workspace.applyEdit({ changes });
+  }
+
+  /**
+   * Move the selected top level declarations, and the private helpers only
+   * they use, to a new module
+   */
+  private async handleSplitModuleRequest(
+    params: ISplitModuleParams,
+  ): Promise<void> {
+    const program = params.program;
+    const sourceFile = params.sourceFile;
+    const moduleName = TreeUtils.getModuleNameNode(sourceFile.tree)?.text;
+    const newModuleName = params.moduleName;
+
+    if (!moduleName) {
+      return;
+    }
+
+    if (!/^[A-Z][A-Za-z0-9_]*(\.[A-Z][A-Za-z0-9_]*)*$/.test(newModuleName)) {
+      throw new ResponseError(1, `\`${newModuleName}\` is not a module name`);
+    }
+
+    if (program.getSourceFileOfImportableModule(sourceFile, newModuleName)) {
+      throw new ResponseError(1, `Module \`${newModuleName}\` already exists`);
+    }
+
+    const sourceDirectory =
+      params.sourceDirectory !== undefined
+        ? URI.parse(params.sourceDirectory).fsPath
+        : program.getSourceDirectoryOfFile(URI.parse(sourceFile.uri).fsPath);
+
+    if (!sourceDirectory) {
+      return;
+    }
+
+    const newUri = URI.file(
+      path.join(sourceDirectory, ...newModuleName.split(".")) + ".elm",
+    ).toString();
+
+    const range = params.params.range;
+    const declarations = this.getTopLevelDeclarations(sourceFile);
+    const selected = declarations.filter(
+      ({ nodes, declaration }) =>
+        declaration.type !== "port_annotation" &&
+        nodes[0].startPosition.row <= range.end.line &&
+        declaration.endPosition.row >= range.start.line,
+    );
+
+    if (selected.length === 0) {
+      return;
+    }
+
+    // Add the private helpers that are only used by the moved declarations
+    const moved = new Set(selected);
+    let foundHelper = true;
+    while (foundHelper) {
+      foundHelper = false;
+
+      declarations.forEach((declaration) => {
+        const users = declarations.filter(
+          (user) =>
+            user !== declaration &&
+            declaration.names.some((name) => user.usedNames.has(name)),
+        );
+
+        if (
+          !moved.has(declaration) &&
+          declaration.declaration.type !== "port_annotation" &&
+          !declaration.names.some((name) => sourceFile.exposing?.has(name)) &&
+          users.length > 0 &&
+          users.every((user) => moved.has(user))
+        ) {
+          moved.add(declaration);
+          foundHelper = true;
+        }
+      });
+    }
+
+    const movedDeclarations = declarations.filter((declaration) =>
+      moved.has(declaration),
+    );
+    const movedNames = new Set(
+      movedDeclarations.flatMap((declaration) => declaration.names),
+    );
+
+    // The declarations of the source module the new module depends on
+    const dependencies = declarations
+      .filter((declaration) => !moved.has(declaration))
+      .map((declaration) => {
+        const usedNames = declaration.names.filter((name) =>
+          movedDeclarations.some((movedDeclaration) =>
+            movedDeclaration.usedNames.has(name),
+          ),
+        );
+
+        return usedNames.length === 0
+          ? undefined
+          : usedNames.some((name) => name !== declaration.names[0])
+          ? `${declaration.names[0]}(..)`
+          : declaration.names[0];
+      })
+      .filter((value): value is string => !!value);
+
+    const references = this.findReferences(
+      program,
+      movedDeclarations.map(({ declaration }) => declaration),
+      movedDeclarations.flatMap(({ nodes }) => nodes),
+    );
+
+    if (
+      dependencies.length > 0 &&
+      references.some((ref) => ref.uri === sourceFile.uri)
+    ) {
+      throw new ResponseError(
+        1,
+        `Moving the declarations to \`${newModuleName}\` would create an import cycle`,
+      );
+    }
+
+    const getExposedName = (
+      declaration: SyntaxNode,
+      refs: IDeclarationReference[],
+    ): string => {
+      const name = declaration.childForFieldName("name")?.text ?? "";
+
+      return declaration.type === "type_declaration" &&
+        (!!sourceFile.exposing?.get(name)?.constructors?.length ||
+          refs.some((ref) => ref.isConstructor))
+        ? `${name}(..)`
+        : declaration.type === "value_declaration"
+        ? TreeUtils.getFunctionNameNodeFromDefinition(declaration)?.text ?? ""
+        : name;
+    };
+
+    // The new module exposes the selected declarations
+    const newModuleExposing = selected.map(({ declaration }) =>
+      getExposedName(
+        declaration,
+        references.filter((ref) => ref.declaration.id === declaration.id),
+      ),
+    );
+
+    const imports = OrganizeImports.getUsedImports(
+      program,
+      sourceFile,
+      movedDeclarations.flatMap(({ nodes }) => nodes),
+    );
+    if (dependencies.length > 0) {
+      imports.push(
+        `import ${moduleName} exposing (${dependencies.join(", ")})`,
+      );
+      imports.sort();
+    }
+
+    const newModuleText = [
+      `module ${newModuleName} exposing (${newModuleExposing.join(", ")})`,
+      ...(imports.length > 0 ? [imports.join("\n")] : []),
+    ]
+      .join("\n\n")
+      .concat("\n\n\n")
+      .concat(
+        movedDeclarations
+          .map(({ nodes }) => nodes.map((node) => node.text).join("\n"))
+          .join("\n\n\n"),
+      )
+      .concat("\n");
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    const addChange = (uri: string, edit: TextEdit | undefined): void => {
+      if (edit) {
+        changes[uri] = [...(changes[uri] ?? []), edit];
+      }
+    };
+
+    // Remove the declarations and the blank lines above them
+    movedDeclarations.forEach(({ nodes, declaration }) => {
+      const start =
+        nodes[0].previousSibling?.endPosition ?? nodes[0].startPosition;
+
+      addChange(
+        sourceFile.uri,
+        TextEdit.del(
+          Range.create(
+            Position.create(start.row, start.column),
+            Position.create(
+              declaration.endPosition.row,
+              declaration.endPosition.column,
+            ),
+          ),
+        ),
+      );
+    });
+
+    // Unexpose the moved declarations and expose the dependencies
+    const exposingList = TreeUtils.findModuleDeclaration(
+      sourceFile.tree,
+    )?.childForFieldName("exposing");
+
+    if (exposingList && !exposingList.childForFieldName("doubleDot")) {
+      const exposed = new Map<string, string>();
+      exposingList.namedChildren
+        .filter(
+          (child) =>
+            child.type === "exposed_value" ||
+            child.type === "exposed_type" ||
+            child.type === "exposed_operator",
+        )
+        .forEach((child) =>
+          exposed.set(child.firstNamedChild?.text ?? child.text, child.text),
+        );
+
+      movedNames.forEach((name) => exposed.delete(name));
+      dependencies.forEach((dependency) => {
+        const name = dependency.replace("(..)", "");
+        if (!exposed.get(name)?.endsWith("(..)")) {
+          exposed.set(name, dependency);
+        }
+      });
+
+      if (exposed.size === 0) {
+        throw new ResponseError(
+          1,
+          `\`${moduleName}\` would not expose anything after moving the declarations`,
+        );
+      }
+
+      addChange(
+        sourceFile.uri,
+        TextEdit.replace(
+          Range.create(
+            Position.create(
+              exposingList.startPosition.row,
+              exposingList.startPosition.column,
+            ),
+            Position.create(
+              exposingList.endPosition.row,
+              exposingList.endPosition.column,
+            ),
+          ),
+          `exposing (${Array.from(exposed.values()).join(", ")})`,
+        ),
+      );
+    }
+
+    // Update the references and imports of every file that uses the declarations
+    new Set(references.map((ref) => ref.uri)).forEach((uri) => {
+      const refTree = program.getForest().getTree(uri);
+
+      if (!refTree) {
+        return;
+      }
+
+      const fileReferences = references.filter((ref) => ref.uri === uri);
+      const unqualifiedDeclarations = new Map<
+        number,
+        IDeclarationReference[]
+      >();
+
+      fileReferences.forEach((ref) => {
+        if (ref.qualifier) {
+          addChange(
+            uri,
+            RefactorEditUtils.changeQualifier(ref.node, newModuleName),
+          );
+        } else {
+          unqualifiedDeclarations.set(ref.declaration.id, [
+            ...(unqualifiedDeclarations.get(ref.declaration.id) ?? []),
+            ref,
+          ]);
+        }
+      });
+
+      const exposing = Array.from(
+        unqualifiedDeclarations.values(),
+      ).map((refs) => getExposedName(refs[0].declaration, refs));
+
+      addChange(
+        uri,
+        RefactorEditUtils.removeValuesFromImport(
+          refTree,
+          moduleName,
+          exposing.map((name) => name.replace("(..)", "")),
+        ),
+      );
+      addChange(
+        uri,
+        RefactorEditUtils.addImport(
+          refTree,
+          newModuleName,
+          exposing.length > 0 ? exposing.join(", ") : undefined,
+        ),
+      );
+    });
+
+    FileEventsHandler.addPendingCreate(newUri);
+
+    try {
+      await this.connection.workspace.applyEdit({
+        documentChanges: [
+          CreateFile.create(newUri),
+          TextDocumentEdit.create(
+            OptionalVersionedTextDocumentIdentifier.create(newUri, null),
+            [TextEdit.insert(Position.create(0, 0), newModuleText)],
+          ),
+          ...Object.entries(changes).map(([uri, edits]) =>
+            TextDocumentEdit.create(
+              OptionalVersionedTextDocumentIdentifier.create(uri, null),
+              edits,
+            ),
+          ),
+        ],
+      });
+    } finally {
+      FileEventsHandler.removePendingCreate(newUri);
+    }
+  }
+
+  private getTopLevelDeclarations(
+    sourceFile: ISourceFile,
+  ): ITopLevelDeclaration[] {
+    const declarations: ITopLevelDeclaration[] = [];
+    let leadingNodes: SyntaxNode[] = [];
+
+    sourceFile.tree.rootNode.namedChildren.forEach((node) => {
+      let names: string[] = [];
+
+      switch (node.type) {
+        case "block_comment":
+          // The module documentation is not a doc comment of a declaration
+          leadingNodes =
+            node.text.startsWith("{-|") &&
+            node.previousNamedSibling?.type !== "module_declaration"
+              ? [node]
+              : [];
+          return;
+
+        case "type_annotation":
+          leadingNodes = [...leadingNodes, node];
+          return;
+
+        case "value_declaration":
+          names = [
+            TreeUtils.getFunctionNameNodeFromDefinition(node)?.text ?? "",
+          ];
+          break;
+
+        case "type_declaration":
+          names = [
+            node.childForFieldName("name")?.text ?? "",
+            ...node.namedChildren
+              .filter((child) => child.type === "union_variant")
+              .map((variant) => variant.childForFieldName("name")?.text ?? ""),
+          ];
+          break;
+
+        case "type_alias_declaration":
+          names = [node.childForFieldName("name")?.text ?? ""];
+          break;
+
+        case "port_annotation":
+          names = [
+            TreeUtils.findFirstNamedChildOfType("lower_case_identifier", node)
+              ?.text ?? "",
+          ];
+          break;
+
+        default:
+          leadingNodes = [];
+          return;
+      }
+
+      const nodes = [...leadingNodes, node];
+      leadingNodes = [];
+
+      declarations.push({
+        names,
+        declaration: node,
+        nodes,
+        usedNames: new Set(),
+      });
+    });
+
+    // Elm doesn't allow shadowing, so unqualified names are top level names
+    const topLevelNames = new Set(declarations.flatMap(({ names }) => names));
+    declarations.forEach((declaration) =>
+      declaration.nodes.forEach((node) =>
+        node
+          .descendantsOfType(["value_qid", "upper_case_qid"])
+          .forEach((qid) => {
+            if (
+              qid.namedChildren.length === 1 &&
+              topLevelNames.has(qid.text) &&
+              !declaration.names.includes(qid.text)
+            ) {
+              declaration.usedNames.add(qid.text);
+            }
+          }),
+      ),
+    );
+
+    return declarations;
+  }
+
+  /**
+   * Find the references to top level declarations and the constructors of
+   * types, outside of the moved nodes
+   */
+  private findReferences(
+    program: IProgram,
+    declarationNodes: SyntaxNode[],
+    movedNodes: SyntaxNode[],
+  ): IDeclarationReference[] {
+    const checker = program.getTypeChecker();
+    const declarationUri = declarationNodes[0]?.tree.uri;
+    const declarations = new Map<number, SyntaxNode>(
+      declarationNodes.map((node) => [node.id, node]),
+    );
+    const references: IDeclarationReference[] = [];
+
+    program.getForest().treeMap.forEach((sourceFile) => {
+      if (!sourceFile.writeable) {
+        return;
+      }
+
+      const treeCursor = sourceFile.tree.rootNode.walk();
+
+      const traverse = (): void => {
+        const node = treeCursor.currentNode();
+
+        switch (node.type) {
+          case "module_declaration":
+          case "import_clause":
+            return;
+
+          case "value_qid":
+          case "upper_case_qid": {
+            const isMoved =
+              sourceFile.uri === declarationUri &&
+              movedNodes.some(
+                (movedNode) =>
+                  node.startIndex >= movedNode.startIndex &&
+                  node.endIndex <= movedNode.endIndex,
+              );
+            const identifiers = node.namedChildren.filter(
+              (child) =>
+                child.type === "upper_case_identifier" ||
+                child.type === "lower_case_identifier",
+            );
+            const nameNode = identifiers[identifiers.length - 1];
+
+            if (!isMoved && nameNode) {
+              const symbol = checker.findDefinition(nameNode, sourceFile)
+                .symbol;
+              const declaration =
+                symbol?.node.tree.uri === declarationUri
+                  ? declarations.get(symbol.node.id) ??
+                    declarations.get(symbol.node.parent?.id ?? -1)
+                  : undefined;
+
+              if (symbol && declaration) {
+                references.push({
+                  uri: sourceFile.uri,
+                  node,
+                  declaration,
+                  qualifier:
+                    identifiers.length > 1
+                      ? identifiers
+                          .slice(0, -1)
+                          .map((identifier) => identifier.text)
+                          .join(".")
+                      : undefined,
+                  isConstructor: symbol.type === "UnionConstructor",
+                });
+              }
+            }
+            return;
+          }
+        }
+
+        if (treeCursor.gotoFirstChild()) {
+          do {
+            traverse();
+          } while (treeCursor.gotoNextSibling());
+
+          treeCursor.gotoParent();
+        }
+      };
+
+      traverse();
+      treeCursor.delete();
+    });
+
+    return references;
+  }
+
+  /**
+   * Find the other top level types of the module used by a type declaration
+   */
+  private findTypeDependencies(
+    sourceFile: ISourceFile,
+    declarationNode: SyntaxNode,
+    typeName: string,
+  ): string[] {
+    const rootSymbols = sourceFile.symbolLinks?.get(sourceFile.tree.rootNode);
+    const dependencies = new Set<string>();
+
+    declarationNode.descendantsOfType("upper_case_qid").forEach((qid) => {
+      if (qid.namedChildren.length !== 1 || qid.text === typeName) {
+        return;
+      }
+
+      if (
+        rootSymbols?.get(
+          qid.text,
+          (symbol) => symbol.type === "Type" || symbol.type === "TypeAlias",
+        )
+      ) {
+        dependencies.add(qid.text);
+      }
+    });
+
+    return Array.from(dependencies);
+  }
+
+  /**
+   * Check if a module imports another module, directly or transitively
+   */
+  private importsModule(
+    program: IProgram,
+    sourceFile: ISourceFile,
+    moduleName: string,
+  ): boolean {
+    const visited = new Set<string>();
+    const toVisit = [sourceFile];
+
+    let current: ISourceFile | undefined;
+    while ((current = toVisit.pop())) {
+      if (visited.has(current.uri)) {
+        continue;
+      }
+      visited.add(current.uri);
+
+      for (const importClause of TreeUtils.findAllImportClauseNodes(
+        current.tree,
+      ) ?? []) {
+        const importedModuleName = importClause.childForFieldName("moduleName")
+          ?.text;
+
+        if (!importedModuleName) {
+          continue;
+        }
+
+        if (importedModuleName === moduleName) {
+          return true;
+        }
+
+        // Package modules can't import the modules of the project
+        const importedFile = program.getSourceFileOfImportableModule(
+          current,
+          importedModuleName,
+        );
+        if (importedFile?.writeable) {
+          toVisit.push(importedFile);
+        }
+      }
+    }
+
+    return false;
+  }
 }
@@ -0,0 +1,492 @@
+import { container } from "tsyringe";
+import {
+  Connection,
+  DeleteFile,
+  Location,
+  Position,
+  Range,
+  ResponseError,
+  TextEdit,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISymbol } from "../../compiler/binder";
+import { ISourceFile } from "../../compiler/forest";
+import { PatternMatches } from "../../compiler/patternMatches";
+import { IProgram } from "../../compiler/program";
+import { References } from "../../compiler/references";
+import {
+  ISafeDeleteParams,
+  ISafeDeleteResponse,
+  SafeDeleteRequest,
+} from "../../protocol";
+import { ElmWorkspaceMatcher } from "../../util/elmWorkspaceMatcher";
+import { RefactorEditUtils } from "../../util/refactorEditUtils";
+import { Settings } from "../../util/settings";
+import { TreeUtils } from "../../util/treeUtils";
+
+export interface ISafeDeleteTarget {
+  symbol: ISymbol;
+  // The node that is deleted, references inside of it don't prevent the deletion
+  node: SyntaxNode;
+}
+
+export class SafeDeleteHandler {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve("Connection");
+    this.connection.onRequest(
+      SafeDeleteRequest,
+      new ElmWorkspaceMatcher((params: ISafeDeleteParams) =>
+        URI.parse(params.sourceUri),
+      ).handle(this.handleSafeDeleteRequest.bind(this)),
+    );
+  }
+
+  private async handleSafeDeleteRequest(
+    params: ISafeDeleteParams,
+  ): Promise<ISafeDeleteResponse> {
+    const sourceFile = params.sourceFile;
+    const target = findSafeDeleteTarget(
+      params.program,
+      sourceFile,
+      TreeUtils.getNamedDescendantForPosition(
+        sourceFile.tree.rootNode,
+        params.params.range.start,
+      ),
+    );
+
+    if (!target) {
+      throw new ResponseError(1, "Nothing to delete at this position");
+    }
+
+    const { references, usages } = findSafeDeleteUsages(
+      params.program,
+      sourceFile,
+      target,
+    );
+
+    if (usages.length > 0) {
+      return {
+        usages: usages.map((ref) =>
+          Location.create(
+            ref.uri,
+            Range.create(
+              Position.create(
+                ref.node.startPosition.row,
+                ref.node.startPosition.column,
+              ),
+              Position.create(
+                ref.node.endPosition.row,
+                ref.node.endPosition.column,
+              ),
+            ),
+          ),
+        ),
+      };
+    }
+
+    if (target.symbol.type === "Module") {
+      if (!container.resolve<Settings>("Settings").canDeleteFiles) {
+        throw new ResponseError(
+          1,
+          "The client does not support deleting files",
+        );
+      }
+
+      await this.connection.workspace.applyEdit({
+        documentChanges: [DeleteFile.create(sourceFile.uri)],
+      });
+    } else {
+      const changes = getSafeDeleteEdits(
+        params.program,
+        sourceFile,
+        target,
+        references,
+      );
+
+      if (!changes) {
+        throw new ResponseError(
+          1,
+          `Can not delete \`${target.symbol.name}\`, it is the only constructor of its type`,
+        );
+      }
+
+      await this.connection.workspace.applyEdit({ changes });
+    }
+
+    return { usages: [] };
+  }
+}
+
+/**
+ * Find the top level function, type, constructor, record field of a type alias
+ * or module that can be deleted at the node
+ */
+export function findSafeDeleteTarget(
+  program: IProgram,
+  sourceFile: ISourceFile,
+  nodeAtPosition: SyntaxNode,
+): ISafeDeleteTarget | undefined {
+  // Creating the type checker binds the source files
+  program.getTypeChecker();
+
+  const parent = nodeAtPosition.parent;
+  const rootSymbols = sourceFile.symbolLinks?.get(sourceFile.tree.rootNode);
+
+  if (!parent) {
+    return;
+  }
+
+  if (
+    parent.type === "upper_case_qid" &&
+    parent.parent?.type === "module_declaration"
+  ) {
+    return {
+      symbol: { name: parent.text, node: parent.parent, type: "Module" },
+      node: sourceFile.tree.rootNode,
+    };
+  }
+
+  const isName = (node: SyntaxNode): boolean =>
+    node.childForFieldName("name")?.id === nodeAtPosition.id;
+
+  if (
+    nodeAtPosition.type === "lower_case_identifier" &&
+    (parent.type === "function_declaration_left" ||
+      parent.type === "type_annotation") &&
+    parent.firstNamedChild?.id === nodeAtPosition.id &&
+    (parent.type === "type_annotation" ? parent : parent.parent)?.parent
+      ?.type === "file"
+  ) {
+    const symbol = rootSymbols?.get(
+      nodeAtPosition.text,
+      (symbol) => symbol.type === "Function",
+    );
+
+    if (symbol?.node.parent) {
+      return { symbol, node: symbol.node.parent };
+    }
+  }
+
+  if (
+    (parent.type === "type_declaration" ||
+      parent.type === "type_alias_declaration") &&
+    isName(parent)
+  ) {
+    const symbol = rootSymbols?.get(
+      nodeAtPosition.text,
+      (symbol) => symbol.type === "Type" || symbol.type === "TypeAlias",
+    );
+
+    if (symbol) {
+      return { symbol, node: parent };
+    }
+  }
+
+  if (parent.type === "union_variant" && isName(parent)) {
+    return {
+      symbol: {
+        name: nodeAtPosition.text,
+        node: parent,
+        type: "UnionConstructor",
+      },
+      node: parent,
+    };
+  }
+
+  if (
+    parent.type === "field_type" &&
+    isName(parent) &&
+    TreeUtils.findParentOfType("type_alias_declaration", parent)
+  ) {
+    return {
+      symbol: { name: nodeAtPosition.text, node: parent, type: "FieldType" },
+      node: parent,
+    };
+  }
+}
+
+/**
+ * Find the references of the target and the ones that prevent deleting it,
+ * a record field can not be deleted while the record constructor is called
+ */
+export function findSafeDeleteUsages(
+  program: IProgram,
+  sourceFile: ISourceFile,
+  { symbol, node }: ISafeDeleteTarget,
+): {
+  references: { node: SyntaxNode; uri: string }[];
+  usages: { node: SyntaxNode; uri: string }[];
+} {
+  // The constructors of a type are deleted with it
+  const references = [
+    symbol,
+    ...(symbol.type === "Type" ? symbol.constructors ?? [] : []).map(
+      (constructor) => ({
+        ...constructor,
+        type: constructor.type as ISymbol["type"],
+      }),
+    ),
+  ].flatMap((definition) => References.find(definition, program));
+
+  const deletedNodes = [node, TreeUtils.getTypeAnnotation(node)].filter(
+    (deletedNode): deletedNode is SyntaxNode => !!deletedNode,
+  );
+  const usages = references.filter((ref) =>
+    symbol.type === "Module"
+      ? ref.uri !== sourceFile.uri
+      : !(
+          ref.uri === sourceFile.uri &&
+          deletedNodes.some(
+            (deletedNode) =>
+              ref.node.startIndex >= deletedNode.startIndex &&
+              ref.node.endIndex <= deletedNode.endIndex,
+          )
+        ) &&
+        !TreeUtils.findParentOfType("module_declaration", ref.node) &&
+        !TreeUtils.findParentOfType("import_clause", ref.node),
+  );
+
+  const typeAlias =
+    symbol.type === "FieldType"
+      ? TreeUtils.findParentOfType("type_alias_declaration", node)
+      : undefined;
+
+  if (typeAlias) {
+    usages.push(...findRecordConstructorCalls(program, typeAlias));
+  }
+
+  return { references, usages };
+}
+
+/**
+ * Get the edits that delete the target, undefined if it is the only constructor of its type
+ */
+export function getSafeDeleteEdits(
+  program: IProgram,
+  sourceFile: ISourceFile,
+  { symbol, node }: ISafeDeleteTarget,
+  references: { node: SyntaxNode; uri: string }[],
+): { [uri: string]: TextEdit[] } | undefined {
+  const changes: { [uri: string]: TextEdit[] } = { [sourceFile.uri]: [] };
+
+  switch (symbol.type) {
+    case "Function":
+    case "Type":
+    case "TypeAlias": {
+      changes[sourceFile.uri].push(
+        RefactorEditUtils.removeValueDeclaration(node),
+      );
+
+      const unexposeEdit = RefactorEditUtils.unexposedValueInModule(
+        sourceFile.tree,
+        symbol.name,
+      );
+      if (unexposeEdit) {
+        changes[sourceFile.uri].push(unexposeEdit);
+      }
+
+      // Remove it from the exposing lists of the imports
+      const moduleName = TreeUtils.getModuleNameNode(sourceFile.tree)?.text;
+      new Set(
+        references
+          .filter(
+            (ref) =>
+              ref.uri !== sourceFile.uri &&
+              TreeUtils.findParentOfType("import_clause", ref.node),
+          )
+          .map((ref) => ref.uri),
+      ).forEach((uri) => {
+        const tree = program.getForest().getTree(uri);
+        const edit =
+          tree &&
+          moduleName &&
+          RefactorEditUtils.removeValueFromImport(
+            tree,
+            moduleName,
+            symbol.name,
+          );
+
+        if (edit) {
+          changes[uri] = [edit];
+        }
+      });
+      break;
+    }
+
+    case "UnionConstructor": {
+      const variants = node.parent?.namedChildren.filter(
+        (child) => child.type === "union_variant",
+      );
+
+      if (!variants || variants.length === 1) {
+        return;
+      }
+
+      changes[sourceFile.uri].push(removeListItem(node, variants));
+
+      // A wildcard branch that only matched the deleted constructor becomes redundant
+      findRedundantWildcardBranches(
+        program,
+        symbol.name,
+        node,
+        variants,
+      ).forEach(({ node: branch, uri }) => {
+        const branches =
+          branch.parent?.namedChildren.filter(
+            (child) => child.type === "case_of_branch",
+          ) ?? [];
+
+        (changes[uri] = changes[uri] ?? []).push(
+          removeListItem(branch, branches),
+        );
+      });
+      break;
+    }
+
+    case "FieldType": {
+      const fields =
+        node.parent?.namedChildren.filter(
+          (child) => child.type === "field_type",
+        ) ?? [];
+
+      changes[sourceFile.uri].push(removeListItem(node, fields));
+      break;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Find the calls of the record constructor of a type alias
+ */
+function findRecordConstructorCalls(
+  program: IProgram,
+  typeAlias: SyntaxNode,
+): { node: SyntaxNode; uri: string }[] {
+  const name = typeAlias.childForFieldName("name")?.text;
+  const checker = program.getTypeChecker();
+
+  return Array.from(program.getForest().treeMap.values())
+    .filter((sourceFile) => sourceFile.writeable)
+    .flatMap((sourceFile) =>
+      TreeUtils.descendantsOfType(sourceFile.tree.rootNode, "value_expr")
+        .map((valueExpr) => valueExpr.firstNamedChild)
+        .filter((qid): qid is SyntaxNode => !!qid)
+        .filter((qid) => {
+          const nameNode = qid.lastNamedChild;
+
+          if (
+            qid.type !== "upper_case_qid" ||
+            !nameNode ||
+            nameNode.text !== name
+          ) {
+            return false;
+          }
+
+          const definition = checker.findDefinition(nameNode, sourceFile).symbol
+            ?.node;
+
+          return (
+            definition?.id === typeAlias.id &&
+            definition.tree.uri === typeAlias.tree.uri
+          );
+        })
+        .map((qid) => ({ node: qid, uri: sourceFile.uri })),
+    );
+}
+
+/**
+ * Find the wildcard branches of case expressions over the type of the constructor
+ * that only match the constructor and are redundant without it
+ */
+function findRedundantWildcardBranches(
+  program: IProgram,
+  name: string,
+  variant: SyntaxNode,
+  variants: SyntaxNode[],
+): { node: SyntaxNode; uri: string }[] {
+  const caseExpressions = new Map<string, { node: SyntaxNode; uri: string }>();
+
+  variants
+    .filter((otherVariant) => otherVariant.id !== variant.id)
+    .flatMap((otherVariant) =>
+      References.find(
+        {
+          name: otherVariant.childForFieldName("name")?.text ?? "",
+          node: otherVariant,
+          type: "UnionConstructor",
+        },
+        program,
+      ),
+    )
+    .forEach((ref) => {
+      const branch = TreeUtils.findParentOfType("case_of_branch", ref.node);
+      const pattern = branch?.childForFieldName("pattern");
+
+      if (
+        branch?.parent &&
+        pattern &&
+        ref.node.startIndex >= pattern.startIndex &&
+        ref.node.endIndex <= pattern.endIndex
+      ) {
+        caseExpressions.set(`${ref.uri}:${branch.parent.id}`, {
+          node: branch.parent,
+          uri: ref.uri,
+        });
+      }
+    });
+
+  const isName = (token: string): boolean =>
+    token === name || token.endsWith(`.${name}`);
+
+  return Array.from(caseExpressions.values()).flatMap(({ node, uri }) => {
+    const branches = node.namedChildren.filter(
+      (child) => child.type === "case_of_branch",
+    );
+    const wildcardIndex = branches.findIndex((branch) => {
+      const type = branch
+        .childForFieldName("pattern")
+        ?.childForFieldName("child")?.type;
+      return type === "anything_pattern" || type === "lower_pattern";
+    });
+
+    if (wildcardIndex <= 0) {
+      return [];
+    }
+
+    const missing = PatternMatches.missing(
+      branches
+        .slice(0, wildcardIndex)
+        .map((branch) => branch.childForFieldName("pattern"))
+        .filter((pattern): pattern is SyntaxNode => !!pattern),
+      program,
+    );
+
+    return missing.length > 0 &&
+      missing.every((pattern) => pattern.split(/[^\w.]+/).some(isName))
+      ? [{ node: branches[wildcardIndex], uri }]
+      : [];
+  });
+}
+
+/**
+ * Remove an item together with the separator before it, or after it if it is the first
+ */
+function removeListItem(node: SyntaxNode, items: SyntaxNode[]): TextEdit {
+  const index = items.findIndex((item) => item.id === node.id);
+
+  const start = index > 0 ? items[index - 1].endPosition : node.startPosition;
+  const end =
+    index === 0 && items.length > 1 ? items[1].startPosition : node.endPosition;
+
+  return TextEdit.del(
+    Range.create(
+      Position.create(start.row, start.column),
+      Position.create(end.row, end.column),
+    ),
+  );
+}
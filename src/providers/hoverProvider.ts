@@ -7,11 +7,16 @@ import {
 } from "vscode-languageserver";
 import { URI } from "vscode-uri";
 import { DiagnosticsProvider } from ".";
+import { SyntaxNode } from "web-tree-sitter";
 import { ISymbol } from "../compiler/binder";
+import { ISourceFile } from "../compiler/forest";
+import { IProgram } from "../compiler/program";
+import { TypedHoles } from "../compiler/typedHoles";
 import { getEmptyTypes } from "../compiler/utils/elmUtils";
 import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
 import { HintHelper } from "../util/hintHelper";
 import { TreeUtils } from "../util/treeUtils";
+import { ElmJsonDependencies } from "./elmJsonDependencies";
 import { ITextDocumentPositionParams } from "./paramsExtensions";
 
 type HoverResult = Hover | null | undefined;
@@ -19,16 +24,22 @@ type HoverResult = Hover | null | undefined;
 export class HoverProvider {
   private connection: Connection;
   private diagnostics: DiagnosticsProvider;
+  private elmJsonDependencies: ElmJsonDependencies;
 
   constructor() {
     this.connection = container.resolve<Connection>("Connection");
     this.diagnostics = container.resolve(DiagnosticsProvider);
-    this.connection.onHover(
-      this.diagnostics.interruptDiagnostics(() =>
-        new ElmWorkspaceMatcher((params: TextDocumentPositionParams) =>
-          URI.parse(params.textDocument.uri),
-        ).handle(this.handleHoverRequest.bind(this)),
-      ),
+    this.elmJsonDependencies = container.resolve(ElmJsonDependencies);
+    const onElmHover = this.diagnostics.interruptDiagnostics(() =>
+      new ElmWorkspaceMatcher((params: TextDocumentPositionParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleHoverRequest.bind(this)),
+    );
+    this.connection.onHover((params, token) =>
+      // elm.json is not part of a source directory
+      params.textDocument.uri.endsWith("elm.json")
+        ? this.elmJsonDependencies.onHover(params)
+        : onElmHover(params, token),
     );
   }
 
@@ -46,6 +57,20 @@ export class HoverProvider {
         params.position,
       );
 
+      const hole = TypedHoles.findHole(
+        nodeAtPosition,
+        sourceFile,
+        params.program,
+      );
+
+      if (hole) {
+        return this.createMarkdownHoverFromHole(
+          hole,
+          sourceFile,
+          params.program,
+        );
+      }
+
       let definitionNode = checker.findDefinition(nodeAtPosition, sourceFile)
         .symbol;
 
@@ -85,6 +110,41 @@ export class HoverProvider {
     }
   };
 
+  private createMarkdownHoverFromHole(
+    hole: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): Hover {
+    const checker = program.getTypeChecker();
+    const holeType = checker.typeToString(
+      TypedHoles.getHoleType(hole, sourceFile, program),
+      sourceFile,
+    );
+
+    const fits = TypedHoles.findFits(hole, sourceFile, program).map((fit) => {
+      const type = checker.typeToString(fit.type, sourceFile);
+      return fit.argumentCount > 0
+        ? `- \`${fit.name} : ${type}\` (applied to ${
+            fit.argumentCount
+          } argument${fit.argumentCount > 1 ? "s" : ""})`
+        : `- \`${fit.name} : ${type}\``;
+    });
+
+    let value = `${HintHelper.wrapCodeInMarkdown(
+      `_ : ${holeType}`,
+    )}\n---\n\nTyped hole`;
+    if (fits.length > 0) {
+      value += `, valid fits:\n\n${fits.join("\n")}`;
+    }
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value,
+      },
+    };
+  }
+
   private createMarkdownHoverFromDefinition(
     definitionNode: ISymbol | undefined,
     typeString: string,
@@ -0,0 +1,112 @@
+import { container } from "tsyringe";
+import {
+  Connection,
+  ImplementationParams,
+  Location,
+  Range,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { ISymbol } from "../compiler/binder";
+import { References } from "../compiler/references";
+import { PositionUtil } from "../positionUtil";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { TreeUtils } from "../util/treeUtils";
+import { IImplementationParams } from "./paramsExtensions";
+
+export type ImplementationResult = Location[] | null | undefined;
+
+export class ImplementationProvider {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+    this.connection.onImplementation(
+      new ElmWorkspaceMatcher((params: ImplementationParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleImplementationRequest.bind(this)),
+    );
+  }
+
+  /**
+   * The implementations of a union type are all the case branches matching one of its constructors
+   */
+  protected handleImplementationRequest = (
+    params: IImplementationParams,
+  ): ImplementationResult => {
+    this.connection.console.info(`Implementations were requested`);
+    const checker = params.program.getTypeChecker();
+
+    const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+      params.sourceFile.tree.rootNode,
+      params.position,
+    );
+
+    const definition = checker.findDefinition(nodeAtPosition, params.sourceFile)
+      .symbol;
+
+    let constructors: ISymbol[];
+
+    if (definition?.type === "Type") {
+      constructors =
+        definition.constructors?.map((constructor) => ({
+          ...constructor,
+          type: "UnionConstructor",
+        })) ?? [];
+    } else if (definition?.type === "UnionConstructor") {
+      constructors = [definition];
+    } else {
+      return;
+    }
+
+    const branches = new Map<string, Location>();
+
+    constructors.forEach((constructor) => {
+      References.find(constructor, params.program).forEach(({ node, uri }) => {
+        const caseBranch = TreeUtils.findParentOfType("case_of_branch", node);
+        const pattern = caseBranch?.childForFieldName("pattern");
+
+        if (
+          !pattern ||
+          node.startIndex < pattern.startIndex ||
+          node.endIndex > pattern.endIndex
+        ) {
+          return;
+        }
+
+        // Constructors are found by name, so make sure this is the same one
+        const sourceFile = params.program.getSourceFile(uri);
+        const resolved =
+          sourceFile && node.lastNamedChild
+            ? checker.findDefinition(node.lastNamedChild, sourceFile).symbol
+            : undefined;
+
+        if (
+          resolved?.node.tree.uri !== constructor.node.tree.uri ||
+          resolved.node.startIndex !== constructor.node.startIndex
+        ) {
+          return;
+        }
+
+        branches.set(
+          `${uri}:${pattern.startIndex}`,
+          Location.create(
+            uri,
+            Range.create(
+              PositionUtil.FROM_TS_POSITION(
+                pattern.startPosition,
+              ).toVSPosition(),
+              PositionUtil.FROM_TS_POSITION(pattern.endPosition).toVSPosition(),
+            ),
+          ),
+        );
+      });
+    });
+
+    return Array.from(branches.values()).sort(
+      (a, b) =>
+        a.uri.localeCompare(b.uri) ||
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character,
+    );
+  };
+}
@@ -1,4 +1,5 @@
 export * from "./astProvider";
+export * from "./callHierarchyProvider";
 export * from "./codeActionProvider";
 export * from "./codeLensProvider";
 export * from "./completionProvider";
@@ -6,12 +7,19 @@ export * from "./definitionProvider";
 export * from "./diagnostics/diagnosticsProvider";
 export * from "./diagnostics/elmMakeDiagnostics";
 export * from "./documentFormatingProvider";
+export * from "./documentHighlightProvider";
 export * from "./documentSymbolProvider";
 export * from "./selectionRangeProvider";
+export * from "./semanticTokensProvider";
+export * from "./signatureHelpProvider";
 export * from "./foldingProvider";
 export * from "./hoverProvider";
+export * from "./implementationProvider";
+export * from "./inlayHintsProvider";
 export * from "./referencesProvider";
 export * from "./renameProvider";
+export * from "./typeDefinitionProvider";
 export * from "./workspaceSymbolProvider";
 export * from "./linkedEditingRangesProvider";
 import "./codeAction";
+import "./packageCommands";
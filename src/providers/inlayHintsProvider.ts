@@ -0,0 +1,269 @@
+import { container } from "tsyringe";
+import { Connection, Range, TextEdit } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISourceFile } from "../compiler/forest";
+import { IProgram } from "../compiler/program";
+import { comparePosition, PositionUtil } from "../positionUtil";
+import {
+  IInlayHint,
+  IInlayHintParams,
+  InlayHintKind,
+  InlayHintRequest,
+} from "../protocol";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { getSpaces } from "../util/refactorEditUtils";
+import { IInlayHintSettings, Settings } from "../util/settings";
+import { TreeUtils } from "../util/treeUtils";
+import { Utils } from "../util/utils";
+import { IInlayHintsParams } from "./paramsExtensions";
+
+export class InlayHintsProvider {
+  private connection: Connection;
+  private settings: Settings;
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+    this.settings = container.resolve<Settings>("Settings");
+    this.connection.onRequest(
+      InlayHintRequest,
+      new ElmWorkspaceMatcher((params: IInlayHintParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleInlayHints.bind(this)),
+    );
+  }
+
+  protected handleInlayHints = async (
+    params: IInlayHintsParams,
+  ): Promise<IInlayHint[]> => {
+    const settings = (await this.settings.getClientSettings()).inlayHints;
+    return this.getInlayHints(params, settings);
+  };
+
+  protected getInlayHints(
+    params: IInlayHintsParams,
+    settings: IInlayHintSettings,
+  ): IInlayHint[] {
+    const { program, sourceFile, range } = params;
+    const rootNode = sourceFile.tree.rootNode;
+    const hints: IInlayHint[] = [];
+
+    const inRange = (node: SyntaxNode): boolean => this.isInRange(node, range);
+
+    if (settings.letBindingTypes) {
+      TreeUtils.descendantsOfType(rootNode, "value_declaration")
+        .filter(
+          (declaration) =>
+            declaration.parent?.type === "let_in_expr" && inRange(declaration),
+        )
+        .forEach((declaration) =>
+          hints.push(
+            ...this.getLetBindingHints(declaration, sourceFile, program, range),
+          ),
+        );
+    }
+
+    if (settings.lambdaParameterTypes) {
+      TreeUtils.descendantsOfType(rootNode, "anonymous_function_expr")
+        .filter(inRange)
+        .forEach((lambda) =>
+          lambda.namedChildren
+            .filter((child) => child.type === "pattern")
+            .forEach((pattern) =>
+              hints.push(
+                ...this.getPatternHints(pattern, sourceFile, program, range),
+              ),
+            ),
+        );
+    }
+
+    if (settings.casePatternTypes) {
+      TreeUtils.descendantsOfType(rootNode, "case_of_branch")
+        .filter(inRange)
+        .forEach((branch) => {
+          const pattern = branch.childForFieldName("pattern");
+
+          if (pattern) {
+            hints.push(
+              ...this.getPatternHints(pattern, sourceFile, program, range),
+            );
+          }
+        });
+    }
+
+    if (settings.parameterNames) {
+      TreeUtils.descendantsOfType(rootNode, "function_call_expr")
+        .filter(inRange)
+        .forEach((call) =>
+          hints.push(...this.getParameterNameHints(call, sourceFile, program)),
+        );
+    }
+
+    return hints.sort(
+      (a, b) =>
+        a.position.line - b.position.line ||
+        a.position.character - b.position.character,
+    );
+  }
+
+  private getLetBindingHints(
+    declaration: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+    range: Range,
+  ): IInlayHint[] {
+    const functionDeclarationLeft = declaration.childForFieldName(
+      "functionDeclarationLeft",
+    );
+
+    if (!functionDeclarationLeft) {
+      // Destructuring let bindings can't be annotated, so just show the types of the bound names
+      const pattern = declaration.childForFieldName("pattern");
+      return pattern
+        ? this.getPatternHints(pattern, sourceFile, program, range)
+        : [];
+    }
+
+    if (TreeUtils.getTypeAnnotation(declaration)) {
+      return [];
+    }
+
+    const typeString = this.getTypeString(
+      functionDeclarationLeft,
+      sourceFile,
+      program,
+    );
+
+    const name = functionDeclarationLeft.firstNamedChild;
+
+    if (!typeString || !name) {
+      return [];
+    }
+
+    const declarationStart = PositionUtil.FROM_TS_POSITION(
+      declaration.startPosition,
+    ).toVSPosition();
+
+    return [
+      {
+        position: PositionUtil.FROM_TS_POSITION(
+          functionDeclarationLeft.endPosition,
+        ).toVSPosition(),
+        label: `: ${typeString}`,
+        kind: InlayHintKind.Type,
+        paddingLeft: true,
+        textEdits: [
+          TextEdit.insert(
+            declarationStart,
+            `${name.text} : ${typeString}\n${getSpaces(
+              declarationStart.character,
+            )}`,
+          ),
+        ],
+      },
+    ];
+  }
+
+  private getPatternHints(
+    pattern: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+    range: Range,
+  ): IInlayHint[] {
+    return TreeUtils.descendantsOfType(pattern, "lower_pattern")
+      .filter((lowerPattern) => this.isInRange(lowerPattern, range))
+      .map((lowerPattern) => {
+        const typeString = this.getTypeString(
+          lowerPattern,
+          sourceFile,
+          program,
+        );
+
+        if (typeString) {
+          return {
+            position: PositionUtil.FROM_TS_POSITION(
+              lowerPattern.endPosition,
+            ).toVSPosition(),
+            label: `: ${typeString}`,
+            kind: InlayHintKind.Type,
+            paddingLeft: true,
+          };
+        }
+      })
+      .filter(Utils.notUndefined.bind(this));
+  }
+
+  private getParameterNameHints(
+    call: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): IInlayHint[] {
+    const target = call.childForFieldName("target");
+    const functionName =
+      target?.type === "value_expr"
+        ? target.firstNamedChild?.lastNamedChild
+        : undefined;
+
+    if (!functionName) {
+      return [];
+    }
+
+    const definition = program
+      .getTypeChecker()
+      .findDefinition(functionName, sourceFile).symbol;
+
+    if (
+      definition?.type !== "Function" ||
+      definition.node.type !== "function_declaration_left"
+    ) {
+      return [];
+    }
+
+    const parameters = definition.node.namedChildren.slice(1);
+    const args = call.namedChildren
+      .slice(1)
+      .filter((arg) => !arg.type.includes("comment"));
+
+    return args
+      .map((arg, i) => {
+        const parameter = parameters[i];
+
+        if (
+          parameter?.type !== "lower_pattern" ||
+          parameter.text === arg.text
+        ) {
+          return;
+        }
+
+        return {
+          position: PositionUtil.FROM_TS_POSITION(
+            arg.startPosition,
+          ).toVSPosition(),
+          label: `${parameter.text}:`,
+          kind: InlayHintKind.Parameter,
+          paddingRight: true,
+        };
+      })
+      .filter(Utils.notUndefined.bind(this));
+  }
+
+  private getTypeString(
+    node: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): string | undefined {
+    const checker = program.getTypeChecker();
+    const type = checker.findType(node);
+
+    if (type.nodeType !== "Unknown") {
+      return checker.typeToString(type, sourceFile);
+    }
+  }
+
+  private isInRange(node: SyntaxNode, range: Range): boolean {
+    return (
+      comparePosition(range.start, node.endPosition) <= 0 &&
+      comparePosition(range.end, node.startPosition) >= 0
+    );
+  }
+}
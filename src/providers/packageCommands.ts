@@ -0,0 +1,131 @@
+import { container } from "tsyringe";
+import { Connection, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { CommandManager } from "../commandManager";
+import { ElmJson, IProgram } from "../compiler/program";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { IVersionChange, PackageManager } from "../util/packageManager";
+import { ElmJsonDiagnostics } from "./diagnostics/elmJsonDiagnostics";
+
+CommandManager.register(
+  "elm.install",
+  async (uri: string, packageName: string, isTestDependency = false) => {
+    await updateElmJson(uri, (packageManager, elmJson) =>
+      packageManager.install(elmJson, packageName, isTestDependency),
+    );
+  },
+);
+
+CommandManager.register(
+  "elm.uninstall",
+  async (uri: string, packageName: string) => {
+    await updateElmJson(uri, (packageManager, elmJson) =>
+      packageManager.uninstall(elmJson, packageName),
+    );
+  },
+);
+
+CommandManager.register(
+  "elm.upgrade",
+  async (uri: string, packageName?: string, majorUpgrade = false) => {
+    await updateElmJson(uri, (packageManager, elmJson) =>
+      packageName && majorUpgrade
+        ? packageManager.upgradeMajor(elmJson, packageName)
+        : packageManager.upgrade(elmJson, packageName),
+    );
+  },
+);
+
+/**
+ * Compute the new elm.json of the project containing `uri`, show the version changes
+ * and apply them if the user confirms
+ */
+async function updateElmJson(
+  uri: string,
+  update: (
+    packageManager: PackageManager,
+    elmJson: ElmJson,
+  ) => Promise<ElmJson>,
+): Promise<void> {
+  const connection = container.resolve<Connection>("Connection");
+
+  try {
+    // The uri can be elm.json itself, which is not in a source directory
+    const program =
+      ElmJsonDiagnostics.getProgramForElmJson(uri) ??
+      new ElmWorkspaceMatcher((uri: string) => URI.parse(uri)).getProgramFor(
+        uri,
+      );
+
+    const text = await ElmJsonDiagnostics.readElmJson(program);
+    const elmJson = JSON.parse(text) as ElmJson;
+
+    const newElmJson = await update(
+      new PackageManager(program.getPackageCache()),
+      elmJson,
+    );
+    const changes = PackageManager.getVersionChanges(elmJson, newElmJson);
+
+    if (changes.length === 0) {
+      void connection.window.showInformationMessage(
+        "The dependencies are already up to date",
+      );
+      return;
+    }
+
+    const choice = await connection.window.showInformationMessage(
+      `Update elm.json with these changes?\n${changes
+        .map(printVersionChange)
+        .join("\n")}`,
+      { title: "Apply" },
+      { title: "Cancel" },
+    );
+
+    if (choice?.title === "Apply") {
+      await applyElmJson(connection, program, text, newElmJson);
+    }
+  } catch (error) {
+    void connection.window.showErrorMessage(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+async function applyElmJson(
+  connection: Connection,
+  program: IProgram,
+  text: string,
+  elmJson: ElmJson,
+): Promise<void> {
+  const uri = ElmJsonDiagnostics.getElmJsonUri(program);
+  const document = TextDocument.create(uri, "json", 0, text);
+
+  await connection.workspace.applyEdit({
+    changes: {
+      [uri]: [
+        TextEdit.replace(
+          Range.create(
+            document.positionAt(0),
+            document.positionAt(text.length),
+          ),
+          PackageManager.printElmJson(elmJson),
+        ),
+      ],
+    },
+  });
+}
+
+function printVersionChange({
+  packageName,
+  before,
+  after,
+}: IVersionChange): string {
+  if (!before) {
+    return `+ ${packageName} ${after ?? ""}`;
+  } else if (!after) {
+    return `- ${packageName} ${before}`;
+  } else {
+    return `${packageName} ${before} -> ${after}`;
+  }
+}
@@ -1,22 +1,32 @@
 import {
+  CallHierarchyIncomingCallsParams,
+  CallHierarchyOutgoingCallsParams,
+  CallHierarchyPrepareParams,
   CodeActionParams,
   CodeLensParams,
   CompletionParams,
   DidChangeTextDocumentParams,
   DidOpenTextDocumentParams,
   DocumentFormattingParams,
+  DocumentHighlightParams,
   DocumentSymbolParams,
   FileCreate,
   FileDelete,
   FileRename,
   FoldingRangeParams,
+  ImplementationParams,
   LinkedEditingRangeParams,
   PrepareRenameParams,
   ReferenceParams,
   RenameParams,
   SelectionRangeParams,
+  SemanticTokensDeltaParams,
+  SemanticTokensParams,
+  SignatureHelpParams,
   TextDocumentPositionParams,
+  TypeDefinitionParams,
 } from "vscode-languageserver";
+import { IInlayHintParams } from "../protocol";
 import { IParams } from "../util/elmWorkspaceMatcher";
 
 export type ITextDocumentPositionParams = TextDocumentPositionParams & IParams;
@@ -37,3 +47,15 @@ export type ICreateFileParams = FileCreate & IParams;
 export type IRenameFileParams = FileRename & IParams;
 export type IDeleteFileParams = FileDelete & IParams;
 export type ILinkedEditingRangeParams = LinkedEditingRangeParams & IParams;
+export type ISemanticTokensParams = SemanticTokensParams & IParams;
+export type ISemanticTokensDeltaParams = SemanticTokensDeltaParams & IParams;
+export type IInlayHintsParams = IInlayHintParams & IParams;
+export type ISignatureHelpParams = SignatureHelpParams & IParams;
+export type ICallHierarchyPrepareParams = CallHierarchyPrepareParams & IParams;
+export type ICallHierarchyIncomingCallsParams = CallHierarchyIncomingCallsParams &
+  IParams;
+export type ICallHierarchyOutgoingCallsParams = CallHierarchyOutgoingCallsParams &
+  IParams;
+export type IDocumentHighlightParams = DocumentHighlightParams & IParams;
+export type ITypeDefinitionParams = TypeDefinitionParams & IParams;
+export type IImplementationParams = ImplementationParams & IParams;
@@ -0,0 +1,336 @@
+import { container } from "tsyringe";
+import {
+  Connection,
+  SemanticTokens,
+  SemanticTokensBuilder,
+  SemanticTokensDelta,
+  SemanticTokensDeltaParams,
+  SemanticTokensLegend,
+  SemanticTokensParams,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISymbol } from "../compiler/binder";
+import { ISourceFile } from "../compiler/forest";
+import { IProgram } from "../compiler/program";
+import { isCoreProject } from "../compiler/utils/elmUtils";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { TreeUtils } from "../util/treeUtils";
+import {
+  ISemanticTokensDeltaParams,
+  ISemanticTokensParams,
+} from "./paramsExtensions";
+
+const tokenTypes = [
+  "namespace",
+  "type",
+  "enum",
+  "enumMember",
+  "struct",
+  "typeParameter",
+  "parameter",
+  "variable",
+  "property",
+  "function",
+  "operator",
+] as const;
+
+const tokenModifiers = [
+  "declaration",
+  "readonly",
+  "deprecated",
+  "defaultLibrary",
+] as const;
+
+type TokenType = typeof tokenTypes[number];
+type TokenModifier = typeof tokenModifiers[number];
+
+interface IToken {
+  type: TokenType;
+  modifiers: TokenModifier[];
+}
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+  tokenTypes: [...tokenTypes],
+  tokenModifiers: [...tokenModifiers],
+};
+
+export class SemanticTokensProvider {
+  private connection: Connection;
+  private builders = new Map<string, SemanticTokensBuilder>();
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+    this.connection.languages.semanticTokens.on(
+      new ElmWorkspaceMatcher((params: SemanticTokensParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleSemanticTokens.bind(this)),
+    );
+    this.connection.languages.semanticTokens.onDelta(
+      new ElmWorkspaceMatcher((params: SemanticTokensDeltaParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleSemanticTokensDelta.bind(this)),
+    );
+  }
+
+  protected handleSemanticTokens = (
+    params: ISemanticTokensParams,
+  ): SemanticTokens => {
+    const builder = new SemanticTokensBuilder();
+    this.builders.set(params.sourceFile.uri, builder);
+
+    this.pushTokens(builder, params.sourceFile, params.program);
+
+    return builder.build();
+  };
+
+  protected handleSemanticTokensDelta = (
+    params: ISemanticTokensDeltaParams,
+  ): SemanticTokens | SemanticTokensDelta => {
+    const builder = this.builders.get(params.sourceFile.uri);
+
+    if (!builder) {
+      return this.handleSemanticTokens(params);
+    }
+
+    builder.previousResult(params.previousResultId);
+    this.pushTokens(builder, params.sourceFile, params.program);
+
+    return builder.buildEdits();
+  };
+
+  private pushTokens(
+    builder: SemanticTokensBuilder,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): void {
+    const treeCursor = sourceFile.tree.walk();
+
+    const traverse = (): void => {
+      const node = treeCursor.currentNode();
+
+      if (
+        node.type === "lower_case_identifier" ||
+        node.type === "upper_case_identifier" ||
+        node.type === "operator_identifier"
+      ) {
+        const token = this.getToken(node, sourceFile, program);
+
+        if (token) {
+          builder.push(
+            node.startPosition.row,
+            node.startPosition.column,
+            node.endIndex - node.startIndex,
+            tokenTypes.indexOf(token.type),
+            this.encodeModifiers(token.modifiers),
+          );
+        }
+      }
+
+      if (treeCursor.gotoFirstChild()) {
+        do {
+          traverse();
+        } while (treeCursor.gotoNextSibling());
+
+        treeCursor.gotoParent();
+      }
+    };
+
+    traverse();
+  }
+
+  private getToken(
+    node: SyntaxNode,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): IToken | undefined {
+    const parent = node.parent;
+
+    if (!parent) {
+      return;
+    }
+
+    // Module qualifiers, module names and import aliases
+    if (
+      node.type === "upper_case_identifier" &&
+      (node.nextSibling?.type === "dot" ||
+        parent.type === "as_clause" ||
+        (parent.type === "upper_case_qid" &&
+          (parent.parent?.type === "module_declaration" ||
+            parent.parent?.type === "import_clause")))
+    ) {
+      return {
+        type: "namespace",
+        modifiers:
+          parent.type === "as_clause" ||
+          parent.parent?.type === "module_declaration"
+            ? ["declaration"]
+            : [],
+      };
+    }
+
+    switch (parent.type) {
+      case "field_type":
+        return { type: "property", modifiers: ["declaration"] };
+      case "field":
+      case "field_access_expr":
+      case "field_accessor_function_expr":
+        return { type: "property", modifiers: [] };
+      case "lower_type_name":
+        return { type: "typeParameter", modifiers: ["declaration"] };
+      case "type_variable":
+        return { type: "typeParameter", modifiers: [] };
+    }
+
+    const symbol = program.getTypeChecker().findDefinition(node, sourceFile)
+      .symbol;
+
+    if (!symbol) {
+      return node.type === "operator_identifier"
+        ? { type: "operator", modifiers: [] }
+        : undefined;
+    }
+
+    const type = this.getTokenType(node, symbol);
+
+    if (!type) {
+      return;
+    }
+
+    const modifiers: TokenModifier[] = [];
+
+    if (this.isDeclaration(node, symbol)) {
+      modifiers.push("declaration");
+    }
+
+    if (symbol.type === "Port") {
+      modifiers.push("readonly");
+    }
+
+    if (this.isDeprecated(symbol)) {
+      modifiers.push("deprecated");
+    }
+
+    const symbolSourceFile = program.getSourceFile(symbol.node.tree.uri);
+    if (symbolSourceFile && isCoreProject(symbolSourceFile.project)) {
+      modifiers.push("defaultLibrary");
+    }
+
+    return { type, modifiers };
+  }
+
+  private getTokenType(
+    node: SyntaxNode,
+    symbol: ISymbol,
+  ): TokenType | undefined {
+    switch (symbol.type) {
+      case "Function":
+        if (symbol.node.type === "lower_pattern") {
+          return "variable";
+        }
+
+        // Top level values are always functions, let bindings are only functions if they take arguments
+        return symbol.node.parent?.parent?.type === "file" ||
+          symbol.node.namedChildCount > 1
+          ? "function"
+          : "variable";
+      case "Port":
+        return "function";
+      case "FunctionParameter":
+      case "AnonymousFunctionParameter":
+        return "parameter";
+      case "CasePattern":
+        return "variable";
+      case "Type":
+        return "enum";
+      case "TypeAlias":
+        // A record type alias used as a value is a record constructor
+        return node.parent?.parent?.type === "value_expr" ? "struct" : "type";
+      case "UnionConstructor":
+        return "enumMember";
+      case "Operator":
+        return node.type === "operator_identifier" ? "operator" : "function";
+      case "Module":
+      case "Import":
+        return "namespace";
+      case "TypeVariable":
+        return "typeParameter";
+      case "FieldType":
+        return "property";
+    }
+  }
+
+  private isDeclaration(node: SyntaxNode, symbol: ISymbol): boolean {
+    const nameNode = this.getNameNode(symbol);
+
+    return (
+      !!nameNode &&
+      nameNode.startIndex === node.startIndex &&
+      nameNode.tree.uri === node.tree.uri
+    );
+  }
+
+  private getNameNode(symbol: ISymbol): SyntaxNode | undefined {
+    switch (symbol.node.type) {
+      case "function_declaration_left":
+      case "lower_pattern":
+        return symbol.node.firstNamedChild ?? undefined;
+      case "port_annotation":
+        return TreeUtils.findFirstNamedChildOfType(
+          "lower_case_identifier",
+          symbol.node,
+        );
+      case "infix_declaration":
+        return symbol.type === "Operator" &&
+          symbol.name === symbol.node.childForFieldName("operator")?.text
+          ? symbol.node.childForFieldName("operator") ?? undefined
+          : undefined;
+      default:
+        return symbol.node.childForFieldName("name") ?? undefined;
+    }
+  }
+
+  private isDeprecated(symbol: ISymbol): boolean {
+    let declaration: SyntaxNode | null = symbol.node;
+
+    switch (symbol.type) {
+      case "Function":
+        if (declaration.type !== "function_declaration_left") {
+          return false;
+        }
+        declaration = declaration.parent;
+        break;
+      case "Port":
+      case "Type":
+      case "TypeAlias":
+        break;
+      case "UnionConstructor":
+        declaration = declaration.parent;
+        break;
+      default:
+        return false;
+    }
+
+    if (declaration?.parent?.type !== "file") {
+      return false;
+    }
+
+    let candidate = declaration.previousNamedSibling;
+    if (candidate?.type === "type_annotation") {
+      candidate = candidate.previousNamedSibling;
+    }
+
+    return (
+      candidate?.type === "block_comment" &&
+      candidate.text.startsWith("{-|") &&
+      /\bdeprecated\b/i.test(candidate.text)
+    );
+  }
+
+  private encodeModifiers(modifiers: TokenModifier[]): number {
+    return modifiers.reduce(
+      (result, modifier) => result | (1 << tokenModifiers.indexOf(modifier)),
+      0,
+    );
+  }
+}
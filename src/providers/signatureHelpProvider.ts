@@ -0,0 +1,126 @@
+import { container } from "tsyringe";
+import {
+  Connection,
+  MarkupKind,
+  ParameterInformation,
+  SignatureHelp,
+  SignatureHelpParams,
+  SignatureInformation,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { TypeRenderer } from "../compiler/typeRenderer";
+import { comparePosition } from "../positionUtil";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { HintHelper } from "../util/hintHelper";
+import { TreeUtils } from "../util/treeUtils";
+import { ISignatureHelpParams } from "./paramsExtensions";
+
+type SignatureHelpResult = SignatureHelp | null | undefined;
+
+export class SignatureHelpProvider {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+    this.connection.onSignatureHelp(
+      new ElmWorkspaceMatcher((params: SignatureHelpParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleSignatureHelp.bind(this)),
+    );
+  }
+
+  protected handleSignatureHelp = (
+    params: ISignatureHelpParams,
+  ): SignatureHelpResult => {
+    this.connection.console.info(`Signature help was requested`);
+
+    const { program, sourceFile, position } = params;
+    const checker = program.getTypeChecker();
+
+    const previousNode = TreeUtils.findPreviousNode(
+      sourceFile.tree.rootNode,
+      position,
+    );
+
+    if (!previousNode) {
+      return;
+    }
+
+    const application = TreeUtils.findFunctionApplication(
+      previousNode,
+      position,
+    );
+
+    if (!application) {
+      return;
+    }
+
+    const functionName =
+      application.target.type === "value_expr"
+        ? application.target.firstNamedChild?.lastNamedChild
+        : undefined;
+
+    if (!functionName) {
+      return;
+    }
+
+    const definition = checker.findDefinition(functionName, sourceFile).symbol;
+
+    if (!definition) {
+      return;
+    }
+
+    const type = checker.findType(definition.node);
+
+    if (type.nodeType !== "Function") {
+      return;
+    }
+
+    const typeRenderer = new TypeRenderer(checker, sourceFile);
+    const parameters: ParameterInformation[] = [];
+    let label = `${application.target.text} : `;
+
+    type.params.forEach((param) => {
+      const paramLabel =
+        param.nodeType === "Function"
+          ? `(${typeRenderer.render(param)})`
+          : typeRenderer.render(param);
+
+      parameters.push({
+        label: [label.length, label.length + paramLabel.length],
+      });
+      label += `${paramLabel} -> `;
+    });
+
+    label += typeRenderer.render(type.return);
+
+    const documentation = HintHelper.createHint(
+      definition.node.type === "function_declaration_left"
+        ? definition.node.parent ?? undefined
+        : definition.node,
+    );
+
+    // Arguments the cursor is past are already filled in
+    const activeParameter = application.args.filter(
+      (arg) => comparePosition(position, arg.endPosition) > 0,
+    ).length;
+
+    const signature: SignatureInformation = {
+      label,
+      parameters,
+      documentation: documentation
+        ? { kind: MarkupKind.Markdown, value: documentation }
+        : undefined,
+    };
+
+    return {
+      signatures: [signature],
+      activeSignature: 0,
+      // When piped, the last parameter is already filled by the piped value
+      activeParameter:
+        application.isPiped && activeParameter >= parameters.length - 1
+          ? parameters.length
+          : activeParameter,
+    };
+  };
+}
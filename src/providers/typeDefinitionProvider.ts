@@ -0,0 +1,113 @@
+import { container } from "tsyringe";
+import {
+  Connection,
+  Location,
+  Range,
+  TypeDefinitionParams,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { ISourceFile } from "../compiler/forest";
+import { IProgram } from "../compiler/program";
+import { Type } from "../compiler/typeInference";
+import { PositionUtil } from "../positionUtil";
+import { ElmWorkspaceMatcher } from "../util/elmWorkspaceMatcher";
+import { TreeUtils } from "../util/treeUtils";
+import { ITypeDefinitionParams } from "./paramsExtensions";
+
+export type TypeDefinitionResult = Location | null | undefined;
+
+export class TypeDefinitionProvider {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = container.resolve<Connection>("Connection");
+    this.connection.onTypeDefinition(
+      new ElmWorkspaceMatcher((params: TypeDefinitionParams) =>
+        URI.parse(params.textDocument.uri),
+      ).handle(this.handleTypeDefinitionRequest.bind(this)),
+    );
+  }
+
+  protected handleTypeDefinitionRequest = (
+    params: ITypeDefinitionParams,
+  ): TypeDefinitionResult => {
+    this.connection.console.info(`A type definition was requested`);
+    const checker = params.program.getTypeChecker();
+    const sourceFile = params.sourceFile;
+
+    const nodeAtPosition = TreeUtils.getNamedDescendantForPosition(
+      sourceFile.tree.rootNode,
+      params.position,
+    );
+
+    let type = checker.findType(
+      nodeAtPosition.parent?.type === "field_access_expr"
+        ? nodeAtPosition.parent
+        : nodeAtPosition,
+    );
+
+    // Declaration names and patterns don't have a type themselves, so use the type of their definition
+    if (type.nodeType === "Unknown") {
+      const definition = checker.findDefinition(nodeAtPosition, sourceFile)
+        .symbol;
+
+      if (definition) {
+        type = checker.findType(definition.node);
+      }
+    }
+
+    return this.findTypeDeclaration(type, sourceFile, params.program);
+  };
+
+  private findTypeDeclaration(
+    type: Type,
+    sourceFile: ISourceFile,
+    program: IProgram,
+  ): Location | undefined {
+    let module: string;
+    let name: string;
+
+    if (type.alias) {
+      module = type.alias.module;
+      name = type.alias.name;
+    } else if (type.nodeType === "Function") {
+      return this.findTypeDeclaration(type.return, sourceFile, program);
+    } else if (type.nodeType === "Union") {
+      if (
+        (type.module === "List" && type.name === "List") ||
+        (type.module === "Maybe" && type.name === "Maybe")
+      ) {
+        return this.findTypeDeclaration(type.params[0], sourceFile, program);
+      }
+
+      module = type.module;
+      name = type.name;
+    } else {
+      return;
+    }
+
+    const moduleSourceFile =
+      sourceFile.moduleName === module
+        ? sourceFile
+        : program.getSourceFileOfImportableModule(sourceFile, module);
+
+    const symbol = moduleSourceFile?.symbolLinks
+      ?.get(moduleSourceFile.tree.rootNode)
+      ?.get(
+        name,
+        (symbol) => symbol.type === "Type" || symbol.type === "TypeAlias",
+      );
+
+    if (symbol) {
+      return Location.create(
+        symbol.node.tree.uri,
+        Range.create(
+          PositionUtil.FROM_TS_POSITION(
+            symbol.node.startPosition,
+          ).toVSPosition(),
+          PositionUtil.FROM_TS_POSITION(symbol.node.endPosition).toVSPosition(),
+        ),
+      );
+    }
+  }
+}
@@ -1,13 +1,24 @@
 import { container } from "tsyringe";
 import {
   Connection,
+  Location,
   SymbolInformation,
+  SymbolKind,
   WorkspaceSymbolParams,
 } from "vscode-languageserver";
 import { SyntaxNode } from "web-tree-sitter";
 import { IProgram } from "../compiler/program";
+import { TypeSearch } from "../compiler/typeSearch";
+import {
+  ISearchByTypeParams,
+  ITypeSearchResult,
+  SearchByTypeRequest,
+} from "../protocol";
 import { SymbolInformationTranslator } from "../util/symbolTranslator";
 
+// Workspace symbol queries starting with this are searched by type signature, e.g. `: String -> Int`
+const typeQueryPrefix = ":";
+
 export class WorkspaceSymbolProvider {
   private readonly connection: Connection;
   private readonly elmWorkspaces: IProgram[];
@@ -16,12 +27,30 @@ export class WorkspaceSymbolProvider {
     this.elmWorkspaces = container.resolve<IProgram[]>("ElmWorkspaces");
     this.connection = container.resolve<Connection>("Connection");
     this.connection.onWorkspaceSymbol(this.workspaceSymbolRequest);
+    this.connection.onRequest(SearchByTypeRequest, this.searchByTypeRequest);
   }
 
   private workspaceSymbolRequest = (
     param: WorkspaceSymbolParams,
-  ): SymbolInformation[] | null | undefined => {
+  ): Promise<SymbolInformation[]> | SymbolInformation[] | null | undefined => {
     this.connection.console.info(`Workspace Symbols were requested`);
+
+    if (param.query.startsWith(typeQueryPrefix)) {
+      return this.searchByType(
+        param.query.slice(typeQueryPrefix.length),
+      ).then((results) =>
+        results.map((result) =>
+          SymbolInformation.create(
+            `${result.name} : ${result.signature}`,
+            SymbolKind.Function,
+            result.location.range,
+            result.location.uri,
+            result.moduleName,
+          ),
+        ),
+      );
+    }
+
     const symbolInformationMap: Map<string, SymbolInformation[]> = new Map<
       string,
       SymbolInformation[]
@@ -63,4 +92,36 @@ export class WorkspaceSymbolProvider {
 
     return Array.from(symbolInformationMap.values()).flat();
   };
+
+  private searchByTypeRequest = (
+    params: ISearchByTypeParams,
+  ): Promise<ITypeSearchResult[]> => {
+    this.connection.console.info(`Search by type was requested`);
+    return this.searchByType(params.query);
+  };
+
+  private async searchByType(query: string): Promise<ITypeSearchResult[]> {
+    const results = new Map<string, ITypeSearchResult>();
+
+    for (const program of this.elmWorkspaces) {
+      const matches = await TypeSearch.search(query, program);
+
+      // Skip matches already found in a previous Elm workspace
+      matches.forEach((match) => {
+        const key = `${match.uri}:${match.name}`;
+
+        if (!results.has(key)) {
+          results.set(key, {
+            name: match.name,
+            moduleName: match.moduleName,
+            packageName: match.packageName,
+            signature: match.signature,
+            location: Location.create(match.uri, match.range),
+          });
+        }
+      });
+    }
+
+    return Array.from(results.values());
+  }
 }
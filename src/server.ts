@@ -17,20 +17,27 @@ import {
   IProgramHost,
 } from "./compiler/program";
 import {
+  CallHierarchyProvider,
   CodeActionProvider,
   CodeLensProvider,
   CompletionProvider,
   DefinitionProvider,
   DiagnosticsProvider,
   DocumentFormattingProvider,
+  DocumentHighlightProvider,
   DocumentSymbolProvider,
   ElmMakeDiagnostics,
   FoldingRangeProvider,
   HoverProvider,
+  ImplementationProvider,
+  InlayHintsProvider,
   LinkedEditingRangesProvider,
   ReferencesProvider,
   RenameProvider,
   SelectionRangeProvider,
+  SemanticTokensProvider,
+  SignatureHelpProvider,
+  TypeDefinitionProvider,
   WorkspaceSymbolProvider,
 } from "./providers";
 import { ElmLsDiagnostics } from "./providers/diagnostics/elmLsDiagnostics";
@@ -190,6 +197,13 @@ export class Server implements ILanguageServer {
     new RenameProvider();
     new FileEventsHandler();
     new LinkedEditingRangesProvider();
+    new SemanticTokensProvider();
+    new InlayHintsProvider();
+    new SignatureHelpProvider();
+    new CallHierarchyProvider();
+    new DocumentHighlightProvider();
+    new TypeDefinitionProvider();
+    new ImplementationProvider();
   }
 
   private getElmJsonFolder(uri: string): URI {
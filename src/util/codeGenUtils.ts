@@ -0,0 +1,184 @@
+const reservedWords = [
+  "if",
+  "then",
+  "else",
+  "case",
+  "of",
+  "let",
+  "in",
+  "type",
+  "module",
+  "where",
+  "import",
+  "exposing",
+  "as",
+  "port",
+  "alias",
+];
+
+// Json.Decode has map up to map8
+const maxMapArguments = 8;
+
+const closingBrackets: { [opening: string]: string } = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+};
+
+/**
+ * Helpers for generating Elm code as text
+ */
+export class CodeGenUtils {
+  public static isReservedWord(name: string): boolean {
+    return reservedWords.includes(name);
+  }
+
+  /**
+   * Append a number to the name until it is not used
+   */
+  public static getUniqueName(
+    name: string,
+    isUsed: (candidate: string) => boolean,
+  ): string {
+    let uniqueName = name;
+    let i = 1;
+    while (isUsed(uniqueName)) {
+      uniqueName = `${name}${i++}`;
+    }
+
+    return uniqueName;
+  }
+
+  public static lowerFirst(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1);
+  }
+
+  public static upperFirst(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  /**
+   * Wrap an expression in parentheses, unless it is a single name or literal,
+   * or completely enclosed in one pair of brackets or quotes
+   */
+  public static parenthesize(text: string): string {
+    return parenthesize(text);
+  }
+
+  /**
+   * Apply the decoders to a constructor, with `mapN` or by piping them if there are too many
+   */
+  public static getDecoderMapLines(
+    decode: string,
+    constructor: string,
+    decoders: string[],
+  ): string[] {
+    if (decoders.length === 0) {
+      return [`${decode}.succeed ${parenthesize(constructor)}`];
+    }
+
+    if (decoders.length > maxMapArguments) {
+      return [
+        `${decode}.succeed ${parenthesize(constructor)}`,
+        ...decoders.map(
+          (decoder) => `    |> ${decode}.map2 (|>) ${parenthesize(decoder)}`,
+        ),
+      ];
+    }
+
+    return [
+      `${decode}.${
+        decoders.length === 1 ? "map" : `map${decoders.length}`
+      } ${parenthesize(constructor)}`,
+      ...decoders.map((decoder) => `    ${parenthesize(decoder)}`),
+    ];
+  }
+
+  /**
+   * Get the value of a string literal, single line strings escape like JSON apart from unicode escapes
+   */
+  public static parseStringLiteral(text: string): string | undefined {
+    if (text.startsWith('"""')) {
+      return text.slice(3, -3);
+    }
+
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      return;
+    }
+  }
+}
+
+function parenthesize(text: string): string {
+  return isAtomic(text) ? text : `(${text})`;
+}
+
+function isAtomic(text: string): boolean {
+  if (/^\.?[\w.]+$/.test(text)) {
+    return true;
+  }
+
+  const closing = closingBrackets[text.charAt(0)];
+
+  if (closing) {
+    return getGroupEnd(text, 0, closing) === text.length - 1;
+  }
+
+  if (text.startsWith('"""')) {
+    return text.indexOf('"""', 3) === text.length - 3;
+  }
+
+  if (text.startsWith('"') || text.startsWith("'")) {
+    return getQuoteEnd(text, 0) === text.length - 1;
+  }
+
+  return false;
+}
+
+/**
+ * Get the index of the bracket closing the group that starts at the index
+ */
+function getGroupEnd(text: string, start: number, closing: string): number {
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text.charAt(i);
+
+    if (char === closing) {
+      return i;
+    }
+
+    if (text.startsWith('"""', i)) {
+      const end = text.indexOf('"""', i + 3);
+      if (end === -1) {
+        return -1;
+      }
+      i = end + 2;
+    } else if (char === '"' || char === "'") {
+      i = getQuoteEnd(text, i);
+    } else if (closingBrackets[char]) {
+      i = getGroupEnd(text, i, closingBrackets[char]);
+    }
+
+    if (i === -1) {
+      return -1;
+    }
+  }
+
+  return -1;
+}
+
+function getQuoteEnd(text: string, start: number): number {
+  const quote = text.charAt(start);
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text.charAt(i);
+
+    if (char === "\\") {
+      i++;
+    } else if (char === quote) {
+      return i;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,473 @@
+import { Range, TextEdit } from "vscode-languageserver";
+import { ISourceFile } from "../compiler/forest";
+import { IProgram } from "../compiler/program";
+import { ImportUtils } from "./importUtils";
+import { RefactorEditUtils } from "./refactorEditUtils";
+import { TreeUtils } from "./treeUtils";
+
+type HtmlNode =
+  | { kind: "Text"; text: string }
+  | {
+      kind: "Element";
+      tag: string;
+      attributes: [string, string | undefined][];
+      children: HtmlNode[];
+    };
+
+type HtmlModule = "Html" | "Html.Attributes" | "Html.Events";
+
+interface IGeneratorContext {
+  // Resolves a value of one of the html modules to the text referencing it
+  reference: (module: HtmlModule, name: string) => string;
+  isKnown: (module: HtmlModule, name: string) => boolean;
+}
+
+const voidElements = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+];
+
+const rawTextElements = ["script", "style"];
+
+// prettier-ignore
+const elements = [
+  "h1", "h2", "h3", "h4", "h5", "h6", "div", "p", "hr", "pre", "blockquote",
+  "span", "a", "code", "em", "strong", "i", "b", "u", "sub", "sup", "br",
+  "ol", "ul", "li", "dl", "dt", "dd", "img", "iframe", "canvas", "math",
+  "form", "input", "textarea", "button", "select", "option", "section", "nav",
+  "article", "aside", "header", "footer", "address", "figure", "figcaption",
+  "table", "caption", "colgroup", "col", "tbody", "thead", "tfoot", "tr", "td",
+  "th", "fieldset", "legend", "label", "datalist", "optgroup", "output",
+  "progress", "meter", "audio", "video", "source", "track", "embed", "object",
+  "param", "ins", "del", "small", "cite", "dfn", "abbr", "time", "var", "samp",
+  "kbd", "s", "q", "mark", "ruby", "rt", "rp", "bdi", "bdo", "wbr", "details",
+  "summary", "menuitem", "menu",
+];
+
+// Elm names of elements and attributes that are keywords or differ from the html name
+const renamed: { [name: string]: string } = {
+  type: "type_",
+  "accept-charset": "acceptCharset",
+};
+
+// prettier-ignore
+const stringAttributes = [
+  "id", "title", "href", "src", "alt", "type", "value", "placeholder", "name",
+  "for", "target", "rel", "method", "action", "lang", "dir", "download",
+  "accept", "accept-charset", "pattern", "min", "max", "step", "enctype",
+  "hreflang", "media", "ping", "cite", "datetime", "headers", "scope", "align",
+  "poster", "srcdoc", "sandbox", "shape", "coords", "usemap", "kind", "srclang",
+  "wrap", "form", "list", "draggable", "dropzone", "pubdate", "manifest",
+];
+
+// prettier-ignore
+const boolAttributes = [
+  "checked", "disabled", "selected", "hidden", "autofocus", "readonly",
+  "required", "multiple", "autoplay", "controls", "loop", "novalidate",
+  "ismap", "reversed", "default", "contenteditable", "spellcheck",
+];
+
+// prettier-ignore
+const intAttributes = [
+  "width", "height", "colspan", "rowspan", "tabindex", "maxlength",
+  "minlength", "rows", "cols", "size", "start",
+];
+
+// Inline handlers are javascript, so only the event is kept
+const events: { [name: string]: string } = {
+  onclick: "onClick",
+  ondblclick: "onDoubleClick",
+  onmousedown: "onMouseDown",
+  onmouseup: "onMouseUp",
+  onmouseenter: "onMouseEnter",
+  onmouseleave: "onMouseLeave",
+  onmouseover: "onMouseOver",
+  onmouseout: "onMouseOut",
+  oninput: "onInput",
+  onsubmit: "onSubmit",
+  onblur: "onBlur",
+  onfocus: "onFocus",
+};
+
+const entities: { [name: string]: string } = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+export class HtmlToElm {
+  /**
+   * Get the edits that replace the range with the Elm view code of the html,
+   * and add the missing imports
+   */
+  public static getEdits(
+    html: string,
+    program: IProgram,
+    sourceFile: ISourceFile,
+    range: Range,
+  ): TextEdit[] {
+    const nodes = parseHtml(html);
+
+    if (!nodes.some((node) => node.kind === "Element")) {
+      throw new Error("The HTML needs to contain an element");
+    }
+
+    const tree = sourceFile.tree;
+    const imports = program.getTypeChecker().getAllImports(sourceFile);
+
+    // Values that are not in the html packages of the project are generated with `node` and `attribute`
+    const possibleImports = ImportUtils.getPossibleImports(
+      program,
+      sourceFile,
+    ).filter((possibleImport) => possibleImport.module.startsWith("Html"));
+
+    const missingImports = new Map<HtmlModule, Set<string>>();
+
+    const context: IGeneratorContext = {
+      reference: (module, name) => {
+        if (imports.getVar(name, module).length > 0) {
+          return name;
+        }
+
+        const importClause = TreeUtils.findImportClauseByName(tree, module);
+
+        if (importClause) {
+          const moduleAlias = TreeUtils.findFirstNamedChildOfType(
+            "as_clause",
+            importClause,
+          )?.lastNamedChild?.text;
+
+          return `${moduleAlias ?? module}.${name}`;
+        }
+
+        missingImports.set(
+          module,
+          (missingImports.get(module) ?? new Set()).add(name),
+        );
+        return name;
+      },
+      isKnown: (module, name) =>
+        !possibleImports.some(
+          (possibleImport) => possibleImport.module === module,
+        ) ||
+        possibleImports.some(
+          (possibleImport) =>
+            possibleImport.module === module && possibleImport.value === name,
+        ),
+    };
+
+    const elementNodes = nodes.filter(
+      (node) => node.kind === "Element" || node.text.trim() !== "",
+    );
+    const root: HtmlNode =
+      elementNodes.length === 1
+        ? elementNodes[0]
+        : { kind: "Element", tag: "div", attributes: [], children: nodes };
+
+    const lines = renderNode(root, context);
+
+    const edits = [
+      TextEdit.replace(
+        range,
+        lines
+          .map((line, i) =>
+            i > 0 && line
+              ? `${" ".repeat(range.start.character)}${line}`
+              : line,
+          )
+          .join("\n"),
+      ),
+    ];
+
+    if (missingImports.size > 0) {
+      const importEdit = RefactorEditUtils.addImports(
+        tree,
+        Array.from(missingImports.entries()).map(([moduleName, names]) => ({
+          moduleName,
+          valueName: Array.from(names).sort().join(", "),
+        })),
+      );
+
+      if (importEdit) {
+        edits.push(importEdit);
+      }
+    }
+
+    return edits;
+  }
+
+  public static isHtml(text: string): boolean {
+    return (
+      text.trim().startsWith("<") &&
+      parseHtml(text).some((node) => node.kind === "Element")
+    );
+  }
+}
+
+/**
+ * A forgiving parser for html fragments, unclosed elements end with their parent
+ */
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlNode[] = [];
+  const stack: Extract<HtmlNode, { kind: "Element" }>[] = [];
+  const children = (): HtmlNode[] =>
+    stack.length > 0 ? stack[stack.length - 1].children : root;
+
+  const tagRegex = /<!--[\s\S]*?-->|<![^>]*>|<\/\s*([\w:-]+)\s*>|<([\w:-]+)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+  const attributeRegex = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+  let index = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(html))) {
+    if (match.index > index) {
+      children().push({
+        kind: "Text",
+        text: decodeEntities(html.slice(index, match.index)),
+      });
+    }
+    index = tagRegex.lastIndex;
+
+    const [, closingTag, openingTag, attributeText, selfClosing] = match;
+
+    if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      const openIndex = stack.map((element) => element.tag).lastIndexOf(tag);
+
+      if (openIndex >= 0) {
+        stack.splice(openIndex);
+      }
+    } else if (openingTag) {
+      const tag = openingTag.toLowerCase();
+      const element: HtmlNode = {
+        kind: "Element",
+        tag,
+        attributes: [],
+        children: [],
+      };
+
+      let attributeMatch: RegExpExecArray | null;
+      while ((attributeMatch = attributeRegex.exec(attributeText))) {
+        const value =
+          attributeMatch[2] ?? attributeMatch[3] ?? attributeMatch[4];
+        element.attributes.push([
+          attributeMatch[1].toLowerCase(),
+          value !== undefined ? decodeEntities(value) : undefined,
+        ]);
+      }
+
+      children().push(element);
+
+      if (rawTextElements.includes(tag) && !selfClosing) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, index);
+        const content = html.slice(index, end >= 0 ? end : html.length);
+
+        if (content.trim()) {
+          element.children.push({ kind: "Text", text: content });
+        }
+
+        tagRegex.lastIndex = end >= 0 ? end : html.length;
+        index = tagRegex.lastIndex;
+      } else if (!selfClosing && !voidElements.includes(tag)) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (index < html.length) {
+    children().push({ kind: "Text", text: decodeEntities(html.slice(index)) });
+  }
+
+  return root;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name.startsWith("#")) {
+        const code =
+          name[1].toLowerCase() === "x"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        // Keep references to code points that don't exist as they are
+        return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }
+
+      return entities[name.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+/**
+ * Render the node in the style of elm-format, children go on their own lines
+ * unless there is at most one and it fits on a line
+ */
+function renderNode(node: HtmlNode, context: IGeneratorContext): string[] {
+  if (node.kind === "Text") {
+    return [`${context.reference("Html", "text")} ${toElmString(node.text)}`];
+  }
+
+  const name = renamed[node.tag] ?? node.tag;
+  const element =
+    elements.includes(node.tag) && context.isKnown("Html", name)
+      ? context.reference("Html", name)
+      : `${context.reference("Html", "node")} ${toElmString(node.tag)}`;
+
+  const isCheckable =
+    node.tag === "input" &&
+    node.attributes.some(
+      ([attribute, value]) =>
+        attribute === "type" &&
+        ["checkbox", "radio"].includes(value?.toLowerCase() ?? ""),
+    );
+  const attributes = node.attributes.flatMap(([attribute, value]) =>
+    renderAttribute(attribute, value, isCheckable, context),
+  );
+  const attributesText =
+    attributes.length > 0 ? `[ ${attributes.join(", ")} ]` : "[]";
+
+  // Whitespace between words and elements is kept, but not at the edges of the element
+  const children = node.children
+    .map((child, i): HtmlNode | undefined => {
+      if (child.kind === "Element") {
+        return child;
+      }
+
+      let text = child.text.replace(/\s+/g, " ");
+      if (i === 0) {
+        text = text.trimStart();
+      }
+      if (i === node.children.length - 1) {
+        text = text.trimEnd();
+      }
+
+      return text.trim() ? { kind: "Text", text } : undefined;
+    })
+    .filter((child): child is HtmlNode => !!child)
+    .map((child) => renderNode(child, context));
+
+  if (children.length === 0) {
+    return [`${element} ${attributesText} []`];
+  }
+
+  if (children.length === 1 && children[0].length === 1) {
+    return [`${element} ${attributesText} [ ${children[0][0]} ]`];
+  }
+
+  return [
+    `${element} ${attributesText}`,
+    ...children.flatMap((lines, i) => [
+      `    ${i === 0 ? "[" : ","} ${lines[0]}`,
+      ...lines.slice(1).map((line) => `    ${line}`),
+    ]),
+    "    ]",
+  ];
+}
+
+function renderAttribute(
+  attribute: string,
+  value: string | undefined,
+  isCheckable: boolean,
+  context: IGeneratorContext,
+): string[] {
+  const name = renamed[attribute] ?? attribute;
+  const isKnown = (elmName: string): boolean =>
+    context.isKnown("Html.Attributes", elmName);
+
+  if (attribute === "class" && value !== undefined && isKnown("class")) {
+    return [
+      `${context.reference("Html.Attributes", "class")} ${toElmString(value)}`,
+    ];
+  }
+
+  if (attribute === "style" && value !== undefined && isKnown("style")) {
+    return value
+      .split(";")
+      .map((declaration) => declaration.split(":"))
+      .filter(([property]) => property.trim())
+      .map(
+        ([property, ...propertyValue]) =>
+          `${context.reference("Html.Attributes", "style")} ${toElmString(
+            property.trim(),
+          )} ${toElmString(propertyValue.join(":").trim())}`,
+      );
+  }
+
+  if (stringAttributes.includes(attribute) && isKnown(name)) {
+    return [
+      `${context.reference("Html.Attributes", name)} ${toElmString(
+        value ?? "",
+      )}`,
+    ];
+  }
+
+  if (boolAttributes.includes(attribute) && isKnown(name)) {
+    return [
+      `${context.reference("Html.Attributes", name)} ${
+        value?.toLowerCase() === "false" ? "False" : "True"
+      }`,
+    ];
+  }
+
+  if (
+    intAttributes.includes(attribute) &&
+    value !== undefined &&
+    /^\d+$/.test(value) &&
+    isKnown(name)
+  ) {
+    return [`${context.reference("Html.Attributes", name)} ${value}`];
+  }
+
+  // `onCheck` only decodes `checked`, so other elements get the plain change event
+  if (attribute === "onchange") {
+    const handler = `(Debug.todo ${toElmString(value ?? attribute)})`;
+
+    if (isCheckable && context.isKnown("Html.Events", "onCheck")) {
+      return [`${context.reference("Html.Events", "onCheck")} ${handler}`];
+    }
+
+    if (context.isKnown("Html.Events", "on")) {
+      return [`${context.reference("Html.Events", "on")} "change" ${handler}`];
+    }
+  }
+
+  const event = events[attribute];
+  if (event && context.isKnown("Html.Events", event)) {
+    return [
+      `${context.reference("Html.Events", event)} (Debug.todo ${toElmString(
+        value ?? attribute,
+      )})`,
+    ];
+  }
+
+  return [
+    `${context.reference("Html.Attributes", "attribute")} ${toElmString(
+      attribute,
+    )} ${toElmString(value ?? "")}`,
+  ];
+}
+
+function toElmString(text: string): string {
+  return `"${text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t")
+    .replace(/\u00a0/g, "\\u{00A0}")}"`;
+}
@@ -0,0 +1,457 @@
+import { Position, TextEdit } from "vscode-languageserver";
+import { SyntaxNode } from "web-tree-sitter";
+import { ISourceFile } from "../compiler/forest";
+import { CodeGenUtils } from "./codeGenUtils";
+import { RefactorEditUtils } from "./refactorEditUtils";
+import { TreeUtils } from "./treeUtils";
+
+type JsonShape =
+  | { kind: "Null" | "Bool" | "Int" | "Float" | "String" | "Value" }
+  | { kind: "List"; item?: JsonShape }
+  | { kind: "Object"; fields: Map<string, IJsonField> }
+  | { kind: "Nullable"; shape: JsonShape };
+
+interface IJsonField {
+  shape: JsonShape;
+  // The field is missing in some of the objects
+  optional: boolean;
+}
+
+interface IGeneratedAlias {
+  typeName: string;
+  decoderName: string;
+}
+
+interface IGeneratorContext {
+  decode: string;
+  usedNames: Set<string>;
+  // The generated alias names by the structure of the object
+  aliases: Map<string, IGeneratedAlias>;
+  typeAliases: string[];
+  decoders: string[];
+}
+
+export class JsonToElm {
+  /**
+   * Get the edits that add record type aliases and decoders for a JSON sample,
+   * after the top level declaration at the position.
+   * Throws if the JSON is invalid or doesn't contain an object.
+   */
+  public static getEdits(
+    json: string,
+    rootName: string,
+    sourceFile: ISourceFile,
+    position: Position,
+  ): TextEdit[] {
+    const shape = getRootShape(JSON.parse(json));
+
+    if (!shape) {
+      throw new Error("The JSON needs to contain an object");
+    }
+
+    const tree = sourceFile.tree;
+    const importClause = TreeUtils.findImportClauseByName(tree, "Json.Decode");
+
+    const usedNames = new Set<string>();
+    sourceFile.symbolLinks
+      ?.get(tree.rootNode)
+      ?.forEach((_, name) => usedNames.add(name));
+
+    const context: IGeneratorContext = {
+      decode: importClause
+        ? TreeUtils.findFirstNamedChildOfType("as_clause", importClause)
+            ?.lastNamedChild?.text ?? "Json.Decode"
+        : "Decode",
+      usedNames,
+      aliases: new Map<string, IGeneratedAlias>(),
+      typeAliases: [],
+      decoders: [],
+    };
+
+    generateAlias(shape, toTypeName(rootName), context);
+
+    const edits = [
+      TextEdit.insert(
+        getInsertPosition(tree.rootNode, position),
+        `\n\n\n${[...context.typeAliases, ...context.decoders].join("\n\n\n")}`,
+      ),
+    ];
+
+    if (!importClause) {
+      const importEdit = RefactorEditUtils.addImports(tree, [
+        { moduleName: "Json.Decode as Decode" },
+      ]);
+
+      if (importEdit) {
+        edits.push(importEdit);
+      }
+    }
+
+    return edits;
+  }
+
+  public static isValidSample(json: string): boolean {
+    try {
+      return !!getRootShape(JSON.parse(json));
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * The object of the sample, or the objects of an array unified
+ */
+function getRootShape(
+  value: unknown,
+): Extract<JsonShape, { kind: "Object" }> | undefined {
+  const shape = inferShape(value);
+
+  if (shape.kind === "Object") {
+    return shape;
+  }
+
+  if (shape.kind === "List" && shape.item?.kind === "Object") {
+    return shape.item;
+  }
+}
+
+function inferShape(value: unknown): JsonShape {
+  if (value === null) {
+    return { kind: "Null" };
+  }
+
+  if (Array.isArray(value)) {
+    return {
+      kind: "List",
+      item: value
+        .map(inferShape)
+        .reduce<JsonShape | undefined>(
+          (item, shape) => (item ? unify(item, shape) : shape),
+          undefined,
+        ),
+    };
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      return { kind: "Bool" };
+    case "number":
+      return { kind: Number.isInteger(value) ? "Int" : "Float" };
+    case "string":
+      return { kind: "String" };
+    case "object":
+      return {
+        kind: "Object",
+        fields: new Map(
+          Object.entries(
+            value as Record<string, unknown>,
+          ).map(([key, fieldValue]) => [
+            key,
+            { shape: inferShape(fieldValue), optional: false },
+          ]),
+        ),
+      };
+  }
+
+  return { kind: "Value" };
+}
+
+/**
+ * Get a shape that matches both, falling back to a raw JSON value
+ */
+function unify(a: JsonShape, b: JsonShape): JsonShape {
+  if (a.kind === "Null") {
+    return b.kind === "Null" || b.kind === "Nullable"
+      ? b
+      : { kind: "Nullable", shape: b };
+  }
+
+  if (b.kind === "Null") {
+    return unify(b, a);
+  }
+
+  if (a.kind === "Nullable" || b.kind === "Nullable") {
+    return {
+      kind: "Nullable",
+      shape: unify(
+        a.kind === "Nullable" ? a.shape : a,
+        b.kind === "Nullable" ? b.shape : b,
+      ),
+    };
+  }
+
+  if (a.kind === "List" && b.kind === "List") {
+    return {
+      kind: "List",
+      item: a.item && b.item ? unify(a.item, b.item) : a.item ?? b.item,
+    };
+  }
+
+  if (a.kind === "Object" && b.kind === "Object") {
+    const fields = new Map<string, IJsonField>();
+
+    a.fields.forEach((field, key) => {
+      const other = b.fields.get(key);
+      fields.set(
+        key,
+        other
+          ? {
+              shape: unify(field.shape, other.shape),
+              optional: field.optional || other.optional,
+            }
+          : { shape: field.shape, optional: true },
+      );
+    });
+    b.fields.forEach((field, key) => {
+      if (!a.fields.has(key)) {
+        fields.set(key, { shape: field.shape, optional: true });
+      }
+    });
+
+    return { kind: "Object", fields };
+  }
+
+  if (a.kind === b.kind) {
+    return a;
+  }
+
+  if (
+    (a.kind === "Int" && b.kind === "Float") ||
+    (a.kind === "Float" && b.kind === "Int")
+  ) {
+    return { kind: "Float" };
+  }
+
+  return { kind: "Value" };
+}
+
+/**
+ * Generate the type alias and decoder for an object, objects with the same fields share one
+ */
+function generateAlias(
+  shape: Extract<JsonShape, { kind: "Object" }>,
+  nameHint: string,
+  context: IGeneratorContext,
+): IGeneratedAlias {
+  const key = getShapeKey(shape);
+  const existing = context.aliases.get(key);
+
+  if (existing) {
+    return existing;
+  }
+
+  const typeName = getUniqueName(nameHint, context);
+  const alias = {
+    typeName,
+    decoderName: getUniqueName(
+      `${CodeGenUtils.lowerFirst(typeName)}Decoder`,
+      context,
+    ),
+  };
+  context.aliases.set(key, alias);
+
+  // Reserve the position, so nested aliases come after the one using them
+  const index = context.typeAliases.push("") - 1;
+  context.decoders.push("");
+
+  const fieldNames = new Set<string>();
+  const fields = Array.from(shape.fields.entries()).map(([jsonName, field]) => {
+    let fieldName = toFieldName(jsonName);
+    let i = 1;
+    while (fieldNames.has(fieldName)) {
+      fieldName = `${toFieldName(jsonName)}${i++}`;
+    }
+    fieldNames.add(fieldName);
+
+    const fieldShape =
+      field.optional && field.shape.kind === "Nullable"
+        ? field.shape.shape
+        : field.shape;
+    const { type, decoder } = getTypeAndDecoder(
+      fieldShape,
+      toTypeName(jsonName),
+      context,
+    );
+
+    return {
+      name: fieldName,
+      type: field.optional ? `Maybe ${CodeGenUtils.parenthesize(type)}` : type,
+      decoder: field.optional
+        ? `${context.decode}.maybe (${
+            context.decode
+          }.field "${jsonName}" ${CodeGenUtils.parenthesize(decoder)})`
+        : `${context.decode}.field "${jsonName}" ${CodeGenUtils.parenthesize(
+            decoder,
+          )}`,
+    };
+  });
+
+  context.typeAliases[index] = [
+    `type alias ${typeName} =`,
+    ...(fields.length > 0
+      ? [
+          ...fields.map(
+            (field, i) =>
+              `    ${i === 0 ? "{" : ","} ${field.name} : ${field.type}`,
+          ),
+          "    }",
+        ]
+      : ["    {}"]),
+  ].join("\n");
+
+  const { decode } = context;
+  const body = CodeGenUtils.getDecoderMapLines(
+    decode,
+    typeName,
+    fields.map((field) => field.decoder),
+  );
+
+  context.decoders[index] = [
+    `${alias.decoderName} : ${decode}.Decoder ${typeName}`,
+    `${alias.decoderName} =`,
+    ...body.map((line) => `    ${line}`),
+  ].join("\n");
+
+  return alias;
+}
+
+function getTypeAndDecoder(
+  shape: JsonShape,
+  nameHint: string,
+  context: IGeneratorContext,
+): { type: string; decoder: string } {
+  const { decode } = context;
+
+  switch (shape.kind) {
+    case "Null":
+      return {
+        type: `Maybe ${decode}.Value`,
+        decoder: `${decode}.nullable ${decode}.value`,
+      };
+    case "Bool":
+      return { type: "Bool", decoder: `${decode}.bool` };
+    case "Int":
+      return { type: "Int", decoder: `${decode}.int` };
+    case "Float":
+      return { type: "Float", decoder: `${decode}.float` };
+    case "String":
+      return { type: "String", decoder: `${decode}.string` };
+    case "Value":
+      return { type: `${decode}.Value`, decoder: `${decode}.value` };
+    case "Nullable": {
+      const inner = getTypeAndDecoder(shape.shape, nameHint, context);
+      return {
+        type: `Maybe ${CodeGenUtils.parenthesize(inner.type)}`,
+        decoder: `${decode}.nullable ${CodeGenUtils.parenthesize(
+          inner.decoder,
+        )}`,
+      };
+    }
+    case "List": {
+      const inner = shape.item
+        ? getTypeAndDecoder(shape.item, singularize(nameHint), context)
+        : { type: `${decode}.Value`, decoder: `${decode}.value` };
+      return {
+        type: `List ${CodeGenUtils.parenthesize(inner.type)}`,
+        decoder: `${decode}.list ${CodeGenUtils.parenthesize(inner.decoder)}`,
+      };
+    }
+    case "Object": {
+      const alias = generateAlias(shape, nameHint, context);
+      return { type: alias.typeName, decoder: alias.decoderName };
+    }
+  }
+}
+
+function getShapeKey(shape: JsonShape): string {
+  switch (shape.kind) {
+    case "List":
+      return `List ${shape.item ? getShapeKey(shape.item) : ""}`;
+    case "Nullable":
+      return `Nullable ${getShapeKey(shape.shape)}`;
+    case "Object":
+      return `{${Array.from(shape.fields.entries())
+        .map(
+          ([key, field]) =>
+            `${JSON.stringify(key)}${field.optional ? "?" : ""}:${getShapeKey(
+              field.shape,
+            )}`,
+        )
+        .join(",")}}`;
+    default:
+      return shape.kind;
+  }
+}
+
+/**
+ * After the top level declaration containing or preceding the position, or at the end of the file
+ */
+function getInsertPosition(rootNode: SyntaxNode, position: Position): Position {
+  let declaration = rootNode.namedChildren
+    .filter(
+      (child) =>
+        child.type !== "module_declaration" &&
+        child.type !== "import_clause" &&
+        !child.type.includes("comment") &&
+        child.startPosition.row <= position.line,
+    )
+    .pop();
+
+  // Keep the type annotation with its function
+  if (declaration?.type === "type_annotation") {
+    declaration = declaration.nextNamedSibling ?? declaration;
+  }
+
+  const end = declaration?.endPosition ?? rootNode.endPosition;
+  return Position.create(end.row, end.column);
+}
+
+function getUniqueName(name: string, context: IGeneratorContext): string {
+  const uniqueName = CodeGenUtils.getUniqueName(name, (candidate) =>
+    context.usedNames.has(candidate),
+  );
+
+  context.usedNames.add(uniqueName);
+  return uniqueName;
+}
+
+function getWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+function toTypeName(text: string): string {
+  const name = getWords(text)
+    .map((word) => CodeGenUtils.upperFirst(word))
+    .join("");
+  return /^[A-Z]/.test(name) ? name : `Type${name}`;
+}
+
+function toFieldName(text: string): string {
+  const words = getWords(text);
+  const name = [
+    ...words.slice(0, 1).map((word) => word.toLowerCase()),
+    ...words.slice(1).map((word) => CodeGenUtils.upperFirst(word)),
+  ].join("");
+
+  if (!/^[a-z]/.test(name)) {
+    return `field${CodeGenUtils.upperFirst(name)}`;
+  }
+
+  return CodeGenUtils.isReservedWord(name) ? `${name}_` : name;
+}
+
+function singularize(name: string): string {
+  if (name.endsWith("ies") && name.length > 4) {
+    return `${name.slice(0, -3)}y`;
+  }
+
+  if (name.endsWith("s") && !name.endsWith("ss") && name.length > 2) {
+    return name.slice(0, -1);
+  }
+
+  return `${name}Item`;
+}
@@ -0,0 +1,449 @@
+import { Range, TextEdit } from "vscode-languageserver";
+import { SyntaxNode, Tree } from "web-tree-sitter";
+import { ISourceFile } from "../compiler/forest";
+import { IProgram } from "../compiler/program";
+import { PositionUtil } from "../positionUtil";
+import { RefactorEditUtils } from "./refactorEditUtils";
+import { TreeUtils } from "./treeUtils";
+
+interface IImport {
+  moduleName: string;
+  alias?: string;
+  // Undefined for an import without exposing list
+  exposing?: IExposedItem[] | "all";
+}
+
+interface IExposedItem {
+  name: string;
+  text: string;
+}
+
+interface IReferences {
+  // The module names and aliases used to qualify references
+  qualifiers: Set<string>;
+  // Unqualified values, types, constructors and operators
+  names: Set<string>;
+}
+
+export class OrganizeImports {
+  /**
+   * Get the edit that removes unused imports, exposed values and aliases,
+   * merges imports of the same module and sorts the imports and exposing lists
+   */
+  public static getEdits(
+    program: IProgram,
+    sourceFile: ISourceFile,
+    expandExposingAll: boolean,
+  ): TextEdit[] {
+    const rootNode = sourceFile.tree.rootNode;
+    const importClauses = rootNode.namedChildren.filter(
+      (child) => child.type === "import_clause",
+    );
+
+    if (importClauses.length === 0) {
+      return [];
+    }
+
+    const references = collectReferences([rootNode]);
+
+    const imports = importClauses
+      .map((importClause) =>
+        organizeImport(
+          parseImport(importClause),
+          references,
+          program,
+          sourceFile,
+          expandExposingAll,
+        ),
+      )
+      .filter((value): value is IImport => !!value);
+
+    const first = importClauses[0];
+    const last = importClauses[importClauses.length - 1];
+
+    // Keep comments that are between the imports above them
+    const comments = rootNode.namedChildren
+      .filter(
+        (child) =>
+          child.type !== "import_clause" &&
+          child.startIndex > first.startIndex &&
+          child.endIndex < last.endIndex,
+      )
+      .map((comment) => comment.text);
+
+    const text = [
+      ...comments,
+      ...mergeImports(imports)
+        .sort((a, b) => compare(a.moduleName, b.moduleName))
+        .map(printImport),
+    ].join("\n");
+
+    if (text === rootNode.text.slice(first.startIndex, last.endIndex)) {
+      return [];
+    }
+
+    return [
+      TextEdit.replace(
+        Range.create(
+          PositionUtil.FROM_TS_POSITION(first.startPosition).toVSPosition(),
+          PositionUtil.FROM_TS_POSITION(last.endPosition).toVSPosition(),
+        ),
+        text,
+      ),
+    ];
+  }
+
+  /**
+   * Get the organized imports of a module that are used by some of its nodes
+   */
+  public static getUsedImports(
+    program: IProgram,
+    sourceFile: ISourceFile,
+    nodes: SyntaxNode[],
+  ): string[] {
+    return getUsedImportData(program, sourceFile, nodes).map(printImport);
+  }
+
+  /**
+   * Get the edits that add the imports used by some nodes of a module to
+   * another module, or the missing values to its existing imports
+   */
+  public static getAddUsedImportsEdits(
+    program: IProgram,
+    sourceFile: ISourceFile,
+    nodes: SyntaxNode[],
+    destinationTree: Tree,
+  ): TextEdit[] {
+    const destinationModuleName = TreeUtils.getModuleNameNode(destinationTree)
+      ?.text;
+    const destinationImports = destinationTree.rootNode.namedChildren
+      .filter((child) => child.type === "import_clause")
+      .map(parseImport);
+
+    const edits: TextEdit[] = [];
+    const newImports: { moduleName: string; valueName?: string }[] = [];
+
+    getUsedImportData(program, sourceFile, nodes).forEach((importData) => {
+      if (importData.moduleName === destinationModuleName) {
+        return;
+      }
+
+      const existing = destinationImports.find(
+        (destinationImport) =>
+          destinationImport.moduleName === importData.moduleName,
+      );
+
+      if (!existing) {
+        newImports.push({
+          moduleName: importData.alias
+            ? `${importData.moduleName} as ${importData.alias}`
+            : importData.moduleName,
+          valueName: printExposing(importData),
+        });
+        return;
+      }
+
+      const existingExposing = existing.exposing ?? [];
+
+      // An exposing list can't be combined with `..`
+      if (existingExposing === "all" || !Array.isArray(importData.exposing)) {
+        return;
+      }
+
+      const missing = importData.exposing
+        .filter(
+          (item) =>
+            !existingExposing.some(
+              (existingItem) => existingItem.name === item.name,
+            ),
+        )
+        .map((item) => item.text);
+
+      const edit =
+        missing.length > 0
+          ? RefactorEditUtils.exposeValueInImport(
+              destinationTree,
+              importData.moduleName,
+              missing.sort(compare).join(", "),
+            )
+          : undefined;
+
+      if (edit) {
+        edits.push(edit);
+      }
+    });
+
+    const importEdit =
+      newImports.length > 0
+        ? RefactorEditUtils.addImports(destinationTree, newImports)
+        : undefined;
+
+    return importEdit ? [...edits, importEdit] : edits;
+  }
+}
+
+function getUsedImportData(
+  program: IProgram,
+  sourceFile: ISourceFile,
+  nodes: SyntaxNode[],
+): IImport[] {
+  const references = collectReferences(nodes);
+
+  const imports = sourceFile.tree.rootNode.namedChildren
+    .filter((child) => child.type === "import_clause")
+    .map((importClause) =>
+      organizeImport(
+        parseImport(importClause),
+        references,
+        program,
+        sourceFile,
+        false,
+      ),
+    )
+    .filter((value): value is IImport => !!value);
+
+  return mergeImports(imports).sort((a, b) =>
+    compare(a.moduleName, b.moduleName),
+  );
+}
+
+function parseImport(importClause: SyntaxNode): IImport {
+  const exposingList = importClause.childForFieldName("exposing");
+
+  return {
+    moduleName: importClause.childForFieldName("moduleName")?.text ?? "",
+    alias: importClause.childForFieldName("asClause")?.childForFieldName("name")
+      ?.text,
+    exposing: !exposingList
+      ? undefined
+      : exposingList.childForFieldName("doubleDot")
+      ? "all"
+      : exposingList.namedChildren
+          .filter(
+            (child) =>
+              child.type === "exposed_value" ||
+              child.type === "exposed_type" ||
+              child.type === "exposed_operator",
+          )
+          .map((child) => ({
+            name:
+              child.type === "exposed_type"
+                ? child.firstNamedChild?.text ?? child.text
+                : child.type === "exposed_operator"
+                ? child.firstNamedChild?.text ?? child.text
+                : child.text,
+            text: child.text.replace(/\s/g, ""),
+          })),
+  };
+}
+
+/**
+ * Remove what is unused from the import, or the whole import
+ */
+function organizeImport(
+  importData: IImport,
+  references: IReferences,
+  program: IProgram,
+  sourceFile: ISourceFile,
+  expandExposingAll: boolean,
+): IImport | undefined {
+  const importedModule = program.getSourceFileOfImportableModule(
+    sourceFile,
+    importData.moduleName,
+  );
+
+  // Without the module we can't know what is used
+  if (!importedModule?.exposing) {
+    return importData;
+  }
+
+  const exposedSymbols = importedModule.exposing;
+  const isTypeUsed = (name: string): "constructors" | "type" | undefined =>
+    exposedSymbols
+      .get(name)
+      ?.constructors?.some((constructor) =>
+        references.names.has(constructor.name),
+      )
+      ? "constructors"
+      : references.names.has(name)
+      ? "type"
+      : undefined;
+
+  let exposing: IExposedItem[] | "all" | undefined;
+
+  if (importData.exposing === "all") {
+    const used = Array.from(exposedSymbols.values())
+      .map((symbol) => {
+        if (symbol.type === "Type") {
+          const usage = isTypeUsed(symbol.name);
+          return usage === "constructors"
+            ? `${symbol.name}(..)`
+            : usage
+            ? symbol.name
+            : undefined;
+        }
+
+        return references.names.has(symbol.name)
+          ? symbol.type === "Operator"
+            ? `(${symbol.name})`
+            : symbol.name
+          : undefined;
+      })
+      .filter((text): text is string => !!text);
+
+    exposing =
+      used.length === 0
+        ? undefined
+        : expandExposingAll
+        ? used.map((text) => ({ name: text.replace("(..)", ""), text }))
+        : "all";
+  } else if (importData.exposing) {
+    const used = importData.exposing
+      .map((item) => {
+        if (item.text.endsWith("(..)")) {
+          const usage = isTypeUsed(item.name);
+          return usage === "constructors"
+            ? item
+            : usage
+            ? { name: item.name, text: item.name }
+            : undefined;
+        }
+
+        return references.names.has(item.name) ? item : undefined;
+      })
+      .filter((item): item is IExposedItem => !!item);
+
+    exposing = used.length > 0 ? used : undefined;
+  }
+
+  const isQualifiedUsed = references.qualifiers.has(
+    importData.alias ?? importData.moduleName,
+  );
+
+  if (!isQualifiedUsed && !exposing) {
+    return;
+  }
+
+  return {
+    moduleName: importData.moduleName,
+    alias: isQualifiedUsed ? importData.alias : undefined,
+    exposing,
+  };
+}
+
+/**
+ * Merge the imports of a module with the same alias
+ */
+function mergeImports(imports: IImport[]): IImport[] {
+  const merged = new Map<string, IImport>();
+
+  imports.forEach((importData) => {
+    const key = `${importData.moduleName} ${importData.alias ?? ""}`;
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, importData);
+      return;
+    }
+
+    if (existing.exposing === "all" || importData.exposing === "all") {
+      existing.exposing = "all";
+    } else if (importData.exposing) {
+      const items = new Map(
+        (existing.exposing ?? []).map((item) => [item.name, item]),
+      );
+      importData.exposing.forEach((item) => {
+        // Exposing the constructors includes exposing the type
+        if (!items.get(item.name)?.text.endsWith("(..)")) {
+          items.set(item.name, item);
+        }
+      });
+      existing.exposing = Array.from(items.values());
+    }
+  });
+
+  return Array.from(merged.values());
+}
+
+function printImport(importData: IImport): string {
+  const exposing = printExposing(importData);
+
+  return [
+    `import ${importData.moduleName}`,
+    ...(importData.alias ? [`as ${importData.alias}`] : []),
+    ...(exposing ? [`exposing (${exposing})`] : []),
+  ].join(" ");
+}
+
+function printExposing(importData: IImport): string | undefined {
+  return importData.exposing === "all"
+    ? ".."
+    : importData.exposing
+        ?.map((item) => item.text)
+        .sort(compare)
+        .join(", ");
+}
+
+function collectReferences(nodes: SyntaxNode[]): IReferences {
+  const references: IReferences = { qualifiers: new Set(), names: new Set() };
+  nodes.forEach((node) => collectNodeReferences(node, references));
+  return references;
+}
+
+function collectNodeReferences(
+  rootNode: SyntaxNode,
+  references: IReferences,
+): void {
+  const treeCursor = rootNode.walk();
+
+  const traverse = (): void => {
+    const node = treeCursor.currentNode();
+
+    switch (node.type) {
+      case "import_clause":
+      case "module_declaration":
+        return;
+
+      case "value_qid":
+      case "upper_case_qid": {
+        const identifiers = node.namedChildren.filter(
+          (child) =>
+            child.type === "upper_case_identifier" ||
+            child.type === "lower_case_identifier",
+        );
+
+        if (identifiers.length > 1) {
+          references.qualifiers.add(
+            identifiers
+              .slice(0, -1)
+              .map((identifier) => identifier.text)
+              .join("."),
+          );
+        } else if (identifiers.length === 1) {
+          references.names.add(identifiers[0].text);
+        }
+        return;
+      }
+
+      case "record_base_identifier":
+      case "operator_identifier":
+        references.names.add(node.text);
+        return;
+    }
+
+    if (treeCursor.gotoFirstChild()) {
+      do {
+        traverse();
+      } while (treeCursor.gotoNextSibling());
+
+      treeCursor.gotoParent();
+    }
+  };
+
+  traverse();
+  treeCursor.delete();
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,486 @@
+import { IElmPackageCache } from "../compiler/elmPackageCache";
+import {
+  ElmJson,
+  IElmApplicationJson,
+  IElmPackageJson,
+} from "../compiler/program";
+import {
+  IConstraint,
+  IVersion,
+  parseConstraint,
+  parseVersion,
+  solveDependencies,
+  versionCompare,
+} from "../compiler/utils/elmUtils";
+
+interface IDependencies {
+  [packageName: string]: string;
+}
+
+export interface IVersionChange {
+  packageName: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Computes new elm.json files using the packages in the local package cache
+ */
+export class PackageManager {
+  private packageCache: IElmPackageCache;
+
+  constructor(packageCache: IElmPackageCache) {
+    this.packageCache = packageCache;
+  }
+
+  public async install(
+    elmJson: ElmJson,
+    packageName: string,
+    isTestDependency = false,
+  ): Promise<ElmJson> {
+    const versions = await this.packageCache
+      .getVersions(packageName)
+      .catch(() => []);
+
+    if (versions.length === 0) {
+      throw new Error(
+        `Package \`${packageName}\` is not in the local package cache`,
+      );
+    }
+
+    if (elmJson.type === "package") {
+      return this.installInPackage(elmJson, packageName, isTestDependency);
+    }
+
+    const { dependencies, "test-dependencies": testDependencies } = elmJson;
+
+    if (
+      dependencies.direct[packageName] ||
+      (isTestDependency && dependencies.indirect[packageName])
+    ) {
+      throw new Error(`Package \`${packageName}\` is already a dependency`);
+    }
+
+    if (isTestDependency && testDependencies.direct[packageName]) {
+      throw new Error(
+        `Package \`${packageName}\` is already a test dependency`,
+      );
+    }
+
+    const direct = pinVersions(dependencies.direct);
+    const testDirect = pinVersions(testDependencies.direct);
+
+    // An indirect dependency keeps its version when it becomes direct
+    const existingVersion = isTestDependency
+      ? testDependencies.indirect[packageName]
+      : dependencies.indirect[packageName] ??
+        testDependencies.direct[packageName] ??
+        testDependencies.indirect[packageName];
+
+    const constraint = existingVersion
+      ? exactly(parseVersion(existingVersion))
+      : anyVersion();
+
+    if (isTestDependency) {
+      testDirect.set(packageName, constraint);
+    } else {
+      direct.set(packageName, constraint);
+      testDirect.delete(packageName);
+    }
+
+    return this.solveApplication(
+      elmJson,
+      direct,
+      testDirect,
+      getAllVersions(elmJson),
+    );
+  }
+
+  public async uninstall(
+    elmJson: ElmJson,
+    packageName: string,
+  ): Promise<ElmJson> {
+    if (elmJson.type === "package") {
+      if (
+        !elmJson.dependencies[packageName] &&
+        !elmJson["test-dependencies"][packageName]
+      ) {
+        throw new Error(`Package \`${packageName}\` is not a dependency`);
+      }
+
+      return {
+        ...elmJson,
+        dependencies: omit(elmJson.dependencies, packageName),
+        "test-dependencies": omit(elmJson["test-dependencies"], packageName),
+      };
+    }
+
+    const { dependencies, "test-dependencies": testDependencies } = elmJson;
+
+    if (
+      !dependencies.direct[packageName] &&
+      !testDependencies.direct[packageName]
+    ) {
+      throw new Error(`Package \`${packageName}\` is not a direct dependency`);
+    }
+
+    const direct = pinVersions(dependencies.direct);
+    const testDirect = pinVersions(testDependencies.direct);
+
+    direct.delete(packageName);
+    testDirect.delete(packageName);
+
+    return this.solveApplication(
+      elmJson,
+      direct,
+      testDirect,
+      getAllVersions(elmJson),
+    );
+  }
+
+  /**
+   * Upgrade one or all direct dependencies to the newest cached version with the same major version
+   */
+  public async upgrade(
+    elmJson: ElmJson,
+    packageName?: string,
+  ): Promise<ElmJson> {
+    if (elmJson.type === "package") {
+      throw new Error("Upgrading is only supported for applications");
+    }
+
+    const { dependencies, "test-dependencies": testDependencies } = elmJson;
+
+    if (
+      packageName &&
+      !dependencies.direct[packageName] &&
+      !testDependencies.direct[packageName]
+    ) {
+      throw new Error(`Package \`${packageName}\` is not a direct dependency`);
+    }
+
+    const getConstraints = (
+      directDependencies: IDependencies,
+    ): Map<string, IConstraint> =>
+      new Map(
+        Object.entries(directDependencies).map(([name, version]) => [
+          name,
+          !packageName || packageName === name
+            ? sameMajorVersion(parseVersion(version))
+            : exactly(parseVersion(version)),
+        ]),
+      );
+
+    // When upgrading everything, the indirect dependencies are upgraded too
+    const existingVersions = packageName
+      ? omit(getAllVersions(elmJson), packageName)
+      : {};
+
+    return this.solveApplication(
+      elmJson,
+      getConstraints(dependencies.direct),
+      getConstraints(testDependencies.direct),
+      existingVersions,
+    );
+  }
+
+  /**
+   * Upgrade a direct dependency to the newest cached major version, for packages
+   * the version constraint is widened to include it
+   */
+  public async upgradeMajor(
+    elmJson: ElmJson,
+    packageName: string,
+  ): Promise<ElmJson> {
+    const versions = await this.packageCache
+      .getVersions(packageName)
+      .catch(() => []);
+    const newestVersion = [...versions].sort(versionCompare).pop();
+
+    if (!newestVersion) {
+      throw new Error(
+        `Package \`${packageName}\` is not in the local package cache`,
+      );
+    }
+
+    if (elmJson.type === "package") {
+      const section = elmJson.dependencies[packageName]
+        ? "dependencies"
+        : "test-dependencies";
+      const constraint = elmJson[section][packageName];
+
+      if (!constraint) {
+        throw new Error(`Package \`${packageName}\` is not a dependency`);
+      }
+
+      const newElmJson = {
+        ...elmJson,
+        [section]: {
+          ...elmJson[section],
+          [packageName]: `${parseConstraint(constraint).lower.string} <= v < ${
+            newestVersion.major + 1
+          }.0.0`,
+        },
+      };
+
+      // Make sure the other dependencies still work with the new constraint
+      await this.solve(
+        new Map(
+          Object.entries({
+            ...newElmJson.dependencies,
+            ...newElmJson["test-dependencies"],
+          }).map(([name, constraint]) => [name, parseConstraint(constraint)]),
+        ),
+        {},
+      );
+
+      return newElmJson;
+    }
+
+    const { dependencies, "test-dependencies": testDependencies } = elmJson;
+
+    if (
+      !dependencies.direct[packageName] &&
+      !testDependencies.direct[packageName]
+    ) {
+      throw new Error(`Package \`${packageName}\` is not a direct dependency`);
+    }
+
+    const direct = pinVersions(dependencies.direct);
+    const testDirect = pinVersions(testDependencies.direct);
+
+    (direct.has(packageName) ? direct : testDirect).set(
+      packageName,
+      sameMajorVersion(parseVersion(`${newestVersion.major}.0.0`)),
+    );
+
+    return this.solveApplication(
+      elmJson,
+      direct,
+      testDirect,
+      omit(getAllVersions(elmJson), packageName),
+    );
+  }
+
+  public static printElmJson(elmJson: ElmJson): string {
+    return `${JSON.stringify(elmJson, null, 4)}\n`;
+  }
+
+  /**
+   * Sort the dependencies by name the way the Elm compiler writes them
+   */
+  public static sortDependencies(dependencies: IDependencies): IDependencies {
+    return Object.fromEntries(
+      Object.entries(dependencies).sort(([a], [b]) =>
+        a < b ? -1 : a > b ? 1 : 0,
+      ),
+    );
+  }
+
+  public static getVersionChanges(
+    before: ElmJson,
+    after: ElmJson,
+  ): IVersionChange[] {
+    const beforeVersions = getAllVersions(before);
+    const afterVersions = getAllVersions(after);
+
+    return Array.from(
+      new Set([...Object.keys(beforeVersions), ...Object.keys(afterVersions)]),
+    )
+      .sort()
+      .filter(
+        (packageName) =>
+          beforeVersions[packageName] !== afterVersions[packageName],
+      )
+      .map((packageName) => ({
+        packageName,
+        before: beforeVersions[packageName],
+        after: afterVersions[packageName],
+      }));
+  }
+
+  private async installInPackage(
+    elmJson: IElmPackageJson,
+    packageName: string,
+    isTestDependency: boolean,
+  ): Promise<ElmJson> {
+    if (
+      elmJson.dependencies[packageName] ||
+      elmJson["test-dependencies"][packageName]
+    ) {
+      throw new Error(`Package \`${packageName}\` is already a dependency`);
+    }
+
+    const constraints = new Map<string, IConstraint>(
+      Object.entries({
+        ...elmJson.dependencies,
+        ...elmJson["test-dependencies"],
+      }).map(([name, constraint]) => [name, parseConstraint(constraint)]),
+    );
+    constraints.set(packageName, anyVersion());
+
+    const solution = await this.solve(constraints, {});
+    const version = solution.get(packageName);
+
+    if (!version) {
+      throw new Error(`Could not find a version of \`${packageName}\``);
+    }
+
+    const section = isTestDependency ? "test-dependencies" : "dependencies";
+
+    return {
+      ...elmJson,
+      [section]: PackageManager.sortDependencies({
+        ...elmJson[section],
+        [packageName]: `${version.string} <= v < ${version.major + 1}.0.0`,
+      }),
+    };
+  }
+
+  /**
+   * Solve the direct dependencies and the test dependencies of an application,
+   * the indirect dependencies keep their existing versions if possible
+   */
+  private async solveApplication(
+    elmJson: IElmApplicationJson,
+    direct: Map<string, IConstraint>,
+    testDirect: Map<string, IConstraint>,
+    existingVersions: IDependencies,
+  ): Promise<ElmJson> {
+    const solution = await this.solve(direct, existingVersions);
+
+    // The test dependencies can't change the versions of the dependencies
+    const testConstraints = new Map(testDirect);
+    solution.forEach((version, name) => {
+      if (!testConstraints.has(name)) {
+        testConstraints.set(name, exactly(version));
+      }
+    });
+
+    const testSolution = await this.solve(testConstraints, existingVersions);
+
+    const getDependencies = (
+      versions: ReadonlyMap<string, IVersion>,
+      filter: (name: string) => boolean,
+    ): IDependencies =>
+      PackageManager.sortDependencies(
+        Object.fromEntries(
+          Array.from(versions)
+            .filter(([name]) => filter(name))
+            .map(([name, version]) => [name, version.string]),
+        ),
+      );
+
+    return {
+      ...elmJson,
+      dependencies: {
+        direct: getDependencies(solution, (name) => direct.has(name)),
+        indirect: getDependencies(solution, (name) => !direct.has(name)),
+      },
+      "test-dependencies": {
+        direct: getDependencies(testSolution, (name) => testDirect.has(name)),
+        indirect: getDependencies(
+          testSolution,
+          (name) => !testDirect.has(name) && !solution.has(name),
+        ),
+      },
+    };
+  }
+
+  private async solve(
+    constraints: Map<string, IConstraint>,
+    existingVersions: IDependencies,
+  ): Promise<ReadonlyMap<string, IVersion>> {
+    const solution = await solveDependencies(
+      this.packageCache,
+      constraints,
+    ).catch(() => {
+      throw new Error("Some dependencies are not in the local package cache");
+    });
+
+    if (!solution) {
+      throw new Error(
+        "Could not find versions of the dependencies that are compatible with each other",
+      );
+    }
+
+    // Solve again, trying to keep the versions of the packages that are still needed
+    // while keeping the versions that were picked for the requested packages
+    const pinnedConstraints = new Map<string, IConstraint>();
+    solution.forEach((version, name) => {
+      const existingVersion = existingVersions[name];
+
+      if (constraints.has(name)) {
+        pinnedConstraints.set(name, exactly(version));
+      } else if (existingVersion) {
+        pinnedConstraints.set(name, exactly(parseVersion(existingVersion)));
+      }
+    });
+
+    if (pinnedConstraints.size === constraints.size) {
+      return solution;
+    }
+
+    return (
+      (await solveDependencies(this.packageCache, pinnedConstraints).catch(
+        () => undefined,
+      )) ?? solution
+    );
+  }
+}
+
+function pinVersions(dependencies: IDependencies): Map<string, IConstraint> {
+  return new Map(
+    Object.entries(dependencies).map(([name, version]) => [
+      name,
+      exactly(parseVersion(version)),
+    ]),
+  );
+}
+
+function exactly(version: IVersion): IConstraint {
+  return {
+    lower: version,
+    upper: version,
+    lowerOperator: "<=",
+    upperOperator: "<=",
+  };
+}
+
+function sameMajorVersion(version: IVersion): IConstraint {
+  return {
+    lower: version,
+    upper: parseVersion(`${version.major + 1}.0.0`),
+    lowerOperator: "<=",
+    upperOperator: "<",
+  };
+}
+
+function anyVersion(): IConstraint {
+  return {
+    lower: parseVersion("1.0.0"),
+    upper: parseVersion(`${Number.MAX_SAFE_INTEGER}.0.0`),
+    lowerOperator: "<=",
+    upperOperator: "<",
+  };
+}
+
+/**
+ * Get the versions of an application or the constraints of a package
+ */
+function getAllVersions(elmJson: ElmJson): IDependencies {
+  return elmJson.type === "application"
+    ? {
+        ...elmJson.dependencies.indirect,
+        ...elmJson.dependencies.direct,
+        ...elmJson["test-dependencies"].indirect,
+        ...elmJson["test-dependencies"].direct,
+      }
+    : { ...elmJson.dependencies, ...elmJson["test-dependencies"] };
+}
+
+function omit(dependencies: IDependencies, packageName: string): IDependencies {
+  return Object.fromEntries(
+    Object.entries(dependencies).filter(([name]) => name !== packageName),
+  );
+}
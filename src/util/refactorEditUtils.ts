@@ -2,6 +2,11 @@ import { Position, Range, TextEdit } from "vscode-languageserver";
 import { SyntaxNode, Tree } from "web-tree-sitter";
 import { TreeUtils } from "./treeUtils";
 
+export interface ITextReplacement {
+  node: SyntaxNode;
+  text: string;
+}
+
 export class RefactorEditUtils {
   public static findLineNumberAfterCurrentFunction(
     nodeAtPosition: SyntaxNode,
@@ -30,6 +35,31 @@ export class RefactorEditUtils {
     }
   }
 
+  /**
+   * Remove a value declaration together with its type annotation and doc comment
+   */
+  public static removeValueDeclaration(declaration: SyntaxNode): TextEdit {
+    let firstNode = TreeUtils.getTypeAnnotation(declaration) ?? declaration;
+
+    if (firstNode.previousNamedSibling?.type === "block_comment") {
+      firstNode = firstNode.previousNamedSibling;
+    }
+
+    // Also remove the whitespace between the previous node and the declaration
+    const startPosition =
+      firstNode.previousSibling?.endPosition ?? firstNode.startPosition;
+
+    return TextEdit.del(
+      Range.create(
+        Position.create(startPosition.row, startPosition.column),
+        Position.create(
+          declaration.endPosition.row,
+          declaration.endPosition.column,
+        ),
+      ),
+    );
+  }
+
   public static createTopLevelFunction(
     insertLineNumber: number,
     valueName: string,
@@ -137,7 +167,8 @@ export class RefactorEditUtils {
 
       if (
         exposedValuesAndTypes.length === 1 &&
-        exposedValuesAndTypes[0].text === valueName
+        (exposedValuesAndTypes[0].text === valueName ||
+          exposedValuesAndTypes[0].text === `${valueName}(..)`)
       ) {
         // Remove the entire exposing list if it was the only one
         const exposingList = TreeUtils.findFirstNamedChildOfType(
@@ -168,6 +199,79 @@ export class RefactorEditUtils {
     }
   }
 
+  /**
+   * Remove several values or types from the exposing list of an import
+   */
+  public static removeValuesFromImport(
+    tree: Tree,
+    moduleName: string,
+    valueNames: string[],
+  ): TextEdit | undefined {
+    const exposingList = TreeUtils.findImportClauseByName(
+      tree,
+      moduleName,
+    )?.childForFieldName("exposing");
+
+    if (!exposingList || exposingList.childForFieldName("doubleDot")) {
+      return;
+    }
+
+    const exposedNodes = exposingList.namedChildren.filter(
+      (child) =>
+        child.type === "exposed_value" ||
+        child.type === "exposed_type" ||
+        child.type === "exposed_operator",
+    );
+    const remaining = exposedNodes.filter(
+      (node) =>
+        !valueNames.includes(node.firstNamedChild?.text ?? node.text) &&
+        !valueNames.includes(node.text),
+    );
+
+    if (remaining.length === exposedNodes.length) {
+      return;
+    }
+
+    // Remove the entire exposing list if nothing remains
+    const start =
+      remaining.length === 0
+        ? exposingList.previousSibling?.endPosition ??
+          exposingList.startPosition
+        : exposingList.startPosition;
+
+    return TextEdit.replace(
+      Range.create(
+        Position.create(start.row, start.column),
+        Position.create(
+          exposingList.endPosition.row,
+          exposingList.endPosition.column,
+        ),
+      ),
+      remaining.length === 0
+        ? ""
+        : `exposing (${remaining.map((node) => node.text).join(", ")})`,
+    );
+  }
+
+  /**
+   * Remove the import of a module with its line
+   */
+  public static removeImport(
+    tree: Tree,
+    moduleName: string,
+  ): TextEdit | undefined {
+    const importClause = TreeUtils.findImportClauseByName(tree, moduleName);
+
+    if (importClause) {
+      return TextEdit.del(
+        Range.create(
+          Position.create(importClause.startPosition.row, 0),
+          Position.create(importClause.endPosition.row + 1, 0),
+        ),
+      );
+    }
+  }
+
   public static addImport(
     tree: Tree,
     moduleName: string,
@@ -244,6 +348,79 @@ export class RefactorEditUtils {
     }
   }
 
+  /**
+   * Expose a value in the import of a module, adding the import if it is missing
+   */
+  public static exposeValueInImport(
+    tree: Tree,
+    moduleName: string,
+    valueName?: string,
+  ): TextEdit | undefined {
+    const importClause = TreeUtils.findImportClauseByName(tree, moduleName);
+
+    if (!importClause) {
+      return this.addImport(tree, moduleName, valueName);
+    }
+
+    if (!valueName) {
+      return;
+    }
+
+    const exposingList = importClause.childForFieldName("exposing");
+
+    if (!exposingList) {
+      return TextEdit.insert(
+        Position.create(
+          importClause.endPosition.row,
+          importClause.endPosition.column,
+        ),
+        ` exposing (${valueName})`,
+      );
+    }
+
+    const lastExposedNode = exposingList.namedChildren
+      .filter(
+        (child) =>
+          child.type === "exposed_value" ||
+          child.type === "exposed_type" ||
+          child.type === "exposed_operator",
+      )
+      .pop();
+
+    if (lastExposedNode) {
+      return TextEdit.insert(
+        Position.create(
+          lastExposedNode.endPosition.row,
+          lastExposedNode.endPosition.column,
+        ),
+        `, ${valueName}`,
+      );
+    }
+  }
+
+  /**
+   * Replace the module qualifier of a qualified reference, or remove it
+   */
+  public static changeQualifier(
+    qid: SyntaxNode,
+    qualifier?: string,
+  ): TextEdit | undefined {
+    const nameNode = qid.lastNamedChild;
+
+    if (nameNode && nameNode.id !== qid.firstNamedChild?.id) {
+      return TextEdit.replace(
+        Range.create(
+          Position.create(qid.startPosition.row, qid.startPosition.column),
+          Position.create(
+            nameNode.startPosition.row,
+            nameNode.startPosition.column,
+          ),
+        ),
+        qualifier ? `${qualifier}.` : "",
+      );
+    }
+  }
+
   public static addImports(
     tree: Tree,
     importData: {
@@ -347,15 +524,18 @@ export class RefactorEditUtils {
       let startPosition = exposedNode.startPosition;
       let endPosition = exposedNode.endPosition;
 
-      if (exposedNode.previousNamedSibling?.text === ",") {
-        startPosition = exposedNode.previousNamedSibling.startPosition;
+      // Commas are anonymous nodes
+      if (exposedNode.previousSibling?.text === ",") {
+        startPosition = exposedNode.previousSibling.startPosition;
       }
 
       if (
-        exposedNode.previousNamedSibling?.text !== "," &&
-        exposedNode.nextNamedSibling?.text === ","
+        exposedNode.previousSibling?.text !== "," &&
+        exposedNode.nextSibling?.text === ","
       ) {
-        endPosition = exposedNode.nextNamedSibling.endPosition;
+        endPosition =
+          exposedNode.nextSibling.nextSibling?.startPosition ??
+          exposedNode.nextSibling.endPosition;
       }
 
       return TextEdit.del(
@@ -373,3 +553,49 @@ export function getSpaces(n: number): string {
     .map(() => "")
     .join(" ");
 }
+
+/**
+ * Move the lines after the first one from one indentation to another
+ */
+export function reindent(
+  text: string,
+  fromColumn: number,
+  toColumn: number,
+): string {
+  return text
+    .split("\n")
+    .map((line, i) => {
+      if (i === 0 || line.trim() === "") {
+        return line;
+      }
+
+      if (toColumn >= fromColumn) {
+        return `${getSpaces(toColumn - fromColumn)}${line}`;
+      }
+
+      const leadingSpaces = line.length - line.trimStart().length;
+      return line.slice(Math.min(leadingSpaces, fromColumn - toColumn));
+    })
+    .join("\n");
+}
+
+/**
+ * Get the text of a node with some of its descendants replaced
+ */
+export function replaceInText(
+  node: SyntaxNode,
+  replacements: ITextReplacement[],
+): string {
+  let text = node.text;
+
+  [...replacements]
+    .sort((a, b) => b.node.startIndex - a.node.startIndex)
+    .forEach((replacement) => {
+      text =
+        text.slice(0, replacement.node.startIndex - node.startIndex) +
+        replacement.text +
+        text.slice(replacement.node.endIndex - node.startIndex);
+    });
+
+  return text;
+}
@@ -1,4 +1,8 @@
-import { ClientCapabilities, Connection } from "vscode-languageserver";
+import {
+  ClientCapabilities,
+  Connection,
+  ResourceOperationKind,
+} from "vscode-languageserver";
 import { injectable, container } from "tsyringe";
 
 export interface IClientSettings {
@@ -10,10 +14,29 @@ export interface IClientSettings {
   disableElmLSDiagnostics: boolean;
   skipInstallPackageConfirmation: boolean;
   onlyUpdateDiagnosticsOnSave: boolean;
+  inlayHints: IInlayHintSettings;
+  organizeImports: IOrganizeImportsSettings;
+}
+
+export interface IInlayHintSettings {
+  letBindingTypes: boolean;
+  lambdaParameterTypes: boolean;
+  casePatternTypes: boolean;
+  parameterNames: boolean;
+}
+
+export interface IOrganizeImportsSettings {
+  // Replace `exposing (..)` with the values that are used
+  expandExposingAll: boolean;
 }
 
 export interface IExtendedCapabilites {
   moveFunctionRefactoringSupport: boolean;
+  splitModuleRefactoringSupport?: boolean;
+  safeDeleteSupport?: boolean;
+  changeSignatureRefactoringSupport?: boolean;
+  jsonToElmSupport?: boolean;
+  htmlToElmSupport?: boolean;
   exposeUnexposeSupport: boolean;
   clientInitiatedDiagnostics: boolean;
 }
@@ -28,6 +51,15 @@ export class Settings {
     disableElmLSDiagnostics: false,
     skipInstallPackageConfirmation: false,
     onlyUpdateDiagnosticsOnSave: false,
+    inlayHints: {
+      letBindingTypes: true,
+      lambdaParameterTypes: true,
+      casePatternTypes: true,
+      parameterNames: false,
+    },
+    organizeImports: {
+      expandExposingAll: false,
+    },
   };
   private connection: Connection;
 
@@ -62,7 +94,27 @@ export class Settings {
     return this.clientSettings.extendedCapabilities;
   }
 
+  public get organizeImports(): IOrganizeImportsSettings {
+    return this.clientSettings.organizeImports;
+  }
+
+  public get canDeleteFiles(): boolean {
+    return (
+      this.clientCapabilities.workspace?.workspaceEdit?.resourceOperations?.includes(
+        ResourceOperationKind.Delete,
+      ) ?? false
+    );
+  }
+
   private updateSettings(config: IClientSettings): void {
-    this.clientSettings = { ...this.clientSettings, ...config };
+    this.clientSettings = {
+      ...this.clientSettings,
+      ...config,
+      inlayHints: { ...this.clientSettings.inlayHints, ...config?.inlayHints },
+      organizeImports: {
+        ...this.clientSettings.organizeImports,
+        ...config?.organizeImports,
+      },
+    };
   }
 }
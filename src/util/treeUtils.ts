@@ -26,8 +26,22 @@ export type NodeType =
   | "Port"
   | "Import";
 
+export interface IFunctionApplication {
+  target: SyntaxNode;
+  args: SyntaxNode[];
+  isPiped: boolean;
+}
+
 const functionNameRegex = new RegExp("[a-zA-Z0-9_]+");
 
+// Nodes that close with a bracket, the cursor is outside of them once it is past their end
+const bracketedExpressions = [
+  "parenthesized_expr",
+  "list_expr",
+  "tuple_expr",
+  "record_expr",
+];
+
 export class TreeUtils {
   public static getModuleNameNode(tree: Tree): SyntaxNode | undefined {
     const moduleDeclaration:
@@ -855,6 +869,68 @@ export class TreeUtils {
     }
   }
 
+  /**
+   * Find the innermost function application the cursor is in,
+   * starting from the last node before the cursor
+   */
+  public static findFunctionApplication(
+    node: SyntaxNode,
+    position: Position,
+  ): IFunctionApplication | undefined {
+    let candidate: SyntaxNode | undefined;
+    let current: SyntaxNode | null = node;
+
+    while (current && current.type !== "value_declaration") {
+      if (
+        bracketedExpressions.includes(current.type) &&
+        comparePosition(position, current.endPosition) >= 0 &&
+        current.lastChild?.isNamed() === false
+      ) {
+        // The cursor is past the closing bracket, so any application inside doesn't apply
+        candidate = undefined;
+      } else if (current.type === "function_call_expr" && !candidate) {
+        candidate = current;
+      } else if (
+        current.type === "value_expr" &&
+        !candidate &&
+        current.parent?.type !== "function_call_expr" &&
+        comparePosition(position, current.endPosition) > 0
+      ) {
+        // A function with no arguments yet, such as `List.map |`
+        candidate = current;
+      }
+
+      current = current.parent;
+    }
+
+    if (!candidate) {
+      return;
+    }
+
+    const isPiped =
+      candidate.previousNamedSibling?.type === "operator" &&
+      candidate.previousNamedSibling.text === "|>";
+
+    if (candidate.type === "value_expr") {
+      return { target: candidate, args: [], isPiped };
+    }
+
+    const target = candidate.childForFieldName("target");
+
+    // The cursor is still on the function name
+    if (!target || comparePosition(position, target.endPosition) <= 0) {
+      return;
+    }
+
+    return {
+      target,
+      args: candidate.namedChildren
+        .slice(1)
+        .filter((arg) => !arg.type.includes("comment")),
+      isPiped,
+    };
+  }
+
   public static getNamedDescendantForLineBeforePosition(
     node: SyntaxNode,
     position: Position,
@@ -895,6 +971,24 @@ export class TreeUtils {
     }
   }
 
+  /**
+   * Get the names of the declarations and patterns that are visible at the node
+   */
+  public static getNamesInScope(
+    node: SyntaxNode,
+    sourceFile: ISourceFile,
+  ): Set<string> {
+    const names = new Set<string>();
+    let scope: SyntaxNode | null = node;
+
+    while (scope) {
+      sourceFile.symbolLinks?.get(scope)?.forEach((_, name) => names.add(name));
+      scope = scope.parent;
+    }
+
+    return names;
+  }
+
   public static getLastImportNode(tree: Tree): SyntaxNode | undefined {
     const allImportNodes = this.findAllImportClauseNodes(tree);
     if (allImportNodes?.length) {
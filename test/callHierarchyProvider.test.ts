@@ -0,0 +1,149 @@
+import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { IProgram } from "../src/compiler/program";
+import { CallHierarchyProvider } from "../src/providers";
+import {
+  ICallHierarchyIncomingCallsParams,
+  ICallHierarchyOutgoingCallsParams,
+  ICallHierarchyPrepareParams,
+} from "../src/providers/paramsExtensions";
+import { getCaretPositionFromSource } from "./utils/sourceParser";
+import { baseUri, SourceTreeParser } from "./utils/sourceTreeParser";
+
+class MockCallHierarchyProvider extends CallHierarchyProvider {
+  public onPrepare(
+    params: ICallHierarchyPrepareParams,
+  ): CallHierarchyItem[] | null {
+    return this.handlePrepareCallHierarchy(params);
+  }
+
+  public onIncomingCalls(
+    params: ICallHierarchyIncomingCallsParams,
+  ): CallHierarchyIncomingCall[] | null {
+    return this.handleIncomingCalls(params);
+  }
+
+  public onOutgoingCalls(
+    params: ICallHierarchyOutgoingCallsParams,
+  ): CallHierarchyOutgoingCall[] | null {
+    return this.handleOutgoingCalls(params);
+  }
+}
+
+describe("callHierarchyProvider", () => {
+  const treeParser = new SourceTreeParser();
+  const callHierarchyProvider = new MockCallHierarchyProvider();
+
+  const source = `
+--@ Helpers.elm
+module Helpers exposing (helper)
+
+helper : Int -> Int
+helper a =
+    a
+
+--@ Page.elm
+module Page exposing (view)
+
+import Helpers
+
+view =
+    Helpers.helper (Helpers.helper 1)
+
+--@ Main.elm
+module Main exposing (main)
+
+import Helpers exposing (helper)
+
+update model =
+    let
+        next =
+            helper model
+    in
+    next
+
+main =
+    update (hel{-caret-}per 2)
+`;
+
+  async function prepare(): Promise<{
+    program: IProgram;
+    item: CallHierarchyItem;
+  }> {
+    await treeParser.init();
+
+    const { newSources, position, fileWithCaret } = getCaretPositionFromSource(
+      source,
+    );
+    const program = await treeParser.getProgram(newSources);
+    const testUri = URI.file(baseUri + fileWithCaret).toString();
+    const sourceFile = program.getSourceFile(testUri);
+
+    if (!sourceFile) {
+      throw new Error("Could not get source file");
+    }
+
+    const items = callHierarchyProvider.onPrepare({
+      program,
+      sourceFile,
+      position,
+      textDocument: { uri: testUri },
+    });
+
+    expect(items).toHaveLength(1);
+
+    return { program, item: items![0] };
+  }
+
+  it("groups incoming calls by top level declaration", async () => {
+    const { program, item } = await prepare();
+
+    expect(item.name).toEqual("helper");
+    expect(item.detail).toEqual("Helpers");
+
+    const incomingCalls = callHierarchyProvider.onIncomingCalls({
+      program,
+      sourceFile: program.getSourceFile(item.uri)!,
+      item,
+    });
+
+    expect(
+      incomingCalls
+        ?.map((call) => [call.from.name, call.fromRanges.length])
+        .sort(),
+    ).toEqual([
+      ["main", 1],
+      ["update", 1],
+      ["view", 2],
+    ]);
+  });
+
+  it("lists outgoing calls to top level declarations", async () => {
+    const { program } = await prepare();
+
+    const mainUri = URI.file(baseUri + "Main.elm").toString();
+    const mainItem = callHierarchyProvider.onPrepare({
+      program,
+      sourceFile: program.getSourceFile(mainUri)!,
+      position: { line: 11, character: 0 },
+      textDocument: { uri: mainUri },
+    })![0];
+
+    expect(mainItem.name).toEqual("main");
+
+    const outgoingCalls = callHierarchyProvider.onOutgoingCalls({
+      program,
+      sourceFile: program.getSourceFile(mainItem.uri)!,
+      item: mainItem,
+    });
+
+    expect(outgoingCalls?.map((call) => call.to.name).sort()).toEqual([
+      "helper",
+      "update",
+    ]);
+  });
+});
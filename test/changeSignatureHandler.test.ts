@@ -0,0 +1,297 @@
+import { mockDeep } from "jest-mock-extended";
+import { container } from "tsyringe";
+import { Connection, WorkspaceEdit } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { IProgram } from "../src/compiler/program";
+import { ChangeSignatureHandler } from "../src/providers/handlers/changeSignatureHandler";
+import {
+  ChangeSignatureRequest,
+  GetFunctionSignatureRequest,
+  IChangedParameter,
+  IFunctionSignature,
+} from "../src/protocol";
+import {
+  getSourceFiles,
+  getTargetPositionFromSource,
+} from "./utils/sourceParser";
+import {
+  applyEditsToSource,
+  baseUri,
+  SourceTreeParser,
+  stripCommentLines,
+  trimTrailingWhitespace,
+} from "./utils/sourceTreeParser";
+
+describe("changeSignatureHandler", () => {
+  const treeParser = new SourceTreeParser();
+
+  const requestHandlers = new Map<string, (params: unknown) => unknown>();
+  let appliedWorkspaceEdit: WorkspaceEdit | undefined;
+
+  container.register("Connection", {
+    useValue: mockDeep<Connection>({
+      onRequest: (((
+        type: { method: string },
+        handler: (params: unknown) => unknown,
+      ) => {
+        requestHandlers.set(type.method, handler);
+      }) as unknown) as Connection["onRequest"],
+      workspace: {
+        applyEdit: (edit) => {
+          if (WorkspaceEdit.is(edit)) {
+            appliedWorkspaceEdit = edit;
+          }
+
+          return Promise.resolve({ applied: true });
+        },
+      },
+    }),
+  });
+
+  async function sendRequest(
+    method: string,
+    source: string,
+    parameters?: IChangedParameter[],
+  ): Promise<{ result: unknown; sources: { [K: string]: string } }> {
+    await treeParser.init();
+
+    const target = getTargetPositionFromSource(trimTrailingWhitespace(source));
+
+    if (!target) {
+      throw new Error("Getting sources failed");
+    }
+
+    const program = await treeParser.getProgram(target.sources);
+    const workspaces = container.resolve<IProgram[]>("ElmWorkspaces");
+    workspaces.splice(0, workspaces.length);
+    workspaces.push(program);
+
+    new ChangeSignatureHandler();
+    appliedWorkspaceEdit = undefined;
+
+    const sourceUri = URI.file(baseUri + "Test.elm").toString();
+    const result = await requestHandlers.get(method)?.({
+      sourceUri,
+      params: {
+        textDocument: { uri: sourceUri },
+        range: target.range,
+        context: { diagnostics: [] },
+      },
+      parameters,
+    });
+
+    return { result, sources: target.sources };
+  }
+
+  async function testChangeSignature(
+    source: string,
+    parameters: IChangedParameter[],
+    expectedSource: string,
+  ): Promise<void> {
+    const { sources } = await sendRequest(
+      ChangeSignatureRequest.method,
+      source,
+      parameters,
+    );
+
+    Object.entries(
+      getSourceFiles(trimTrailingWhitespace(expectedSource)),
+    ).forEach(([uri, expected]) => {
+      expect(
+        applyEditsToSource(
+          stripCommentLines(sources[uri]),
+          appliedWorkspaceEdit?.changes?.[URI.file(baseUri + uri).toString()] ??
+            [],
+        ),
+      ).toEqual(expected);
+    });
+  }
+
+  const source = `
+--@ Test.elm
+module Test exposing (..)
+
+main : Int
+main =
+    add 1 2 + add (add 3 4) 5
+
+add : Int -> Int -> Int
+add a b =
+--^
+    a
+`;
+
+  it("gets the parameters of a function", async () => {
+    const { result } = await sendRequest(
+      GetFunctionSignatureRequest.method,
+      source,
+    );
+
+    expect(result).toEqual<IFunctionSignature>({
+      name: "add",
+      parameters: [
+        { pattern: "a", type: "Int" },
+        { pattern: "b", type: "Int" },
+      ],
+    });
+  });
+
+  it("removes an unused parameter in all files", async () => {
+    await testChangeSignature(
+      source +
+        `
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (add)
+
+plusOne : List Int -> List Int
+plusOne =
+    List.map (add 1)
+
+value =
+    10 |> add 1
+`,
+      [{ index: 0 }],
+      `
+--@ Test.elm
+module Test exposing (..)
+
+main : Int
+main =
+    add 1 + add (add 3)
+
+add : Int -> Int
+add a =
+    a
+
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (add)
+
+plusOne : List Int -> List Int
+plusOne =
+    List.map (\\_ -> add 1)
+
+value =
+    10 |> (\\_ -> add 1)
+`,
+    );
+  });
+
+  it("reorders the parameters", async () => {
+    await testChangeSignature(
+      source,
+      [{ index: 1 }, { index: 0 }],
+      `
+--@ Test.elm
+module Test exposing (..)
+
+main : Int
+main =
+    add 2 1 + add 5 (add 4 3)
+
+add : Int -> Int -> Int
+add b a =
+    a
+`,
+    );
+  });
+
+  it("gives the lambda parameters names that are free at the call site", async () => {
+    await testChangeSignature(
+      source +
+        `
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (add)
+
+values : Int -> List Int
+values b =
+    List.map (add b) [ 1 ]
+`,
+      [{ index: 1 }, { index: 0 }],
+      `
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (add)
+
+values : Int -> List Int
+values b =
+    List.map (\\b1 -> add b1 b) [ 1 ]
+`,
+    );
+  });
+
+  it("adds a parameter with a default value", async () => {
+    await testChangeSignature(
+      source +
+        `
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (add)
+
+value =
+    10 |> add 1
+`,
+      [
+        { index: 0 },
+        { pattern: "scale", type: "Float", defaultValue: "1.5" },
+        { index: 1 },
+      ],
+      `
+--@ Test.elm
+module Test exposing (..)
+
+main : Int
+main =
+    add 1 1.5 2 + add (add 3 1.5 4) 1.5 5
+
+add : Int -> Float -> Int -> Int
+add a scale b =
+    a
+
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (add)
+
+value =
+    10 |> add 1 1.5
+`,
+    );
+  });
+
+  it("parenthesizes a default value that is not a single expression", async () => {
+    await testChangeSignature(
+      source,
+      [
+        { index: 0 },
+        { index: 1 },
+        { pattern: "c", type: "Int", defaultValue: "(1) + (2)" },
+      ],
+      `
+--@ Test.elm
+module Test exposing (..)
+
+main : Int
+main =
+    add 1 2 ((1) + (2)) + add (add 3 4 ((1) + (2))) 5 ((1) + (2))
+
+add : Int -> Int -> Int -> Int
+add a b c =
+    a
+`,
+    );
+  });
+
+  it("does not remove a parameter that is used", async () => {
+    await expect(
+      sendRequest(ChangeSignatureRequest.method, source, [{ index: 1 }]),
+    ).rejects.toThrow("Can not remove parameter `a`");
+  });
+});
@@ -0,0 +1,216 @@
+import { DiagnosticSeverity, Range } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import {
+  checkProgram,
+  formatJson,
+  formatSarif,
+  formatText,
+  ICheckResult,
+  parseArguments,
+  runCheck,
+} from "../src/check";
+import { createNodeProgramHost, Program } from "../src/compiler/program";
+import { getSourceFiles } from "./utils/sourceParser";
+import { baseUri, SourceTreeParser } from "./utils/sourceTreeParser";
+
+describe("check command", () => {
+  const treeParser = new SourceTreeParser();
+
+  const results: ICheckResult[] = [
+    {
+      file: "src/Main.elm",
+      diagnostic: {
+        range: Range.create(2, 4, 2, 9),
+        message: "Type mismatch",
+        severity: DiagnosticSeverity.Error,
+        source: "Elm",
+        data: { uri: "file:///project/src/Main.elm", code: "type_mismatch" },
+      },
+    },
+    {
+      file: "src/Main.elm",
+      diagnostic: {
+        range: Range.create(5, 0, 5, 11),
+        message: "Unused import `Html`",
+        severity: DiagnosticSeverity.Warning,
+        source: "ElmLS",
+        data: { uri: "file:///project/src/Main.elm", code: "unused_import" },
+      },
+    },
+  ];
+
+  it("parses the arguments", () => {
+    expect(parseArguments([])).toEqual({ directory: ".", format: "text" });
+    expect(parseArguments(["app", "--format", "json"])).toEqual({
+      directory: "app",
+      format: "json",
+    });
+    expect(parseArguments(["--format=sarif"])).toEqual({
+      directory: ".",
+      format: "sarif",
+    });
+
+    expect(parseArguments(["--format", "xml"])).toBeUndefined();
+    expect(parseArguments(["--format"])).toBeUndefined();
+    expect(parseArguments(["--verbose"])).toBeUndefined();
+    expect(parseArguments(["app", "other"])).toBeUndefined();
+  });
+
+  it("exits with 2 for invalid arguments", async () => {
+    const write = jest
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    try {
+      await expect(runCheck(["--format", "xml"])).resolves.toBe(2);
+      expect(write).toHaveBeenCalledWith(
+        expect.stringContaining("Usage: elm-language-server check"),
+      );
+    } finally {
+      write.mockRestore();
+    }
+  });
+
+  it("formats the diagnostics as text", () => {
+    expect(formatText(results)).toEqual(
+      [
+        "src/Main.elm:3:5: error: Type mismatch [type_mismatch]",
+        "src/Main.elm:6:1: warning: Unused import `Html` [unused_import]",
+        "1 error(s), 1 warning(s)",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("formats the diagnostics as json", () => {
+    expect(formatJson(results)).toEqual([
+      {
+        file: "src/Main.elm",
+        severity: "error",
+        code: "type_mismatch",
+        source: "Elm",
+        message: "Type mismatch",
+        range: Range.create(2, 4, 2, 9),
+      },
+      {
+        file: "src/Main.elm",
+        severity: "warning",
+        code: "unused_import",
+        source: "ElmLS",
+        message: "Unused import `Html`",
+        range: Range.create(5, 0, 5, 11),
+      },
+    ]);
+  });
+
+  it("formats the diagnostics as sarif", () => {
+    const sarif = formatSarif(results, "/project") as {
+      runs: {
+        tool: { driver: { rules: { id: string }[] } };
+        originalUriBaseIds: { SRCROOT: { uri: string } };
+        results: unknown[];
+      }[];
+    };
+    const run = sarif.runs[0];
+
+    expect(run.tool.driver.rules).toEqual([
+      { id: "type_mismatch" },
+      { id: "unused_import" },
+    ]);
+    expect(run.originalUriBaseIds.SRCROOT.uri).toEqual(
+      `${URI.file("/project").toString()}/`,
+    );
+    expect(run.results[1]).toEqual({
+      ruleId: "unused_import",
+      ruleIndex: 1,
+      level: "warning",
+      message: { text: "Unused import `Html`" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "src/Main.elm", uriBaseId: "SRCROOT" },
+            region: { startLine: 6, startColumn: 1, endLine: 6, endColumn: 12 },
+          },
+        },
+      ],
+    });
+  });
+
+  it("exits with 1 if there are errors", async () => {
+    await treeParser.init();
+
+    const withError = await treeParser.getProgram(
+      getSourceFiles(`
+--@ Main.elm
+module Main exposing (main)
+
+main =
+    missing
+`),
+    );
+    const result = checkProgram(withError, baseUri, "text");
+
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain("Main.elm:4:5: error:");
+
+    const withoutError = await treeParser.getProgram(
+      getSourceFiles(`
+--@ Main.elm
+module Main exposing (main)
+
+main =
+    1
+`),
+    );
+
+    expect(checkProgram(withoutError, baseUri, "text")).toEqual({
+      exitCode: 0,
+      output: "0 error(s), 0 warning(s)\n",
+    });
+  });
+
+  it("applies the ignore comments", async () => {
+    await treeParser.init();
+
+    const getOutput = async (comment: string): Promise<string> =>
+      checkProgram(
+        await treeParser.getProgram(
+          getSourceFiles(`
+--@ Main.elm
+module Main exposing (main)
+
+${comment}
+import Other
+
+main =
+    1
+
+--@ Other.elm
+module Other exposing (other)
+
+other =
+    1
+`),
+        ),
+        baseUri,
+        "text",
+      ).output;
+
+    expect(await getOutput("")).toContain("warning: Unused import `Other`");
+    expect(await getOutput("-- elm-ls-ignore-next-line unused_import")).toEqual(
+      "0 error(s), 0 warning(s)\n",
+    );
+  });
+
+  it("exits with 2 if the project can not be loaded", () => {
+    const program = new Program(
+      URI.file("/not/a/project"),
+      createNodeProgramHost(),
+    );
+
+    expect(checkProgram(program, "/not/a/project", "json")).toEqual({
+      exitCode: 2,
+      output: "Could not load the Elm project in /not/a/project\n",
+    });
+  });
+});
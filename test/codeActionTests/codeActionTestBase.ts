@@ -2,10 +2,13 @@ import { container } from "tsyringe";
 import { CodeAction } from "vscode-languageserver";
 import { URI } from "vscode-uri";
 import { IProgram } from "../../src/compiler/program";
+import { ISourceFile } from "../../src/compiler/forest";
 import {
   CodeActionProvider,
   convertFromAnalyzerDiagnostic,
+  IRefactorCodeAction,
 } from "../../src/providers";
+import { DeadCodeDiagnostics } from "../../src/providers/diagnostics/deadCodeDiagnostics";
 import { ICodeActionParams } from "../../src/providers/paramsExtensions";
 import { Utils } from "../../src/util/utils";
 import {
@@ -57,6 +60,18 @@ class MockCodeActionsProvider extends CodeActionProvider {
   public handleCodeAction(params: ICodeActionParams): CodeAction[] | undefined {
     return this.onCodeAction(params);
   }
+
+  public handleCodeActionResolve(
+    codeAction: CodeAction,
+    program: IProgram,
+    sourceFile: ISourceFile,
+  ): CodeAction {
+    return this.onCodeActionResolve(
+      codeAction as IRefactorCodeAction,
+      program,
+      sourceFile,
+    );
+  }
 }
 
 export async function testCodeAction(
@@ -89,7 +104,7 @@ export async function testCodeAction(
   workspaces.splice(0, workspaces.length);
   workspaces.push(program);
 
-  const range = { start: result.position, end: result.position };
+  const range = result.range;
   const codeActions =
     codeActionProvider.handleCodeAction({
       program,
@@ -103,7 +118,14 @@ export async function testCodeAction(
           ...program.getSuggestionDiagnostics(sourceFile),
         ]
           .filter((diag) => Utils.rangeOverlaps(diag.range, range))
-          .map(convertFromAnalyzerDiagnostic),
+          .map(convertFromAnalyzerDiagnostic)
+          .concat(
+            (
+              new DeadCodeDiagnostics()
+                .createDiagnostics(program)
+                .get(testUri) ?? []
+            ).filter((diag) => Utils.rangeOverlaps(diag.range, range)),
+          ),
       },
     }) ?? [];
 
@@ -122,6 +144,21 @@ export async function testCodeAction(
   expect(codeActionsExist).toBeTruthy();
 
   if (expectedResultAfterEdits) {
+    // Refactorings only get their edits when they are resolved
+    let codeAction =
+      codeActions.find((c) => codeActionEquals(expectedCodeActions[0], c)) ??
+      codeActions[0];
+    if (
+      !codeAction.edit &&
+      (codeAction as IRefactorCodeAction).data?.refactorName
+    ) {
+      codeAction = codeActionProvider.handleCodeActionResolve(
+        codeAction,
+        program,
+        sourceFile,
+      );
+    }
+
     const expectedSources = getSourceFiles(
       trimTrailingWhitespace(expectedResultAfterEdits),
     );
@@ -130,8 +167,7 @@ export async function testCodeAction(
       expect(
         applyEditsToSource(
           stripCommentLines(result.sources[uri]),
-          codeActions[0].edit?.changes![URI.file(baseUri + uri).toString()] ??
-            [],
+          codeAction.edit?.changes![URI.file(baseUri + uri).toString()] ?? [],
         ),
       ).toEqual(source);
     });
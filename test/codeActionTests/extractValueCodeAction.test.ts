@@ -0,0 +1,155 @@
+import { testCodeAction } from "./codeActionTestBase";
+
+describe("extract value code action", () => {
+  test("extract to a new let", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int
+func x =
+    x + (x + 1)
+      --^^^^^^^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int
+func x =
+    let
+        int =
+            x + 1
+    in
+    x + int
+`;
+
+    await testCodeAction(source, [{ title: "Extract to let" }], expectedSource);
+  });
+
+  test("extract to an existing let", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int
+func x =
+    let
+        y =
+            2
+    in
+    y + (x + 1)
+      --^^^^^^^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int
+func x =
+    let
+        y =
+            2
+
+        int =
+            x + 1
+    in
+    y + int
+`;
+
+    await testCodeAction(source, [{ title: "Extract to let" }], expectedSource);
+  });
+
+  test("extract to let replacing all occurrences", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int -> Int
+func x int =
+    (x + 1) + (x + 1)
+  --^^^^^^^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int -> Int
+func x int =
+    let
+        int1 =
+            x + 1
+    in
+    int1 + int1
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Extract to let, replacing all 2 occurrences" }],
+      expectedSource,
+    );
+  });
+
+  test("extract to a let inside of a lambda", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> (Int -> Int)
+func x =
+    \\y -> y + (x + y)
+            --^^^^^^^
+`;
+
+    await testCodeAction(source, [{ title: "Extract to let" }]);
+  });
+
+  test("extract to a top-level constant", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+type alias Point =
+    { x : Int, y : Int }
+
+func : Int -> Point
+func x =
+    { x = x, y = 0 }
+
+origin : Point
+origin =
+    { x = 0, y = 0 }
+  --^^^^^^^^^^^^^^^^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+type alias Point =
+    { x : Int, y : Int }
+
+func : Int -> Point
+func x =
+    { x = x, y = 0 }
+
+origin : Point
+origin =
+    record
+
+
+record : { x : Int, y : Int }
+record =
+    { x = 0, y = 0 }
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Extract to top-level constant" }],
+      expectedSource,
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { testCodeAction } from "./codeActionTestBase";
+
+const coreSources = `
+--@ String.elm
+module String exposing (String)
+
+type String = String
+
+--@ Maybe.elm
+module Maybe exposing (Maybe(..))
+
+type Maybe a = Just a | Nothing
+
+--@ List.elm
+module List exposing (..)
+
+`;
+
+describe("generate json code action", () => {
+  test("generate a decoder for a record", async () => {
+    const source =
+      coreSources +
+      `
+--@ Test.elm
+module Test exposing (..)
+
+type Color = Red | Green
+
+type alias Point = { x : Float, y : Float }
+
+type alias User = { name : String, age : Maybe Int, tags : List String, position : Point, color : Color }
+           --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+import Json.Decode as Decode
+
+type Color = Red | Green
+
+type alias Point = { x : Float, y : Float }
+
+type alias User = { name : String, age : Maybe Int, tags : List String, position : Point, color : Color }
+
+
+userDecoder : Decode.Decoder User
+userDecoder =
+    Decode.map5 User
+        (Decode.field "name" Decode.string)
+        (Decode.field "age" (Decode.nullable Decode.int))
+        (Decode.field "tags" (Decode.list Decode.string))
+        (Decode.field "position" pointDecoder)
+        (Decode.field "color" colorDecoder)
+
+
+pointDecoder : Decode.Decoder Point
+pointDecoder =
+    Decode.map2 Point
+        (Decode.field "x" Decode.float)
+        (Decode.field "y" Decode.float)
+
+
+colorDecoder : Decode.Decoder Color
+colorDecoder =
+    Decode.string
+        |> Decode.andThen
+            (\\tag ->
+                case tag of
+                    "Red" ->
+                        Decode.succeed Red
+
+                    "Green" ->
+                        Decode.succeed Green
+
+                    _ ->
+                        Decode.fail ("Unknown Color: " ++ tag)
+            )
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Generate JSON decoder for `User`" }],
+      expectedSource,
+    );
+  });
+
+  test("generate an encoder for a custom type", async () => {
+    const source =
+      coreSources +
+      `
+--@ Test.elm
+module Test exposing (..)
+
+import Json.Encode as E
+
+type Shape a = Circle Float | Rectangle ( Int, Int ) | Custom a | Empty
+      --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+import Json.Encode as E
+
+type Shape a = Circle Float | Rectangle ( Int, Int ) | Custom a | Empty
+
+
+encodeShape : (a -> E.Value) -> Shape a -> E.Value
+encodeShape encodeA shape =
+    case shape of
+        Circle arg1 ->
+            E.object
+                [ ( "tag", E.string "Circle" )
+                , ( "args", E.list identity [ E.float arg1 ] )
+                ]
+
+        Rectangle arg1 ->
+            E.object
+                [ ( "tag", E.string "Rectangle" )
+                , ( "args", E.list identity [ (\\( first, second ) -> E.list identity [ E.int first, E.int second ]) arg1 ] )
+                ]
+
+        Custom arg1 ->
+            E.object
+                [ ( "tag", E.string "Custom" )
+                , ( "args", E.list identity [ encodeA arg1 ] )
+                ]
+
+        Empty ->
+            E.object
+                [ ( "tag", E.string "Empty" )
+                ]
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Generate JSON encoder for `Shape`" }],
+      expectedSource,
+    );
+  });
+
+  test("reuse an existing decoder and decode recursive types lazily", async () => {
+    const source =
+      coreSources +
+      `
+--@ Json/Decode.elm
+module Json.Decode exposing (Decoder, string)
+
+type Decoder a = Decoder
+
+string : Decoder String
+string =
+    Decoder
+
+--@ Api.elm
+module Api exposing (Id, idDecoder)
+
+import Json.Decode
+
+type Id = Id String
+
+idDecoder : Json.Decode.Decoder Id
+idDecoder =
+    Json.Decode.map Id Json.Decode.string
+
+--@ Test.elm
+module Test exposing (..)
+
+import Api exposing (Id)
+import Json.Decode as D
+
+type Tree = Node Id (List Tree)
+     --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+import Api exposing (Id)
+import Json.Decode as D
+
+type Tree = Node Id (List Tree)
+
+
+treeDecoder : D.Decoder Tree
+treeDecoder =
+    D.field "tag" D.string
+        |> D.andThen
+            (\\tag ->
+                case tag of
+                    "Node" ->
+                        D.map2 Node
+                            (D.field "args" (D.index 0 Api.idDecoder))
+                            (D.field "args" (D.index 1 (D.list (D.lazy (\\_ -> treeDecoder)))))
+
+                    _ ->
+                        D.fail ("Unknown Tree: " ++ tag)
+            )
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Generate JSON decoder for `Tree`" }],
+      expectedSource,
+    );
+  });
+});
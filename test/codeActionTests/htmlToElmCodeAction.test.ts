@@ -0,0 +1,125 @@
+import { testCodeAction } from "./codeActionTestBase";
+
+describe("html to elm code action", () => {
+  test("convert html and add the imports", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+view =
+    """<div class="card" style="color: red; margin: 0">
+  <h1 data-id="1">Tom &amp; Jerry</h1>
+  <input type="checkbox" checked maxlength="3" onchange="toggle()">
+  <select onchange="pick()"></select>
+  <button onclick="save()">Save</button>
+</div>"""
+  --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+import Html exposing (button, div, h1, input, select, text)
+import Html.Attributes exposing (attribute, checked, class, maxlength, style, type_)
+import Html.Events exposing (on, onCheck, onClick)
+
+view =
+    div [ class "card", style "color" "red", style "margin" "0" ]
+        [ h1 [ attribute "data-id" "1" ] [ text "Tom & Jerry" ]
+        , input [ type_ "checkbox", checked True, maxlength 3, onCheck (Debug.todo "toggle()") ] []
+        , select [ on "change" (Debug.todo "pick()") ] []
+        , button [ onClick (Debug.todo "save()") ] [ text "Save" ]
+        ]
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Convert HTML to Elm" }],
+      expectedSource,
+    );
+  });
+
+  test("use the existing imports and the values of the html package", async () => {
+    const source = `
+--@ Html.elm
+module Html exposing (Html, div, node, text)
+
+type Html msg = Html
+
+div : List a -> List (Html msg) -> Html msg
+div _ _ =
+    Html
+
+node : String -> List a -> List (Html msg) -> Html msg
+node _ _ _ =
+    Html
+
+text : String -> Html msg
+text _ =
+    Html
+
+--@ Html/Attributes.elm
+module Html.Attributes exposing (class)
+
+class : String -> a
+class =
+    Debug.todo "class"
+
+--@ Test.elm
+module Test exposing (..)
+
+import Html exposing (..)
+import Html.Attributes as Attr
+
+view =
+    "<p class='a'>Hi <b>there</b></p>"
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+import Html exposing (..)
+import Html.Attributes as Attr
+
+view =
+    node "p" [ Attr.class "a" ]
+        [ text "Hi "
+        , node "b" [] [ text "there" ]
+        ]
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Convert HTML to Elm" }],
+      expectedSource,
+    );
+  });
+
+  test("keep character references that are not valid code points", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+view =
+    "<p>&#x110000; &#65;</p>"
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+import Html exposing (p, text)
+
+view =
+    p [] [ text "&#x110000; A" ]
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Convert HTML to Elm" }],
+      expectedSource,
+    );
+  });
+});
@@ -0,0 +1,350 @@
+import { testCodeAction } from "./codeActionTestBase";
+
+describe("inline code action", () => {
+  test("inline a function call, substituting the arguments", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+add : Int -> Int -> Int
+add a b =
+    a + b
+
+func : Int -> Int
+func x =
+    add x 1 + 2
+   --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+add : Int -> Int -> Int
+add a b =
+    a + b
+
+func : Int -> Int
+func x =
+    (x + 1) + 2
+`;
+
+    await testCodeAction(source, [{ title: "Inline `add`" }], expectedSource);
+  });
+
+  test("use a let for arguments used more than once or that are not simple", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+double : Int -> Int
+double a =
+    a + a
+
+func : Int -> Int
+func x =
+    double (x + 1)
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+double : Int -> Int
+double a =
+    a + a
+
+func : Int -> Int
+func x =
+    let
+        a =
+            (x + 1)
+    in
+    a + a
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Inline `double`" }],
+      expectedSource,
+    );
+  });
+
+  test("substitute variables for parameters used more than once", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+double : Int -> Int
+double a =
+    a + a
+
+func : Int -> Int
+func a =
+    double a
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+double : Int -> Int
+double a =
+    a + a
+
+func : Int -> Int
+func a =
+    a + a
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Inline `double`" }],
+      expectedSource,
+    );
+  });
+
+  test("rename let bindings that would shadow a name at the call site", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+double : Int -> Int
+double a =
+    a + a
+
+func : Int -> Int -> Int
+func a b =
+    double (b + 1) + a
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+double : Int -> Int
+double a =
+    a + a
+
+func : Int -> Int -> Int
+func a b =
+    (let
+        a1 =
+            (b + 1)
+    in
+    a1 + a1) + a
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Inline `double`" }],
+      expectedSource,
+    );
+  });
+
+  test("inline the last usage of a let binding and remove it", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int
+func x =
+    let
+        y =
+            x + 1
+    in
+    y + 2
+  --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+func : Int -> Int
+func x =
+    (x + 1) + 2
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Inline `y` and remove the definition" }],
+      expectedSource,
+    );
+  });
+
+  test("inline the last usage of a top level function and remove it", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (func, helper)
+
+{-| Doc
+-}
+helper : Int -> Int
+helper a =
+    a + 1
+
+func : Int -> Int
+func x =
+    helper x
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (func)
+
+func : Int -> Int
+func x =
+    x + 1
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Inline `helper` and remove the definition" }],
+      expectedSource,
+    );
+  });
+
+  test("qualify references from another module", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+import Util exposing (wrap)
+
+func : Int -> List Int
+func x =
+    wrap x
+    --^
+
+--@ Util.elm
+module Util exposing (wrap, single)
+
+single : a -> List a
+single a =
+    [ a ]
+
+wrap : a -> List a
+wrap a =
+    single a
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+import Util exposing (wrap)
+
+func : Int -> List Int
+func x =
+    Util.single x
+`;
+
+    await testCodeAction(source, [{ title: "Inline `wrap`" }], expectedSource);
+  });
+
+  test("use a let for arguments whose names the body binds", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+add : Int -> Int
+add a =
+    let
+        x =
+            1
+    in
+    a + x
+
+func : Int -> Int
+func x =
+    add x
+   --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+add : Int -> Int
+add a =
+    let
+        x =
+            1
+    in
+    a + x
+
+func : Int -> Int
+func x =
+    let
+        a =
+            x
+    in
+    let
+        x =
+            1
+    in
+    a + x
+`;
+
+    await testCodeAction(source, [{ title: "Inline `add`" }], expectedSource);
+  });
+
+  test("no inline when the body uses values its module doesn't expose", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+import Other exposing (add)
+
+func : Int -> Int
+func x =
+    add x
+   --^
+
+--@ Other.elm
+module Other exposing (add)
+
+helper : Int -> Int
+helper a =
+    a + 1
+
+add : Int -> Int
+add a =
+    helper a
+`;
+
+    await testCodeAction(source, []);
+    await expect(
+      testCodeAction(source, [{ title: "Inline `add`" }]),
+    ).rejects.toThrow();
+  });
+
+  test("no inline for recursive functions", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+count : Int -> Int
+count n =
+    if n == 0 then
+        0
+
+    else
+        count (n + -1)
+
+func =
+    count 3
+   --^
+`;
+
+    await testCodeAction(source, []);
+    await expect(
+      testCodeAction(source, [{ title: "Inline `count`" }]),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,111 @@
+import { testCodeAction } from "./codeActionTestBase";
+
+describe("json to elm code action", () => {
+  test("generate nested type aliases and decoders", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+sample =
+    """{ "name": "Ann", "age": 42, "home-address": { "street": "Main", "zip": null }, "tags": ["a"] }"""
+       --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+import Json.Decode as Decode
+
+sample =
+    """{ "name": "Ann", "age": 42, "home-address": { "street": "Main", "zip": null }, "tags": ["a"] }"""
+
+
+type alias Root =
+    { name : String
+    , age : Int
+    , homeAddress : HomeAddress
+    , tags : List String
+    }
+
+
+type alias HomeAddress =
+    { street : String
+    , zip : Maybe Decode.Value
+    }
+
+
+rootDecoder : Decode.Decoder Root
+rootDecoder =
+    Decode.map4 Root
+        (Decode.field "name" Decode.string)
+        (Decode.field "age" Decode.int)
+        (Decode.field "home-address" homeAddressDecoder)
+        (Decode.field "tags" (Decode.list Decode.string))
+
+
+homeAddressDecoder : Decode.Decoder HomeAddress
+homeAddressDecoder =
+    Decode.map2 HomeAddress
+        (Decode.field "street" Decode.string)
+        (Decode.field "zip" (Decode.nullable Decode.value))
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Generate types and decoder from JSON" }],
+      expectedSource,
+    );
+  });
+
+  test("unify the objects in an array", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+import Json.Decode as D
+
+type alias Root =
+    String
+
+sample =
+    """[ { "id": 1, "score": 1.5, "type": "a" }, { "id": 2, "score": 2, "note": "b", "type": null } ]"""
+       --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+import Json.Decode as D
+
+type alias Root =
+    String
+
+sample =
+    """[ { "id": 1, "score": 1.5, "type": "a" }, { "id": 2, "score": 2, "note": "b", "type": null } ]"""
+
+
+type alias Root1 =
+    { id : Int
+    , score : Float
+    , type_ : Maybe String
+    , note : Maybe String
+    }
+
+
+root1Decoder : D.Decoder Root1
+root1Decoder =
+    D.map4 Root1
+        (D.field "id" D.int)
+        (D.field "score" D.float)
+        (D.field "type" (D.nullable D.string))
+        (D.maybe (D.field "note" D.string))
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Generate types and decoder from JSON" }],
+      expectedSource,
+    );
+  });
+});
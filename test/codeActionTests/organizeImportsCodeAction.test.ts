@@ -0,0 +1,133 @@
+import { container } from "tsyringe";
+import { Settings } from "../../src/util/settings";
+import { testCodeAction } from "./codeActionTestBase";
+
+const otherSources = `
+--@ Colors.elm
+module Colors exposing (Color(..), red, blue, toString)
+
+type Color = Red | Blue
+
+red : Color
+red =
+    Red
+
+blue : Color
+blue =
+    Blue
+
+toString : Color -> String
+toString color =
+    ""
+
+--@ Shapes.elm
+module Shapes exposing (..)
+
+type Shape = Circle | Square
+
+circle : Shape
+circle =
+    Circle
+
+area : Shape -> Int
+area shape =
+    1
+
+--@ Unused.elm
+module Unused exposing (value)
+
+value : Int
+value =
+    1
+`;
+
+describe("organize imports code action", () => {
+  test("remove, merge and sort imports", async () => {
+    const source =
+      otherSources +
+      `
+--@ Test.elm
+module Test exposing (..)
+
+import Unused
+import Shapes as S exposing (..)
+import Colors exposing (Color(..), red)
+import Colors exposing (toString, blue)
+
+value : Color -> Int
+value color =
+    case color of
+        Red ->
+            area circle
+
+        Blue ->
+            String.length (toString red)
+--^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+import Colors exposing (Color(..), red, toString)
+import Shapes exposing (..)
+
+value : Color -> Int
+value color =
+    case color of
+        Red ->
+            area circle
+
+        Blue ->
+            String.length (toString red)
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Organize imports" }],
+      expectedSource,
+    );
+  });
+
+  test("expand exposing all when configured", async () => {
+    const settings = container.resolve<Settings>("Settings");
+    settings.organizeImports.expandExposingAll = true;
+
+    const source =
+      otherSources +
+      `
+--@ Test.elm
+module Test exposing (..)
+
+import Shapes exposing (..)
+import Colors as C exposing (Color)
+
+value : Color -> Shapes.Shape -> Int
+value color shape =
+    area circle
+--^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+import Colors exposing (Color)
+import Shapes exposing (area, circle)
+
+value : Color -> Shapes.Shape -> Int
+value color shape =
+    area circle
+`;
+
+    try {
+      await testCodeAction(
+        source,
+        [{ title: "Organize imports" }],
+        expectedSource,
+      );
+    } finally {
+      settings.organizeImports.expandExposingAll = false;
+    }
+  });
+});
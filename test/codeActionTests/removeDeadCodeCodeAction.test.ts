@@ -0,0 +1,133 @@
+import { container } from "tsyringe";
+import { ResourceOperationKind } from "vscode-languageserver";
+import { IClientSettings, Settings } from "../../src/util/settings";
+import { testCodeAction } from "./codeActionTestBase";
+
+const mainSources = `
+--@ Main.elm
+module Main exposing (main)
+
+import Test
+
+main =
+    Test.used
+`;
+
+describe("remove dead code code action", () => {
+  test("only unexpose a value used by other dead code", async () => {
+    const source =
+      mainSources +
+      `
+--@ Test.elm
+module Test exposing (used, unused)
+
+used : Int
+used =
+    1
+
+unused : Int
+unused =
+--^
+    1
+
+alsoUnused : Int
+alsoUnused =
+    unused
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (used)
+
+used : Int
+used =
+    1
+
+unused : Int
+unused =
+    1
+
+alsoUnused : Int
+alsoUnused =
+    unused
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Unexpose `unused`" }],
+      expectedSource,
+    );
+    await expect(
+      testCodeAction(source, [{ title: "Delete `unused`" }]),
+    ).rejects.toThrow();
+  });
+
+  test("delete an unused value", async () => {
+    const source =
+      mainSources +
+      `
+--@ Test.elm
+module Test exposing (used, unused)
+
+unused : Int
+unused = 1
+--^
+
+used : Int
+used =
+    1
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (used)
+
+used : Int
+used =
+    1
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Delete `unused`" }, { title: "Unexpose `unused`" }],
+      expectedSource,
+    );
+  });
+
+  test("delete an unused module only when the client can delete files", async () => {
+    const source = `
+--@ Main.elm
+module Main exposing (main)
+
+main =
+    1
+
+--@ Test.elm
+module Test exposing (value)
+      --^
+
+value : Int
+value =
+    1
+`;
+
+    await expect(
+      testCodeAction(source, [{ title: "Delete module `Test`" }]),
+    ).rejects.toThrow();
+
+    const settings = container.resolve<Settings>("Settings");
+    container.register("Settings", {
+      useValue: new Settings({} as IClientSettings, {
+        workspace: {
+          workspaceEdit: { resourceOperations: [ResourceOperationKind.Delete] },
+        },
+      }),
+    });
+
+    try {
+      await testCodeAction(source, [{ title: "Delete module `Test`" }]);
+    } finally {
+      container.register("Settings", { useValue: settings });
+    }
+  });
+});
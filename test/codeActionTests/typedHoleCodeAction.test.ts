@@ -0,0 +1,137 @@
+import { testCodeAction } from "./codeActionTestBase";
+
+describe("typed hole code action", () => {
+  const debugSource = `
+--@ Debug.elm
+module Debug exposing (todo)
+
+todo : String -> a
+todo message =
+    todo message
+`;
+
+  it("should replace a Debug.todo hole with a fitting value", async () => {
+    const source = `
+${debugSource}
+--@ Test.elm
+module Test exposing (..)
+
+type Color
+    = Red
+    | Blue
+
+darken : Color -> Color
+darken color =
+    color
+
+func : Int -> Color
+func count =
+    Debug.todo "color"
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+type Color
+    = Red
+    | Blue
+
+darken : Color -> Color
+darken color =
+    color
+
+func : Int -> Color
+func count =
+    Red
+`;
+
+    await testCodeAction(
+      source,
+      [
+        { title: "Replace hole with `Red`" },
+        { title: "Replace hole with `Blue`" },
+        { title: "Replace hole with `darken _`" },
+      ],
+      expectedSource,
+    );
+  });
+
+  it("should prefer values in scope", async () => {
+    const source = `
+${debugSource}
+--@ Test.elm
+module Test exposing (..)
+
+type Color
+    = Red
+    | Blue
+
+func : Color -> Color
+func color =
+    Debug.todo "color"
+    --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+type Color
+    = Red
+    | Blue
+
+func : Color -> Color
+func color =
+    color
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Replace hole with `color`" }],
+      expectedSource,
+    );
+  });
+
+  it("should replace an argument placeholder", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+type Color
+    = Red
+    | Blue
+
+mix : Color -> Color -> Color
+mix first second =
+    first
+
+func =
+    mix _ Blue
+       --^
+`;
+
+    const expectedSource = `
+--@ Test.elm
+module Test exposing (..)
+
+type Color
+    = Red
+    | Blue
+
+mix : Color -> Color -> Color
+mix first second =
+    first
+
+func =
+    mix Red Blue
+`;
+
+    await testCodeAction(
+      source,
+      [{ title: "Replace hole with `Red`" }],
+      expectedSource,
+    );
+  });
+});
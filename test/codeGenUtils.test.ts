@@ -0,0 +1,37 @@
+import { CodeGenUtils } from "../src/util/codeGenUtils";
+
+describe("code generation utils", () => {
+  it("only leaves names, literals and enclosed expressions unparenthesized", () => {
+    const unchanged = [
+      "a",
+      "Decode.int",
+      ".field",
+      "1.5",
+      '"a b"',
+      "'a'",
+      '"""a\n"b"\n"""',
+      "( a, b )",
+      "[ a, b ]",
+      "{ a = 1 }",
+      '(f ")")',
+    ];
+
+    unchanged.forEach((text) =>
+      expect(CodeGenUtils.parenthesize(text)).toEqual(text),
+    );
+
+    const wrapped = [
+      "f a",
+      "a+b",
+      "-1",
+      "(a) + (b)",
+      '"a" ++ "b"',
+      "[ a ] ++ [ b ]",
+      '(f ")") a',
+    ];
+
+    wrapped.forEach((text) =>
+      expect(CodeGenUtils.parenthesize(text)).toEqual(`(${text})`),
+    );
+  });
+});
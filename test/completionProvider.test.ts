@@ -149,6 +149,54 @@ describe("CompletionProvider", () => {
     }
   }
 
+  /**
+   * Run completion tests on a source and check the order of some completions
+   *
+   * @param source The source code in an array of lines
+   * @param expectedOrder The labels of completions, in the order they should be sorted
+   */
+  async function testCompletionOrder(
+    source: string,
+    expectedOrder: string[],
+  ): Promise<void> {
+    await treeParser.init();
+    const completionProvider = new MockCompletionProvider();
+
+    const { newSources, position, fileWithCaret } = getCaretPositionFromSource(
+      source,
+    );
+
+    if (!position) {
+      throw new Error("Getting position failed");
+    }
+
+    const testUri = URI.file(baseUri + fileWithCaret).toString();
+    const program = await treeParser.getProgram(newSources);
+    const sourceFile = program.getSourceFile(testUri);
+
+    if (!sourceFile) throw new Error("Getting source file failed");
+
+    const completions =
+      completionProvider.handleCompletion({
+        textDocument: { uri: testUri },
+        position,
+        context: { triggerKind: 1 },
+        program,
+        sourceFile,
+      }) ?? [];
+
+    const completionsList = Array.isArray(completions)
+      ? completions
+      : completions.items;
+
+    const sortedLabels = completionsList
+      .filter((c) => expectedOrder.includes(c.label))
+      .sort((a, b) => (a.sortText ?? "").localeCompare(b.sortText ?? ""))
+      .map((c) => c.label);
+
+    expect(sortedLabels).toEqual(expectedOrder);
+  }
+
   it("Should complete module keyword", async () => {
     const sourceModule = `
 --@ Test.elm
@@ -1503,4 +1551,135 @@ func model =
 
     await testCompletions(source, ["details"]);
   });
+
+  describe("type directed completions", () => {
+    const definitions = `
+type Shape
+    = Circle
+    | Square
+
+type Color
+    = Red
+    | Blue
+
+paint : Color -> Shape -> Shape
+paint color shape =
+    shape
+
+toColor : Shape -> Color
+toColor shape =
+    Red
+
+darken : Color -> Color
+darken color =
+    color
+`;
+
+    it("ranks candidates by the type of the argument", async () => {
+      const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    paint d{-caret-}
+`;
+
+      await testCompletionOrder(source, ["Blue", "toColor", "Circle"]);
+    });
+
+    it("ranks candidates by the type of the argument inside parentheses", async () => {
+      const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    paint Red (p{-caret-})
+`;
+
+      await testCompletionOrder(source, ["Circle", "paint", "Red"]);
+    });
+
+    it("ranks functions accepting the piped value", async () => {
+      const source = `
+--@ Basics.elm
+module Basics exposing ((|>))
+
+infix left  0 (|>) = apR
+
+apR : a -> (a -> b) -> b
+apR x f =
+    f x
+
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    Circle
+        |> t{-caret-}
+`;
+
+      await testCompletionOrder(source, ["toColor", "paint", "darken"]);
+    });
+
+    it("ranks candidates by the type of a record field", async () => {
+      const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+type alias Model =
+    { color : Color
+    , shape : Shape
+    }
+
+update : Model -> Model
+update model =
+    { model | shape = S{-caret-} }
+`;
+
+      await testCompletionOrder(source, ["Square", "Blue"]);
+    });
+
+    it("ranks candidates by the type of the other if branch", async () => {
+      const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func check =
+    if check then
+        Red
+
+    else
+        d{-caret-}
+`;
+
+      await testCompletionOrder(source, ["Blue", "darken", "Circle"]);
+    });
+
+    it("ranks the possible imports before leaving out the rest", async () => {
+      const dims = Array.from(
+        { length: 60 },
+        (_, i) => `dim${i} : Shape -> Shape\ndim${i} shape =\n    shape\n`,
+      ).join("\n");
+
+      const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    paint d{-caret-}
+
+--@ Shades.elm
+module Shades exposing (..)
+
+import Test exposing (Color(..), Shape)
+
+${dims}
+dull : Color
+dull =
+    Blue
+`;
+
+      await testCompletionOrder(source, ["dull", "dim0"]);
+    });
+  });
 });
@@ -0,0 +1,138 @@
+import { URI } from "vscode-uri";
+import { DeadCodeDiagnostics } from "../../src/providers/diagnostics/deadCodeDiagnostics";
+import { getSourceFiles } from "../utils/sourceParser";
+import { baseUri, SourceTreeParser } from "../utils/sourceTreeParser";
+
+describe("dead code diagnostics", () => {
+  const treeParser = new SourceTreeParser();
+
+  async function testDeadCodeDiagnostics(
+    source: string,
+    expectedDiagnostics: {
+      [file: string]: { message: string; code: string }[];
+    },
+  ): Promise<void> {
+    await treeParser.init();
+
+    const program = await treeParser.getProgram(getSourceFiles(source));
+    const diagnostics = new DeadCodeDiagnostics().createDiagnostics(program);
+
+    Object.entries(expectedDiagnostics).forEach(([file, expected]) => {
+      const uri = URI.file(baseUri + file).toString();
+
+      expect(
+        (diagnostics.get(uri) ?? []).map((diagnostic) => ({
+          message: diagnostic.message,
+          code: diagnostic.data.code,
+        })),
+      ).toEqual(expected);
+    });
+  }
+
+  it("reports exposed declarations and modules that are not reachable", async () => {
+    await testDeadCodeDiagnostics(
+      `
+--@ Main.elm
+module Main exposing (main)
+
+import Util exposing (Color(..), used)
+
+main =
+    used Red
+
+--@ Util.elm
+module Util exposing (Color(..), Shape, used, unused)
+
+type Color = Red | Green
+
+type Shape = Circle
+
+used : Color -> Int
+used _ =
+    helper
+
+unused : Int
+unused =
+    helper
+
+helper : Int
+helper =
+    1
+
+--@ Legacy.elm
+module Legacy exposing (old)
+
+old : Int
+old =
+    Util.used Util.Green
+`,
+      {
+        "Main.elm": [],
+        "Util.elm": [
+          {
+            message:
+              "Exposed value constructor `Green` is not used in the project.",
+            code: "unused_exposed_constructor",
+          },
+          {
+            message: "Exposed type `Shape` is not used in the project.",
+            code: "unused_exposed",
+          },
+          {
+            message: "Exposed function `unused` is not used in the project.",
+            code: "unused_exposed",
+          },
+        ],
+        "Legacy.elm": [
+          {
+            message: "Module `Legacy` is not used in the project.",
+            code: "unused_module",
+          },
+        ],
+      },
+    );
+  });
+
+  it("treats tests and ports as entry points", async () => {
+    await testDeadCodeDiagnostics(
+      `
+--@ Main.elm
+port module Main exposing (main)
+
+import Util
+
+port send : Int -> Cmd msg
+
+main =
+    1
+
+--@ Util.elm
+module Util exposing (tested, untested)
+
+tested : Int
+tested =
+    1
+
+untested : Int
+untested =
+    2
+
+--@ tests/UtilTest.elm
+module UtilTest exposing (suite)
+
+import Util
+
+suite =
+    Util.tested
+`,
+      {
+        "Util.elm": [
+          {
+            message: "Exposed function `untested` is not used in the project.",
+            code: "unused_exposed",
+          },
+        ],
+      },
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { container } from "tsyringe";
+import { Connection, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { IProgram } from "../../src/compiler/program";
+import {
+  DiagnosticsConfig,
+  IElmLanguageServerJson,
+} from "../../src/providers/diagnostics/diagnosticsConfig";
+import { IDiagnostic } from "../../src/providers/diagnostics/diagnosticsProvider";
+import { getSourceFiles } from "../utils/sourceParser";
+import { baseUri, SourceTreeParser } from "../utils/sourceTreeParser";
+
+const sources = `
+--@ Main.elm
+module Main exposing (main)
+
+-- elm-ls-ignore-next-line unused_import
+import Html
+import Dict
+-- elm-ls-ignore-next-line
+import Set
+
+main =
+    1
+
+--@ Generated/Api.elm
+module Generated.Api exposing (api)
+
+import Html
+
+api =
+    1
+`;
+
+describe("diagnostics config", () => {
+  const treeParser = new SourceTreeParser();
+  const diagnosticsConfig = new DiagnosticsConfig();
+
+  function diagnostic(
+    uri: string,
+    line: number,
+    code: string,
+    source: "Elm" | "ElmLS" = "ElmLS",
+  ): IDiagnostic {
+    return {
+      range: Range.create(line, 0, line, 6),
+      message: code,
+      severity: DiagnosticSeverity.Warning,
+      source,
+      data: { uri, code },
+    };
+  }
+
+  async function testConfig(
+    config: IElmLanguageServerJson,
+    file: string,
+    diagnostics: [number, string, ("Elm" | "ElmLS")?][],
+    expected: [number, string, DiagnosticSeverity][],
+  ): Promise<void> {
+    await treeParser.init();
+    const program: IProgram = await treeParser.getProgram(
+      getSourceFiles(sources),
+    );
+    const uri = URI.file(baseUri + file).toString();
+
+    expect(
+      diagnosticsConfig
+        .applyConfig(
+          config,
+          program,
+          uri,
+          diagnostics.map(([line, code, source]) =>
+            diagnostic(uri, line, code, source),
+          ),
+        )
+        .map((diagnostic) => [
+          diagnostic.range.start.line,
+          diagnostic.data.code,
+          diagnostic.severity,
+        ]),
+    ).toEqual(expected);
+  }
+
+  it("honours ignore comments and rule severities", async () => {
+    await testConfig(
+      { rules: { unused_import: "error", unused_alias: "off" } },
+      "Main.elm",
+      [
+        [3, "unused_import"],
+        [4, "unused_import"],
+        [4, "unused_alias"],
+        [4, "type_mismatch", "Elm"],
+        [6, "unused_import"],
+        [6, "unused_alias"],
+        [9, "boolean_case_expr"],
+      ],
+      [
+        [4, "unused_import", DiagnosticSeverity.Error],
+        [4, "type_mismatch", DiagnosticSeverity.Warning],
+        [9, "boolean_case_expr", DiagnosticSeverity.Warning],
+      ],
+    );
+  });
+
+  it("ignores paths matching a glob", async () => {
+    await testConfig(
+      { ignorePaths: ["Generated/**"] },
+      "Generated/Api.elm",
+      [
+        [2, "unused_import"],
+        [4, "type_mismatch", "Elm"],
+      ],
+      [[4, "type_mismatch", DiagnosticSeverity.Warning]],
+    );
+
+    await testConfig(
+      { ignorePaths: ["Generated"] },
+      "Main.elm",
+      [[4, "unused_import"]],
+      [[4, "unused_import", DiagnosticSeverity.Warning]],
+    );
+  });
+
+  it("skips invalid entries in the config", () => {
+    const connection = container.resolve<Connection>("Connection");
+    const warn = jest
+      .spyOn(connection.console, "warn")
+      .mockImplementation(() => undefined);
+    warn.mockClear();
+
+    expect(
+      diagnosticsConfig.parseConfig("elm-language-server.json", {
+        rules: { unused_import: "error", unused_alias: "loud", other: 1 },
+        ignorePaths: ["Generated/**", 2],
+      }),
+    ).toEqual({
+      rules: { unused_import: "error" },
+      ignorePaths: ["Generated/**"],
+    });
+    expect(
+      diagnosticsConfig.parseConfig("elm-language-server.json", {
+        rules: ["unused_import"],
+        ignorePaths: "Generated/**",
+      }),
+    ).toEqual({});
+    expect(
+      diagnosticsConfig.parseConfig("elm-language-server.json", null),
+    ).toEqual({});
+    expect(warn).toHaveBeenCalledTimes(6);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,264 @@
+import { container } from "tsyringe";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { ElmProject, IProgram } from "../../src/compiler/program";
+import { ElmJsonDiagnostics } from "../../src/providers/diagnostics/elmJsonDiagnostics";
+import { IDocumentEvents } from "../../src/util/documentEvents";
+import { TextDocumentEvents } from "../../src/util/textDocumentEvents";
+import { getSourceFiles } from "../utils/sourceParser";
+import { SourceTreeParser } from "../utils/sourceTreeParser";
+
+type ElmPackage = Extract<ElmProject, { type: "package" }>;
+
+const elmJson = `{
+    "type": "application",
+    "source-directories": [
+        "src"
+    ],
+    "elm-version": "0.19.1",
+    "dependencies": {
+        "direct": {
+            "elm/browser": "1.0.2",
+            "elm/core": "1.0.5",
+            "elm/http": "2.0.0"
+        },
+        "indirect": {
+            "elm/bytes": "1.0.8",
+            "elm/file": "1.0.5",
+            "elm/json": "1.1.3",
+            "elm/url": "1.0.0"
+        }
+    },
+    "test-dependencies": {
+        "direct": {
+            "elm-explorations/test": "1.2.2"
+        },
+        "indirect": {
+            "elm/random": "1.0.0"
+        }
+    }
+}
+`;
+
+const sources = `
+--@ Main.elm
+module Main exposing (main)
+
+import Browser
+import Url
+import Expect
+
+main =
+    Browser.sandbox
+
+--@ tests/MainTest.elm
+module MainTest exposing (suite)
+
+import Test
+
+suite =
+    Test.test
+`;
+
+describe("elm.json diagnostics", () => {
+  const treeParser = new SourceTreeParser();
+
+  async function getProgram(): Promise<IProgram> {
+    await treeParser.init();
+    const program = await treeParser.getProgram(getSourceFiles(sources));
+
+    // The packages are not installed in the tests, so we add them to the project
+    const packages = new Map<string, ElmPackage>();
+    const addPackage = (
+      name: string,
+      exposedModules: string[],
+      dependencies: string[],
+    ): void => {
+      packages.set(name, ({
+        type: "package",
+        maintainerAndPackageName: name,
+        exposedModules: new Set(exposedModules),
+        dependencies: new Map(
+          dependencies.map((dependency) => [
+            dependency,
+            packages.get(dependency),
+          ]),
+        ),
+      } as unknown) as ElmPackage);
+    };
+
+    addPackage("elm/core", ["Basics", "List"], []);
+    addPackage("elm/json", ["Json.Decode"], ["elm/core"]);
+    addPackage("elm/url", ["Url"], ["elm/core"]);
+    addPackage("elm/bytes", ["Bytes"], ["elm/core"]);
+    addPackage("elm/file", ["File"], ["elm/bytes", "elm/core", "elm/json"]);
+    addPackage("elm/random", ["Random"], ["elm/core"]);
+    addPackage("elm/browser", ["Browser"], ["elm/core", "elm/json", "elm/url"]);
+    addPackage(
+      "elm/http",
+      ["Http"],
+      ["elm/bytes", "elm/core", "elm/file", "elm/json"],
+    );
+    addPackage(
+      "elm-explorations/test",
+      ["Expect", "Test"],
+      ["elm/core", "elm/random"],
+    );
+
+    const project = program.getRootProject();
+    ["elm/browser", "elm/core", "elm/http"].forEach((name) =>
+      project.dependencies.set(name, packages.get(name)!),
+    );
+    project.testDependencies.set(
+      "elm-explorations/test",
+      packages.get("elm-explorations/test")!,
+    );
+
+    return program;
+  }
+
+  it("reports unused and misplaced dependencies", async () => {
+    const program = await getProgram();
+    const document = TextDocument.create("elm.json", "json", 0, elmJson);
+
+    const diagnostics = new ElmJsonDiagnostics().createDiagnostics(
+      program,
+      elmJson,
+    );
+
+    expect(
+      diagnostics.map((diagnostic) => ({
+        text: document.getText(diagnostic.range),
+        code: diagnostic.data.code,
+        message: diagnostic.message,
+      })),
+    ).toEqual([
+      {
+        text: `"elm/url": "1.0.0"`,
+        code: "used_indirect_dependency",
+        message:
+          "Indirect dependency `elm/url` is imported, it should be a direct dependency",
+      },
+      {
+        text: `"elm-explorations/test": "1.2.2"`,
+        code: "test_dependency_used_in_src",
+        message:
+          "Test dependency `elm-explorations/test` is imported from the source directories",
+      },
+      {
+        text: `"elm/http": "2.0.0"`,
+        code: "unused_dependency",
+        message: "Unused dependency `elm/http`",
+      },
+    ]);
+  });
+
+  it("removes an unused dependency and the indirect dependencies only it needed", async () => {
+    const program = await getProgram();
+    const elmJsonDiagnostics = new ElmJsonDiagnostics();
+
+    const diagnostics = elmJsonDiagnostics
+      .createDiagnostics(program, elmJson)
+      .filter((diagnostic) => diagnostic.data.code === "unused_dependency");
+
+    const codeActions = elmJsonDiagnostics.getCodeActions(
+      program,
+      elmJson,
+      diagnostics,
+    );
+
+    expect(codeActions.map((codeAction) => codeAction.title)).toEqual([
+      "Remove unused dependency `elm/http`",
+    ]);
+
+    const edit = Object.values(codeActions[0].edit?.changes ?? {})[0][0];
+    expect(JSON.parse(edit.newText)).toEqual({
+      ...JSON.parse(elmJson),
+      dependencies: {
+        direct: {
+          "elm/browser": "1.0.2",
+          "elm/core": "1.0.5",
+        },
+        indirect: {
+          "elm/json": "1.1.3",
+          "elm/url": "1.0.0",
+        },
+      },
+    });
+  });
+
+  it("moves an imported indirect dependency to the direct dependencies", async () => {
+    const program = await getProgram();
+    const elmJsonDiagnostics = new ElmJsonDiagnostics();
+
+    const diagnostics = elmJsonDiagnostics
+      .createDiagnostics(program, elmJson)
+      .filter(
+        (diagnostic) => diagnostic.data.code === "used_indirect_dependency",
+      );
+
+    const codeActions = elmJsonDiagnostics.getCodeActions(
+      program,
+      elmJson,
+      diagnostics,
+    );
+
+    expect(codeActions.map((codeAction) => codeAction.title)).toEqual([
+      "Move `elm/url` to the direct dependencies",
+    ]);
+
+    const edit = Object.values(codeActions[0].edit?.changes ?? {})[0][0];
+    expect(JSON.parse(edit.newText).dependencies).toEqual({
+      direct: {
+        "elm/browser": "1.0.2",
+        "elm/core": "1.0.5",
+        "elm/http": "2.0.0",
+        "elm/url": "1.0.0",
+      },
+      indirect: {
+        "elm/bytes": "1.0.8",
+        "elm/file": "1.0.5",
+        "elm/json": "1.1.3",
+      },
+    });
+  });
+
+  it("uses the open elm.json document for the quick fixes", async () => {
+    const program = await getProgram();
+    const uri = ElmJsonDiagnostics.getElmJsonUri(program);
+    // An unsaved edit moves the dependencies down a line
+    const text = `\n${elmJson}`;
+
+    const workspaces = container.resolve<IProgram[]>("ElmWorkspaces");
+    workspaces.splice(0, workspaces.length, program);
+
+    container.register(TextDocumentEvents, {
+      useValue: new TextDocumentEvents(),
+    });
+    container
+      .resolve<IDocumentEvents & { emit: (...args: unknown[]) => void }>(
+        "DocumentEvents",
+      )
+      .emit("open", {
+        textDocument: { uri, languageId: "json", version: 1, text },
+      });
+
+    await expect(ElmJsonDiagnostics.readElmJson(program)).resolves.toEqual(
+      text,
+    );
+
+    const elmJsonDiagnostics = new ElmJsonDiagnostics();
+    const diagnostics = elmJsonDiagnostics
+      .createDiagnostics(program, text)
+      .filter((diagnostic) => diagnostic.data.code === "unused_dependency");
+
+    const codeActions = await elmJsonDiagnostics.onCodeAction({
+      textDocument: { uri },
+      range: diagnostics[0].range,
+      context: { diagnostics },
+    });
+
+    expect(codeActions.map((codeAction) => codeAction.title)).toEqual([
+      "Remove unused dependency `elm/http`",
+    ]);
+  });
+});
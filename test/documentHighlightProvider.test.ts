@@ -0,0 +1,127 @@
+import {
+  DocumentHighlight,
+  DocumentHighlightKind,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { DocumentHighlightProvider } from "../src/providers";
+import { IDocumentHighlightParams } from "../src/providers/paramsExtensions";
+import { getCaretPositionFromSource } from "./utils/sourceParser";
+import { baseUri, SourceTreeParser } from "./utils/sourceTreeParser";
+
+class MockDocumentHighlightProvider extends DocumentHighlightProvider {
+  public onDocumentHighlight(
+    params: IDocumentHighlightParams,
+  ): DocumentHighlight[] | null | undefined {
+    return this.handleDocumentHighlight(params);
+  }
+}
+
+describe("documentHighlightProvider", () => {
+  const treeParser = new SourceTreeParser();
+  const documentHighlightProvider = new MockDocumentHighlightProvider();
+
+  async function testDocumentHighlight(
+    source: string,
+    expected: [number, DocumentHighlightKind][],
+  ): Promise<void> {
+    await treeParser.init();
+
+    const { newSources, position, fileWithCaret } = getCaretPositionFromSource(
+      source,
+    );
+    const testUri = URI.file(baseUri + fileWithCaret).toString();
+    const program = await treeParser.getProgram(newSources);
+    const sourceFile = program.getSourceFile(testUri);
+
+    if (!sourceFile) {
+      throw new Error("Could not get source file");
+    }
+
+    const highlights = documentHighlightProvider.onDocumentHighlight({
+      program,
+      sourceFile,
+      position,
+      textDocument: { uri: testUri },
+    });
+
+    expect(
+      highlights
+        ?.map((highlight): [number, DocumentHighlightKind] => [
+          highlight.range.start.line,
+          highlight.kind ?? DocumentHighlightKind.Text,
+        ])
+        .sort((a, b) => a[0] - b[0]),
+    ).toEqual(expected);
+  }
+
+  it("highlights a function in the current file only", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (helper)
+
+helper : Int -> Int
+helper a =
+    a
+
+main =
+    help{-caret-}er (helper 1)
+
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (helper)
+
+other =
+    helper 1
+`;
+
+    await testDocumentHighlight(source, [
+      [0, DocumentHighlightKind.Text],
+      [2, DocumentHighlightKind.Text],
+      [3, DocumentHighlightKind.Write],
+      [7, DocumentHighlightKind.Read],
+      [7, DocumentHighlightKind.Read],
+    ]);
+  });
+
+  it("highlights function parameters", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+func value =
+    value + val{-caret-}ue
+`;
+
+    await testDocumentHighlight(source, [
+      [2, DocumentHighlightKind.Write],
+      [3, DocumentHighlightKind.Read],
+      [3, DocumentHighlightKind.Read],
+    ]);
+  });
+
+  it("highlights record fields", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+type alias Model =
+    { count : Int }
+
+init : Model
+init =
+    { count = 0 }
+
+update : Model -> Model
+update model =
+    { model | count = model.cou{-caret-}nt }
+`;
+
+    await testDocumentHighlight(source, [
+      [3, DocumentHighlightKind.Write],
+      [7, DocumentHighlightKind.Read],
+      [11, DocumentHighlightKind.Read],
+      [11, DocumentHighlightKind.Read],
+    ]);
+  });
+});
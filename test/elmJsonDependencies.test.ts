@@ -0,0 +1,198 @@
+import { container } from "tsyringe";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { IElmPackageCache, IPackage } from "../src/compiler/elmPackageCache";
+import { ElmJson, IProgram } from "../src/compiler/program";
+import { parseConstraint, parseVersion } from "../src/compiler/utils/elmUtils";
+import { ElmJsonDependencies } from "../src/providers/elmJsonDependencies";
+import { IDocumentEvents } from "../src/util/documentEvents";
+import { TextDocumentEvents } from "../src/util/textDocumentEvents";
+
+describe("elm.json dependency code lenses and hovers", () => {
+  function p(version: string, dependencies: [string, string][] = []): IPackage {
+    return {
+      version: parseVersion(version),
+      dependencies: new Map(
+        dependencies.map(([name, constraint]) => [
+          name,
+          parseConstraint(constraint),
+        ]),
+      ),
+    };
+  }
+
+  const core: [string, string] = ["elm/core", "1.0.0 <= v < 2.0.0"];
+
+  const packages = new Map<string, IPackage[]>([
+    ["elm/core", [p("1.0.0"), p("1.0.5")]],
+    ["elm/json", [p("1.1.3", [core]), p("2.0.0", [core])]],
+    ["elm/url", [p("1.0.0", [core]), p("2.0.0", [core])]],
+    ["elm/browser", [p("1.0.2", [core, ["elm/url", "1.0.0 <= v < 3.0.0"]])]],
+    ["elm/http", [p("2.0.0", [core, ["elm/json", "1.0.0 <= v < 2.0.0"]])]],
+  ]);
+
+  const packageCache: IElmPackageCache = {
+    getVersions: (packageName) =>
+      Promise.resolve((packages.get(packageName) ?? []).map((p) => p.version)),
+    getDependencies: (packageName, version) =>
+      Promise.resolve(
+        packages
+          .get(packageName)
+          ?.find((p) => p.version.string === version.string)?.dependencies ??
+          new Map(),
+      ),
+    loadAllPackageModules: () => Promise.resolve(),
+  };
+
+  const uri = "file:///project/elm.json";
+  const elmJson = `{
+    "type": "application",
+    "source-directories": [
+        "src"
+    ],
+    "elm-version": "0.19.1",
+    "dependencies": {
+        "direct": {
+            "elm/browser": "1.0.2",
+            "elm/core": "1.0.0",
+            "elm/http": "2.0.0",
+            "elm/json": "1.1.3"
+        },
+        "indirect": {
+            "elm/url": "1.0.0"
+        }
+    },
+    "test-dependencies": {
+        "direct": {},
+        "indirect": {}
+    }
+}
+`;
+
+  const elmJsonDependencies = new ElmJsonDependencies();
+
+  it("shows upgrades and what blocks them as code lenses", async () => {
+    const dependencies = await elmJsonDependencies.getDependencyInfo(
+      packageCache,
+      JSON.parse(elmJson) as ElmJson,
+    );
+    const document = TextDocument.create(uri, "json", 0, elmJson);
+
+    expect(
+      elmJsonDependencies
+        .getCodeLenses(uri, elmJson, dependencies)
+        .map((codeLens) => ({
+          text: document.getText(codeLens.range),
+          title: codeLens.command?.title,
+          command: codeLens.command?.command,
+          arguments: codeLens.command?.arguments,
+        })),
+    ).toEqual([
+      {
+        text: `"elm/browser": "1.0.2"`,
+        title: "Latest",
+        command: "",
+        arguments: undefined,
+      },
+      {
+        text: `"elm/core": "1.0.0"`,
+        title: "Upgrade to 1.0.5",
+        command: "elm.upgrade",
+        arguments: [uri, "elm/core", false],
+      },
+      {
+        text: `"elm/http": "2.0.0"`,
+        title: "Latest",
+        command: "",
+        arguments: undefined,
+      },
+      {
+        text: `"elm/json": "1.1.3"`,
+        title: "2.0.0 is blocked by elm/http",
+        command: "",
+        arguments: undefined,
+      },
+      {
+        text: `"elm/url": "1.0.0"`,
+        title: "Upgrade to 2.0.0",
+        command: "",
+        arguments: undefined,
+      },
+    ]);
+  });
+
+  it("shows the newest version on hover", async () => {
+    const dependencies = await elmJsonDependencies.getDependencyInfo(
+      packageCache,
+      JSON.parse(elmJson) as ElmJson,
+    );
+
+    const hover = elmJsonDependencies.getHover(
+      uri,
+      elmJson,
+      { line: 11, character: 15 },
+      dependencies,
+    );
+
+    expect(hover?.contents).toEqual({
+      kind: "markdown",
+      value: [
+        "`elm/json` 1.1.3",
+        "Newest locally known version: 2.0.0",
+        "Upgrading to 2.0.0 is blocked by `elm/http`",
+      ].join("\n\n"),
+    });
+  });
+
+  it("uses the open elm.json document with its unsaved changes", async () => {
+    const workspaces = container.resolve<IProgram[]>("ElmWorkspaces");
+    workspaces.splice(0, workspaces.length, ({
+      getRootPath: () => URI.file("/project"),
+      getPackageCache: () => packageCache,
+    } as unknown) as IProgram);
+
+    container.register(TextDocumentEvents, {
+      useValue: new TextDocumentEvents(),
+    });
+    const documentEvents = container.resolve<
+      IDocumentEvents & { emit: (...args: unknown[]) => void }
+    >("DocumentEvents");
+
+    // An unsaved edit moves the dependencies down a line
+    const text = `\n${elmJson}`;
+    documentEvents.emit("open", {
+      textDocument: { uri, languageId: "json", version: 1, text },
+    });
+
+    const codeLenses = await elmJsonDependencies.onCodeLens({
+      textDocument: { uri },
+    });
+    const document = TextDocument.create(uri, "json", 0, text);
+
+    expect(document.getText(codeLenses[0].range)).toEqual(
+      `"elm/browser": "1.0.2"`,
+    );
+
+    const hover = await elmJsonDependencies.onHover({
+      textDocument: { uri },
+      position: { line: 12, character: 15 },
+    });
+
+    expect(hover?.contents).toEqual(
+      expect.objectContaining({
+        value: expect.stringContaining("`elm/json` 1.1.3") as string,
+      }),
+    );
+
+    documentEvents.emit("change", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: "{" }],
+    });
+
+    await expect(
+      elmJsonDependencies.onCodeLens({ textDocument: { uri } }),
+    ).resolves.toEqual([]);
+
+    workspaces.splice(0, workspaces.length);
+  });
+});
@@ -0,0 +1,141 @@
+import { URI } from "vscode-uri";
+import { IInlayHint } from "../src/protocol";
+import { InlayHintsProvider } from "../src/providers";
+import { IInlayHintsParams } from "../src/providers/paramsExtensions";
+import { IInlayHintSettings } from "../src/util/settings";
+import { getSourceFiles } from "./utils/sourceParser";
+import { baseUri, SourceTreeParser } from "./utils/sourceTreeParser";
+
+class MockInlayHintsProvider extends InlayHintsProvider {
+  public onInlayHints(
+    params: IInlayHintsParams,
+    settings: IInlayHintSettings,
+  ): IInlayHint[] {
+    return this.getInlayHints(params, settings);
+  }
+}
+
+const allHints: IInlayHintSettings = {
+  letBindingTypes: true,
+  lambdaParameterTypes: true,
+  casePatternTypes: true,
+  parameterNames: true,
+};
+
+describe("inlayHintsProvider", () => {
+  const treeParser = new SourceTreeParser();
+  const inlayHintsProvider = new MockInlayHintsProvider();
+
+  async function testInlayHints(
+    source: string,
+    expectedLabels: string[],
+    settings = allHints,
+  ): Promise<IInlayHint[]> {
+    await treeParser.init();
+
+    const testUri = URI.file(baseUri + "Test.elm").toString();
+    const program = await treeParser.getProgram(getSourceFiles(source));
+    const sourceFile = program.getSourceFile(testUri);
+
+    if (!sourceFile) {
+      throw new Error("Could not get source file");
+    }
+
+    const hints = inlayHintsProvider.onInlayHints(
+      {
+        program,
+        sourceFile,
+        textDocument: { uri: testUri },
+        range: {
+          start: { line: 0, character: 0 },
+          end: {
+            line: sourceFile.tree.rootNode.endPosition.row + 1,
+            character: 0,
+          },
+        },
+      },
+      settings,
+    );
+
+    expect(hints.map((hint) => hint.label)).toEqual(expectedLabels);
+
+    return hints;
+  }
+
+  const source = `
+--@ Test.elm
+module Test exposing (..)
+
+type Length
+    = Length
+
+type Shape
+    = Circle Length
+    | Square Length
+
+scale : Length -> Shape -> Shape
+scale factor shape =
+    case shape of
+        Circle radius ->
+            Circle radius
+
+        Square _ ->
+            Square factor
+
+func : Shape -> Shape
+func shape =
+    let
+        double s =
+            scale Length s
+
+        ( a, b ) =
+            ( shape, "" )
+    in
+    (\\x -> double x) a
+`;
+
+  it("shows inferred types and parameter names", async () => {
+    await testInlayHints(source, [
+      ": Length",
+      ": Shape -> Shape",
+      "factor:",
+      "shape:",
+      ": Shape",
+      ": String",
+      ": Shape",
+      "s:",
+    ]);
+  });
+
+  it("respects the hint settings", async () => {
+    await testInlayHints(source, [": Shape -> Shape", ": Shape", ": String"], {
+      letBindingTypes: true,
+      lambdaParameterTypes: false,
+      casePatternTypes: false,
+      parameterNames: false,
+    });
+  });
+
+  it("inserts the annotation for let bindings", async () => {
+    const hints = await testInlayHints(
+      source,
+      [": Shape -> Shape", ": Shape", ": String"],
+      {
+        letBindingTypes: true,
+        lambdaParameterTypes: false,
+        casePatternTypes: false,
+        parameterNames: false,
+      },
+    );
+
+    expect(hints[0].textEdits).toEqual([
+      {
+        range: {
+          start: { line: 21, character: 8 },
+          end: { line: 21, character: 8 },
+        },
+        newText: "double : Shape -> Shape\n        ",
+      },
+    ]);
+  });
+});
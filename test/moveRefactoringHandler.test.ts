@@ -0,0 +1,559 @@
+import { mockDeep } from "jest-mock-extended";
+import { container } from "tsyringe";
+import {
+  Connection,
+  Range,
+  TextDocumentEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { IProgram } from "../src/compiler/program";
+import { MoveRefactoringHandler } from "../src/providers/handlers/moveRefactoringHandler";
+import { MoveRequest, SplitModuleRequest } from "../src/protocol";
+import {
+  getSourceFiles,
+  getTargetPositionFromSource,
+} from "./utils/sourceParser";
+import {
+  applyEditsToSource,
+  baseUri,
+  SourceTreeParser,
+  stripCommentLines,
+  trimTrailingWhitespace,
+} from "./utils/sourceTreeParser";
+
+describe("moveRefactoringHandler", () => {
+  const treeParser = new SourceTreeParser();
+
+  const requestHandlers = new Map<string, (params: unknown) => unknown>();
+  let appliedWorkspaceEdit: WorkspaceEdit | undefined;
+
+  container.register("Connection", {
+    useValue: mockDeep<Connection>({
+      onRequest: (((
+        type: { method: string },
+        handler: (params: unknown) => unknown,
+      ) => {
+        requestHandlers.set(type.method, handler);
+      }) as unknown) as Connection["onRequest"],
+      workspace: {
+        applyEdit: (edit) => {
+          if (WorkspaceEdit.is(edit)) {
+            appliedWorkspaceEdit = edit;
+          }
+
+          return Promise.resolve({ applied: true });
+        },
+      },
+    }),
+  });
+
+  async function move(
+    source: string,
+    destination: string,
+  ): Promise<{ [K: string]: string }> {
+    await treeParser.init();
+
+    const target = getTargetPositionFromSource(trimTrailingWhitespace(source));
+
+    if (!target) {
+      throw new Error("Getting sources failed");
+    }
+
+    const program = await treeParser.getProgram(target.sources);
+    const workspaces = container.resolve<IProgram[]>("ElmWorkspaces");
+    workspaces.splice(0, workspaces.length);
+    workspaces.push(program);
+
+    new MoveRefactoringHandler();
+    appliedWorkspaceEdit = undefined;
+
+    const sourceUri = URI.file(baseUri + "Test.elm").toString();
+    await requestHandlers.get(MoveRequest.method)?.({
+      sourceUri,
+      params: {
+        textDocument: { uri: sourceUri },
+        range: target.range,
+        context: { diagnostics: [] },
+      },
+      destination: {
+        name: destination,
+        path: "",
+        uri: URI.file(baseUri + destination).toString(),
+      },
+    });
+
+    return target.sources;
+  }
+
+  async function testMove(
+    source: string,
+    destination: string,
+    expectedSource: string,
+  ): Promise<void> {
+    const sources = await move(source, destination);
+
+    Object.entries(
+      getSourceFiles(trimTrailingWhitespace(expectedSource)),
+    ).forEach(([uri, expected]) => {
+      expect(
+        trimTrailingWhitespace(
+          applyEditsToSource(
+            stripCommentLines(sources[uri]),
+            appliedWorkspaceEdit?.changes?.[
+              URI.file(baseUri + uri).toString()
+            ] ?? [],
+          ),
+        ),
+      ).toEqual(expected);
+    });
+  }
+
+  async function splitModule(
+    source: string,
+    range: Range,
+    moduleName: string,
+  ): Promise<{ [K: string]: string }> {
+    await treeParser.init();
+
+    const sources = getSourceFiles(trimTrailingWhitespace(source));
+    const program = await treeParser.getProgram(sources);
+    const workspaces = container.resolve<IProgram[]>("ElmWorkspaces");
+    workspaces.splice(0, workspaces.length);
+    workspaces.push(program);
+
+    new MoveRefactoringHandler();
+    appliedWorkspaceEdit = undefined;
+
+    const sourceUri = URI.file(baseUri + "Test.elm").toString();
+    await requestHandlers.get(SplitModuleRequest.method)?.({
+      sourceUri,
+      params: {
+        textDocument: { uri: sourceUri },
+        range,
+        context: { diagnostics: [] },
+      },
+      moduleName,
+    });
+
+    return sources;
+  }
+
+  async function testSplitModule(
+    source: string,
+    range: Range,
+    moduleName: string,
+    expectedSource: string,
+  ): Promise<void> {
+    const sources = await splitModule(source, range, moduleName);
+
+    Object.entries(
+      getSourceFiles(trimTrailingWhitespace(expectedSource)),
+    ).forEach(([uri, expected]) => {
+      const documentEdit = appliedWorkspaceEdit?.documentChanges?.find(
+        (change): change is TextDocumentEdit =>
+          TextDocumentEdit.is(change) &&
+          change.textDocument.uri === URI.file(baseUri + uri).toString(),
+      );
+
+      expect(
+        trimTrailingWhitespace(
+          applyEditsToSource(sources[uri] ?? "", documentEdit?.edits ?? []),
+        ).trimEnd(),
+      ).toEqual(expected.trimEnd());
+    });
+  }
+
+  const splitSource = `
+--@ Test.elm
+module Test exposing (main, view)
+
+import Util exposing (double)
+
+
+type Color = Red | Green
+
+
+main : Color
+main =
+    Red
+
+
+view : Int -> Color
+view count =
+    if helper count == 2 then Red else Green
+
+
+helper : Int -> Int
+helper count =
+    double count
+
+--@ Util.elm
+module Util exposing (double)
+
+double : Int -> Int
+double value =
+    value + value
+`;
+
+  it("moves selected declarations and their private helpers to a new module", async () => {
+    await testSplitModule(
+      splitSource +
+        `
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (view)
+
+value =
+    view 2 |> always (Test.view 3)
+`,
+      Range.create(13, 0, 15, 10),
+      "Parts.View",
+      `
+--@ Test.elm
+module Test exposing (main, Color(..))
+
+import Util exposing (double)
+
+
+type Color = Red | Green
+
+
+main : Color
+main =
+    Red
+
+--@ Other.elm
+module Other exposing (..)
+
+import Test
+import Parts.View exposing (view)
+
+value =
+    view 2 |> always (Parts.View.view 3)
+
+--@ Parts/View.elm
+module Parts.View exposing (view)
+
+import Test exposing (Color(..))
+import Util exposing (double)
+
+
+view : Int -> Color
+view count =
+    if helper count == 2 then Red else Green
+
+
+helper : Int -> Int
+helper count =
+    double count
+`,
+    );
+  });
+
+  it("does not split a module if it would create an import cycle", async () => {
+    await expect(
+      splitModule(
+        splitSource.replace("    Red\n", "    view 1\n"),
+        Range.create(13, 0, 15, 10),
+        "Parts.View",
+      ),
+    ).rejects.toThrow(
+      "Moving the declarations to `Parts.View` would create an import cycle",
+    );
+  });
+
+  it("does not split a module if it would not expose anything", async () => {
+    await expect(
+      splitModule(
+        `
+--@ Test.elm
+module Test exposing (main)
+
+main : Int
+main =
+    1
+`,
+        Range.create(3, 0, 4, 5),
+        "Parts.Main",
+      ),
+    ).rejects.toThrow(
+      "`Test` would not expose anything after moving the declarations",
+    );
+  });
+
+  it("moves a type with its constructors and updates the references", async () => {
+    await testMove(
+      `
+--@ Test.elm
+module Test exposing (Color(..), value)
+
+value : Int
+value =
+    1
+
+type Color = Red | Green
+   --^
+
+--@ Other.elm
+module Other exposing (other)
+
+other : Int
+other =
+    2
+
+--@ Main.elm
+module Main exposing (..)
+
+import Test exposing (Color(..), value)
+
+main : Test.Color
+main =
+    Red
+`,
+      "Other.elm",
+      `
+--@ Test.elm
+module Test exposing (value)
+
+value : Int
+value =
+    1
+
+--@ Other.elm
+module Other exposing (other, Color(..))
+
+other : Int
+other =
+    2
+
+
+type Color = Red | Green
+
+--@ Main.elm
+module Main exposing (..)
+
+import Test exposing (value)
+import Other exposing (Color(..))
+
+main : Other.Color
+main =
+    Red
+`,
+    );
+  });
+
+  it("moves a type alias and imports the types it depends on", async () => {
+    await testMove(
+      `
+--@ Test.elm
+module Test exposing (main)
+
+type Color = Red | Green
+
+main : Int
+main =
+    1
+
+type alias Point = { color : Color }
+         --^
+
+--@ Other.elm
+module Other exposing (other)
+
+other : Int
+other =
+    2
+`,
+      "Other.elm",
+      `
+--@ Test.elm
+module Test exposing (main, Color)
+
+type Color = Red | Green
+
+main : Int
+main =
+    1
+
+--@ Other.elm
+module Other exposing (other)
+import Test exposing (Color)
+
+other : Int
+other =
+    2
+
+
+type alias Point = { color : Color }
+`,
+    );
+  });
+
+  it("moves a type alias with the imports it uses", async () => {
+    await testMove(
+      `
+--@ Test.elm
+module Test exposing (main)
+
+import Dict exposing (Dict)
+import Html
+
+main : Int
+main =
+    1
+
+type alias Model = { items : Dict String Int, view : Html.Html () }
+         --^
+
+--@ Other.elm
+module Other exposing (other)
+
+import Dict
+
+other : Int
+other =
+    2
+
+--@ Dict.elm
+module Dict exposing (Dict)
+
+type Dict k v = Dict
+
+--@ Html.elm
+module Html exposing (Html)
+
+type Html msg = Html
+`,
+      "Other.elm",
+      `
+--@ Test.elm
+module Test exposing (main)
+
+import Dict exposing (Dict)
+import Html
+
+main : Int
+main =
+    1
+
+--@ Other.elm
+module Other exposing (other)
+
+import Dict exposing (Dict)
+import Html
+
+other : Int
+other =
+    2
+
+
+type alias Model = { items : Dict String Int, view : Html.Html () }
+`,
+    );
+  });
+
+  it("does not move a type if it would create an import cycle", async () => {
+    await expect(
+      move(
+        `
+--@ Test.elm
+module Test exposing (value)
+
+value : Color -> Int
+value _ =
+    1
+
+type Color = Red | Green
+   --^
+
+--@ Other.elm
+module Other exposing (other)
+
+import Test
+
+other : Int
+other =
+    Test.value Test.Red
+`,
+        "Other.elm",
+      ),
+    ).rejects.toThrow("Moving `Color` to `Other` would create an import cycle");
+  });
+
+  it("does not move a type if a module using it would create an import cycle", async () => {
+    await expect(
+      move(
+        `
+--@ Test.elm
+module Test exposing (Color(..))
+
+type Color = Red | Green
+   --^
+
+--@ Third.elm
+module Third exposing (third)
+
+import Test exposing (Color(..))
+
+third : Color
+third =
+    Red
+
+--@ Other.elm
+module Other exposing (other)
+
+import Third
+
+other =
+    Third.third
+`,
+        "Other.elm",
+      ),
+    ).rejects.toThrow("Moving `Color` to `Other` would create an import cycle");
+  });
+
+  it("removes the import of the source module when nothing else is used", async () => {
+    await testMove(
+      `
+--@ Test.elm
+module Test exposing (Color(..), value)
+
+value : Int
+value =
+    1
+
+type Color = Red | Green
+   --^
+
+--@ Other.elm
+module Other exposing (other)
+
+other : Int
+other =
+    2
+
+--@ Third.elm
+module Third exposing (third)
+
+import Test exposing (Color(..))
+
+third : Color
+third =
+    Red
+`,
+      "Other.elm",
+      `
+--@ Third.elm
+module Third exposing (third)
+
+import Other exposing (Color(..))
+
+third : Color
+third =
+    Red
+`,
+    );
+  });
+});
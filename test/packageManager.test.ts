@@ -0,0 +1,211 @@
+import { IElmPackageCache, IPackage } from "../src/compiler/elmPackageCache";
+import { ElmJson } from "../src/compiler/program";
+import { parseConstraint, parseVersion } from "../src/compiler/utils/elmUtils";
+import { PackageManager } from "../src/util/packageManager";
+
+describe("package manager", () => {
+  function p(version: string, dependencies: [string, string][] = []): IPackage {
+    return {
+      version: parseVersion(version),
+      dependencies: new Map(
+        dependencies.map(([name, constraint]) => [
+          name,
+          parseConstraint(constraint),
+        ]),
+      ),
+    };
+  }
+
+  const core: [string, string] = ["elm/core", "1.0.0 <= v < 2.0.0"];
+
+  const packages = new Map<string, IPackage[]>([
+    ["elm/core", [p("1.0.0"), p("1.0.5")]],
+    ["elm/json", [p("1.1.2", [core]), p("1.1.3", [core])]],
+    ["elm/url", [p("1.0.0", [core])]],
+    ["elm/bytes", [p("1.0.8", [core])]],
+    ["elm/random", [p("1.0.0", [core])]],
+    [
+      "elm/browser",
+      [
+        p("1.0.1", [
+          core,
+          ["elm/json", "1.0.0 <= v < 2.0.0"],
+          ["elm/url", "1.0.0 <= v < 2.0.0"],
+        ]),
+        p("1.0.2", [
+          core,
+          ["elm/json", "1.1.3 <= v < 2.0.0"],
+          ["elm/url", "1.0.0 <= v < 2.0.0"],
+        ]),
+      ],
+    ],
+    [
+      "elm/http",
+      [
+        p("2.0.0", [
+          core,
+          ["elm/bytes", "1.0.0 <= v < 2.0.0"],
+          ["elm/json", "1.0.0 <= v < 2.0.0"],
+        ]),
+      ],
+    ],
+    [
+      "elm-explorations/test",
+      [p("1.2.2", [core, ["elm/random", "1.0.0 <= v < 2.0.0"]])],
+    ],
+  ]);
+
+  const packageCache: IElmPackageCache = {
+    getVersions: (packageName) =>
+      Promise.resolve((packages.get(packageName) ?? []).map((p) => p.version)),
+    getDependencies: (packageName, version) =>
+      Promise.resolve(
+        packages
+          .get(packageName)
+          ?.find((p) => p.version.string === version.string)?.dependencies ??
+          new Map(),
+      ),
+    loadAllPackageModules: () => Promise.resolve(),
+  };
+
+  const application: ElmJson = {
+    type: "application",
+    "source-directories": ["src"],
+    "elm-version": "0.19.1",
+    dependencies: {
+      direct: {
+        "elm/browser": "1.0.1",
+        "elm/core": "1.0.0",
+      },
+      indirect: {
+        "elm/json": "1.1.2",
+        "elm/url": "1.0.0",
+      },
+    },
+    "test-dependencies": {
+      direct: {
+        "elm-explorations/test": "1.2.2",
+      },
+      indirect: {
+        "elm/random": "1.0.0",
+      },
+    },
+  };
+
+  const packageManager = new PackageManager(packageCache);
+
+  it("installs a package and keeps the existing versions", async () => {
+    const elmJson = await packageManager.install(application, "elm/http");
+
+    expect(elmJson).toEqual({
+      ...application,
+      dependencies: {
+        direct: {
+          "elm/browser": "1.0.1",
+          "elm/core": "1.0.0",
+          "elm/http": "2.0.0",
+        },
+        indirect: {
+          "elm/bytes": "1.0.8",
+          "elm/json": "1.1.2",
+          "elm/url": "1.0.0",
+        },
+      },
+    });
+
+    expect(PackageManager.getVersionChanges(application, elmJson)).toEqual([
+      { packageName: "elm/bytes", before: undefined, after: "1.0.8" },
+      { packageName: "elm/http", before: undefined, after: "2.0.0" },
+    ]);
+  });
+
+  it("moves an indirect dependency to the direct dependencies", async () => {
+    const elmJson = await packageManager.install(application, "elm/json");
+
+    expect(elmJson.dependencies).toEqual({
+      direct: {
+        "elm/browser": "1.0.1",
+        "elm/core": "1.0.0",
+        "elm/json": "1.1.2",
+      },
+      indirect: {
+        "elm/url": "1.0.0",
+      },
+    });
+  });
+
+  it("uninstalls a package and the indirect dependencies only it needed", async () => {
+    const elmJson = await packageManager.uninstall(application, "elm/browser");
+
+    expect(elmJson).toEqual({
+      ...application,
+      dependencies: {
+        direct: {
+          "elm/core": "1.0.0",
+        },
+        indirect: {},
+      },
+    });
+  });
+
+  it("upgrades all packages within their major version", async () => {
+    const elmJson = await packageManager.upgrade(application);
+
+    expect(PackageManager.getVersionChanges(application, elmJson)).toEqual([
+      { packageName: "elm/browser", before: "1.0.1", after: "1.0.2" },
+      { packageName: "elm/core", before: "1.0.0", after: "1.0.5" },
+      { packageName: "elm/json", before: "1.1.2", after: "1.1.3" },
+    ]);
+  });
+
+  it("upgrades the dependencies of a single package when needed", async () => {
+    const elmJson = await packageManager.upgrade(application, "elm/browser");
+
+    expect(PackageManager.getVersionChanges(application, elmJson)).toEqual([
+      { packageName: "elm/browser", before: "1.0.1", after: "1.0.2" },
+      { packageName: "elm/json", before: "1.1.2", after: "1.1.3" },
+    ]);
+  });
+
+  it("adds a version constraint when installing in a package", async () => {
+    const elmJson = await packageManager.install(
+      {
+        type: "package",
+        name: "author/project",
+        summary: "",
+        license: "BSD-3-Clause",
+        version: "1.0.0",
+        "exposed-modules": [],
+        "elm-version": "0.19.0 <= v < 0.20.0",
+        dependencies: {
+          "elm/core": "1.0.0 <= v < 2.0.0",
+        },
+        "test-dependencies": {},
+      },
+      "elm/json",
+    );
+
+    expect(elmJson.dependencies).toEqual({
+      "elm/core": "1.0.0 <= v < 2.0.0",
+      "elm/json": "1.1.3 <= v < 2.0.0",
+    });
+  });
+
+  it("sorts the dependencies by code point like the Elm compiler", () => {
+    expect(
+      Object.keys(
+        PackageManager.sortDependencies({
+          "elm/json": "1.1.3",
+          "NoRedInk/elm-json-decode-pipeline": "1.0.0",
+          "elm/core": "1.0.5",
+        }),
+      ),
+    ).toEqual(["NoRedInk/elm-json-decode-pipeline", "elm/core", "elm/json"]);
+  });
+
+  it("fails for packages that are not cached", async () => {
+    await expect(
+      packageManager.install(application, "elm/svg"),
+    ).rejects.toThrow("Package `elm/svg` is not in the local package cache");
+  });
+});
@@ -0,0 +1,129 @@
+import { TextEdit } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { Tree } from "web-tree-sitter";
+import { RefactorEditUtils } from "../src/util/refactorEditUtils";
+import { getSourceFiles } from "./utils/sourceParser";
+import {
+  applyEditsToSource,
+  baseUri,
+  SourceTreeParser,
+} from "./utils/sourceTreeParser";
+
+describe("refactor edit utils", () => {
+  const treeParser = new SourceTreeParser();
+
+  async function testEdit(
+    source: string,
+    getEdit: (tree: Tree) => TextEdit | undefined,
+    expectedSource: string,
+  ): Promise<void> {
+    await treeParser.init();
+
+    const sources = getSourceFiles(source);
+    const program = await treeParser.getProgram(sources);
+    const sourceFile = program.getSourceFile(
+      URI.file(baseUri + "Test.elm").toString(),
+    );
+
+    if (!sourceFile) throw new Error("Getting tree failed");
+
+    const edit = getEdit(sourceFile.tree);
+
+    expect(applyEditsToSource(sources["Test.elm"], edit ? [edit] : [])).toEqual(
+      getSourceFiles(expectedSource)["Test.elm"],
+    );
+  }
+
+  const declarations = `
+a = 1
+
+b = 2
+
+c = 3
+`;
+
+  it("removes a value and its comma from the exposing list", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (a, b, c)
+${declarations}`;
+
+    await testEdit(
+      source,
+      (tree) => RefactorEditUtils.unexposedValueInModule(tree, "a"),
+      `
+--@ Test.elm
+module Test exposing (b, c)
+${declarations}`,
+    );
+    await testEdit(
+      source,
+      (tree) => RefactorEditUtils.unexposedValueInModule(tree, "b"),
+      `
+--@ Test.elm
+module Test exposing (a, c)
+${declarations}`,
+    );
+    await testEdit(
+      source,
+      (tree) => RefactorEditUtils.unexposedValueInModule(tree, "c"),
+      `
+--@ Test.elm
+module Test exposing (a, b)
+${declarations}`,
+    );
+  });
+
+  it("removes a value up to the next one from a multiline exposing list", async () => {
+    await testEdit(
+      `
+--@ Test.elm
+module Test exposing
+    ( a
+    , b
+    , c
+    )
+${declarations}`,
+      (tree) => RefactorEditUtils.unexposedValueInModule(tree, "a"),
+      `
+--@ Test.elm
+module Test exposing
+    ( b
+    , c
+    )
+${declarations}`,
+    );
+  });
+
+  it("removes a value from the exposing list of an import", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (a)
+
+import Other exposing
+    ( x
+    , y
+    )
+${declarations}
+--@ Other.elm
+module Other exposing (x, y)
+
+x = 1
+
+y = 2
+`;
+
+    await testEdit(
+      source,
+      (tree) => RefactorEditUtils.removeValueFromImport(tree, "Other", "x"),
+      `
+--@ Test.elm
+module Test exposing (a)
+
+import Other exposing
+    ( y
+    )
+${declarations}`,
+    );
+  });
+});
@@ -0,0 +1,462 @@
+import { mockDeep } from "jest-mock-extended";
+import { container } from "tsyringe";
+import {
+  Connection,
+  DeleteFile,
+  Location,
+  ResourceOperationKind,
+  WorkspaceEdit,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { IProgram } from "../src/compiler/program";
+import { SafeDeleteHandler } from "../src/providers/handlers/safeDeleteHandler";
+import { ISafeDeleteResponse, SafeDeleteRequest } from "../src/protocol";
+import { IClientSettings, Settings } from "../src/util/settings";
+import {
+  getSourceFiles,
+  getTargetPositionFromSource,
+} from "./utils/sourceParser";
+import {
+  applyEditsToSource,
+  baseUri,
+  SourceTreeParser,
+  stripCommentLines,
+  trimTrailingWhitespace,
+} from "./utils/sourceTreeParser";
+
+describe("safeDeleteHandler", () => {
+  const treeParser = new SourceTreeParser();
+
+  const requestHandlers = new Map<string, (params: unknown) => unknown>();
+  let appliedWorkspaceEdit: WorkspaceEdit | undefined;
+
+  container.register("Connection", {
+    useValue: mockDeep<Connection>({
+      onRequest: (((
+        type: { method: string },
+        handler: (params: unknown) => unknown,
+      ) => {
+        requestHandlers.set(type.method, handler);
+      }) as unknown) as Connection["onRequest"],
+      workspace: {
+        applyEdit: (edit) => {
+          if (WorkspaceEdit.is(edit)) {
+            appliedWorkspaceEdit = edit;
+          }
+
+          return Promise.resolve({ applied: true });
+        },
+      },
+    }),
+  });
+
+  async function safeDelete(
+    source: string,
+  ): Promise<{
+    result: ISafeDeleteResponse;
+    sources: { [K: string]: string };
+  }> {
+    await treeParser.init();
+
+    const target = getTargetPositionFromSource(trimTrailingWhitespace(source));
+
+    if (!target) {
+      throw new Error("Getting sources failed");
+    }
+
+    const program = await treeParser.getProgram(target.sources);
+    const workspaces = container.resolve<IProgram[]>("ElmWorkspaces");
+    workspaces.splice(0, workspaces.length);
+    workspaces.push(program);
+
+    new SafeDeleteHandler();
+    appliedWorkspaceEdit = undefined;
+
+    const sourceUri = URI.file(baseUri + "Test.elm").toString();
+    const result = (await requestHandlers.get(SafeDeleteRequest.method)?.({
+      sourceUri,
+      params: {
+        textDocument: { uri: sourceUri },
+        range: target.range,
+        context: { diagnostics: [] },
+      },
+    })) as ISafeDeleteResponse;
+
+    return { result, sources: target.sources };
+  }
+
+  async function testSafeDelete(
+    source: string,
+    expectedSource: string,
+  ): Promise<void> {
+    const { result, sources } = await safeDelete(source);
+
+    expect(result.usages).toEqual([]);
+
+    Object.entries(
+      getSourceFiles(trimTrailingWhitespace(expectedSource)),
+    ).forEach(([uri, expected]) => {
+      expect(
+        trimTrailingWhitespace(
+          applyEditsToSource(
+            stripCommentLines(sources[uri]),
+            appliedWorkspaceEdit?.changes?.[
+              URI.file(baseUri + uri).toString()
+            ] ?? [],
+          ),
+        ),
+      ).toEqual(expected);
+    });
+  }
+
+  it("deletes an unused function with its annotation, documentation and exposing", async () => {
+    await testSafeDelete(
+      `
+--@ Test.elm
+module Test exposing (main, unused)
+
+main : Int
+main =
+    1
+
+
+{-| Not used
+-}
+unused : Int -> Int
+unused value = value
+--^
+
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (main, unused)
+
+value =
+    main
+`,
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Int
+main =
+    1
+
+--@ Other.elm
+module Other exposing (..)
+
+import Test exposing (main)
+
+value =
+    main
+`,
+    );
+  });
+
+  it("returns the usages that prevent the deletion", async () => {
+    const { result } = await safeDelete(`
+--@ Test.elm
+module Test exposing (main)
+
+main : Int
+main =
+    used 1
+
+used : Int -> Int
+used value = value
+--^
+`);
+
+    const uri = URI.file(baseUri + "Test.elm").toString();
+    expect(result.usages).toEqual<Location[]>([
+      {
+        uri,
+        range: {
+          start: { line: 4, character: 4 },
+          end: { line: 4, character: 8 },
+        },
+      },
+    ]);
+    expect(appliedWorkspaceEdit).toBeUndefined();
+  });
+
+  it("deletes an unused constructor", async () => {
+    await testSafeDelete(
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Color
+main =
+    Red
+
+type Color = Red | Green | Blue
+                 --^
+`,
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Color
+main =
+    Red
+
+type Color = Red | Blue
+`,
+    );
+  });
+
+  it("removes a wildcard branch that only matched the deleted constructor", async () => {
+    await testSafeDelete(
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Color -> Int
+main color =
+    case color of
+        Red ->
+            1
+
+        _ ->
+            2
+
+type Color = Red | Green
+                 --^
+`,
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Color -> Int
+main color =
+    case color of
+        Red ->
+            1
+
+type Color = Red
+`,
+    );
+  });
+
+  it("keeps a wildcard branch that matches other constructors", async () => {
+    await testSafeDelete(
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Color -> Int
+main color =
+    case color of
+        Red ->
+            1
+
+        _ ->
+            2
+
+type Color = Red | Green | Blue
+                 --^
+`,
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Color -> Int
+main color =
+    case color of
+        Red ->
+            1
+
+        _ ->
+            2
+
+type Color = Red | Blue
+`,
+    );
+  });
+
+  it("does not delete the only constructor of a type", async () => {
+    await expect(
+      safeDelete(`
+--@ Test.elm
+module Test exposing (main)
+
+main : Int
+main =
+    1
+
+type Color = Red
+            --^
+`),
+    ).rejects.toThrow("it is the only constructor of its type");
+    expect(appliedWorkspaceEdit).toBeUndefined();
+  });
+
+  it("deletes an unused type with its constructors", async () => {
+    await testSafeDelete(
+      `
+--@ Test.elm
+module Test exposing (Color(..), main)
+
+main : Int
+main =
+    1
+
+type Color = Red | Green
+     --^
+`,
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Int
+main =
+    1
+`,
+    );
+  });
+
+  it("returns the usages of a type and its constructors", async () => {
+    const { result } = await safeDelete(`
+--@ Test.elm
+module Test exposing (main)
+
+main =
+    Red
+
+type Color = Red | Green
+     --^
+`);
+
+    expect(result.usages).toEqual<Location[]>([
+      {
+        uri: URI.file(baseUri + "Test.elm").toString(),
+        range: {
+          start: { line: 3, character: 4 },
+          end: { line: 3, character: 7 },
+        },
+      },
+    ]);
+  });
+
+  it("deletes an unused type alias", async () => {
+    await testSafeDelete(
+      `
+--@ Test.elm
+module Test exposing (Point, main)
+
+main : Int
+main =
+    1
+
+type alias Point = { x : Int, y : Int }
+         --^
+`,
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Int
+main =
+    1
+`,
+    );
+  });
+
+  it("deletes an unused record field", async () => {
+    await testSafeDelete(
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Point -> Int
+main point =
+    point.x
+
+type alias Point =
+    { x : Int, y : Int }
+             --^
+`,
+      `
+--@ Test.elm
+module Test exposing (main)
+
+main : Point -> Int
+main point =
+    point.x
+
+type alias Point =
+    { x : Int }
+`,
+    );
+  });
+
+  it("does not delete a record field while the record constructor is called", async () => {
+    const { result } = await safeDelete(`
+--@ Test.elm
+module Test exposing (main)
+
+main : Point
+main =
+    Point 0 0
+
+type alias Point =
+    { x : Int, y : Int }
+             --^
+`);
+
+    expect(result.usages).toEqual<Location[]>([
+      {
+        uri: URI.file(baseUri + "Test.elm").toString(),
+        range: {
+          start: { line: 4, character: 4 },
+          end: { line: 4, character: 9 },
+        },
+      },
+    ]);
+    expect(appliedWorkspaceEdit).toBeUndefined();
+  });
+
+  it("deletes an unused module", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (main)
+     --^
+
+main : Int
+main =
+    1
+
+--@ Other.elm
+module Other exposing (..)
+
+value =
+    1
+`;
+
+    await expect(safeDelete(source)).rejects.toThrow(
+      "The client does not support deleting files",
+    );
+    expect(appliedWorkspaceEdit).toBeUndefined();
+
+    const settings = container.resolve<Settings>("Settings");
+    container.register("Settings", {
+      useValue: new Settings({} as IClientSettings, {
+        workspace: {
+          workspaceEdit: { resourceOperations: [ResourceOperationKind.Delete] },
+        },
+      }),
+    });
+
+    try {
+      const { result } = await safeDelete(source);
+
+      expect(result.usages).toEqual([]);
+      expect(appliedWorkspaceEdit?.documentChanges).toEqual([
+        DeleteFile.create(URI.file(baseUri + "Test.elm").toString()),
+      ]);
+    } finally {
+      container.register("Settings", { useValue: settings });
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import { SemanticTokens } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import {
+  SemanticTokensProvider,
+  SEMANTIC_TOKENS_LEGEND,
+} from "../src/providers";
+import { ISemanticTokensParams } from "../src/providers/paramsExtensions";
+import { getSourceFiles } from "./utils/sourceParser";
+import { baseUri, SourceTreeParser } from "./utils/sourceTreeParser";
+
+class MockSemanticTokensProvider extends SemanticTokensProvider {
+  public onSemanticTokens(params: ISemanticTokensParams): SemanticTokens {
+    return this.handleSemanticTokens(params);
+  }
+}
+
+interface IDecodedToken {
+  text: string;
+  type: string;
+  modifiers: string[];
+}
+
+describe("semanticTokensProvider", () => {
+  const treeParser = new SourceTreeParser();
+  const semanticTokensProvider = new MockSemanticTokensProvider();
+
+  async function getTokens(source: string): Promise<IDecodedToken[]> {
+    await treeParser.init();
+
+    const testUri = URI.file(baseUri + "Test.elm").toString();
+    const sources = getSourceFiles(source);
+    const program = await treeParser.getProgram(sources);
+    const sourceFile = program.getSourceFile(testUri);
+
+    if (!sourceFile) {
+      throw new Error("Could not get source file");
+    }
+
+    const { data } = semanticTokensProvider.onSemanticTokens({
+      program,
+      sourceFile,
+      textDocument: { uri: testUri },
+    });
+
+    const lines = sources["Test.elm"].split("\n");
+    const tokens: IDecodedToken[] = [];
+    let line = 0;
+    let character = 0;
+
+    for (let i = 0; i < data.length; i += 5) {
+      line += data[i];
+      character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+
+      tokens.push({
+        text: lines[line].substr(character, data[i + 2]),
+        type: SEMANTIC_TOKENS_LEGEND.tokenTypes[data[i + 3]],
+        modifiers: SEMANTIC_TOKENS_LEGEND.tokenModifiers.filter(
+          (_, index) => data[i + 4] & (1 << index),
+        ),
+      });
+    }
+
+    return tokens;
+  }
+
+  it("classifies declarations and references", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+
+type Msg
+    = Click
+
+type alias Model =
+    { count : Int }
+
+update : Msg -> Model -> Model
+update msg model =
+    let
+        next =
+            model.count + 1
+    in
+    case msg of
+        Click ->
+            Model next
+`;
+
+    const tokens = await getTokens(source);
+
+    expect(tokens).toEqual(
+      expect.arrayContaining([
+        { text: "Test", type: "namespace", modifiers: ["declaration"] },
+        { text: "Msg", type: "enum", modifiers: ["declaration"] },
+        { text: "Click", type: "enumMember", modifiers: ["declaration"] },
+        { text: "Model", type: "type", modifiers: ["declaration"] },
+        { text: "count", type: "property", modifiers: ["declaration"] },
+        { text: "update", type: "function", modifiers: ["declaration"] },
+        { text: "msg", type: "parameter", modifiers: ["declaration"] },
+        { text: "next", type: "variable", modifiers: ["declaration"] },
+        { text: "count", type: "property", modifiers: [] },
+        { text: "+", type: "operator", modifiers: [] },
+        { text: "Click", type: "enumMember", modifiers: [] },
+        { text: "Model", type: "struct", modifiers: [] },
+        { text: "next", type: "variable", modifiers: [] },
+      ]),
+    );
+  });
+
+  it("marks ports as readonly and deprecated values", async () => {
+    const source = `
+--@ Test.elm
+port module Test exposing (..)
+
+port send : String -> Cmd msg
+
+{-| Deprecated: use \`send\` instead
+-}
+old : String -> Cmd msg
+old =
+    send
+`;
+
+    const tokens = await getTokens(source);
+
+    expect(tokens).toEqual(
+      expect.arrayContaining([
+        {
+          text: "send",
+          type: "function",
+          modifiers: ["declaration", "readonly"],
+        },
+        { text: "send", type: "function", modifiers: ["readonly"] },
+        {
+          text: "old",
+          type: "function",
+          modifiers: ["declaration", "deprecated"],
+        },
+      ]),
+    );
+  });
+});
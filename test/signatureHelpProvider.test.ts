@@ -0,0 +1,164 @@
+import { SignatureHelp } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { SignatureHelpProvider } from "../src/providers";
+import { ISignatureHelpParams } from "../src/providers/paramsExtensions";
+import { getCaretPositionFromSource } from "./utils/sourceParser";
+import { baseUri, SourceTreeParser } from "./utils/sourceTreeParser";
+
+class MockSignatureHelpProvider extends SignatureHelpProvider {
+  public onSignatureHelp(
+    params: ISignatureHelpParams,
+  ): SignatureHelp | null | undefined {
+    return this.handleSignatureHelp(params);
+  }
+}
+
+describe("signatureHelpProvider", () => {
+  const treeParser = new SourceTreeParser();
+  const signatureHelpProvider = new MockSignatureHelpProvider();
+
+  const definitions = `
+type Shape
+    = Circle
+    | Square
+
+type Color
+    = Red
+    | Blue
+
+{-| Paint a shape
+-}
+paint : Color -> Shape -> (Shape -> Color) -> Shape
+paint color shape check =
+    shape
+`;
+
+  async function testSignatureHelp(
+    source: string,
+    expectedLabel: string | undefined,
+    expectedActiveParameter?: number,
+  ): Promise<void> {
+    await treeParser.init();
+
+    const { newSources, position, fileWithCaret } = getCaretPositionFromSource(
+      source,
+    );
+    const testUri = URI.file(baseUri + fileWithCaret).toString();
+    const program = await treeParser.getProgram(newSources);
+    const sourceFile = program.getSourceFile(testUri);
+
+    if (!sourceFile) {
+      throw new Error("Could not get source file");
+    }
+
+    const result = signatureHelpProvider.onSignatureHelp({
+      program,
+      sourceFile,
+      position,
+      textDocument: { uri: testUri },
+    });
+
+    if (!expectedLabel) {
+      expect(result).toBeUndefined();
+      return;
+    }
+
+    expect(result?.signatures[0].label).toEqual(expectedLabel);
+    expect(result?.activeParameter).toEqual(expectedActiveParameter);
+  }
+
+  it("shows the signature of a function without arguments", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    paint {-caret-}
+`;
+
+    await testSignatureHelp(
+      source,
+      "paint : Color -> Shape -> (Shape -> Color) -> Shape",
+      0,
+    );
+  });
+
+  it("highlights the active argument", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    paint Red {-caret-}
+`;
+
+    await testSignatureHelp(
+      source,
+      "paint : Color -> Shape -> (Shape -> Color) -> Shape",
+      1,
+    );
+  });
+
+  it("keeps the argument active while typing it", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    paint Red Circ{-caret-}
+`;
+
+    await testSignatureHelp(
+      source,
+      "paint : Color -> Shape -> (Shape -> Color) -> Shape",
+      1,
+    );
+  });
+
+  it("ignores applications inside closed parentheses", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    paint (identity Red) {-caret-}
+identity a =
+    a
+`;
+
+    await testSignatureHelp(
+      source,
+      "paint : Color -> Shape -> (Shape -> Color) -> Shape",
+      1,
+    );
+  });
+
+  it("fills the last parameter in pipelines", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func check =
+    check
+        |> paint Red Circle {-caret-}
+`;
+
+    await testSignatureHelp(
+      source,
+      "paint : Color -> Shape -> (Shape -> Color) -> Shape",
+      3,
+    );
+  });
+
+  it("does not show signature help for non functions", async () => {
+    const source = `
+--@ Test.elm
+module Test exposing (..)
+${definitions}
+func =
+    Red {-caret-}
+`;
+
+    await testSignatureHelp(source, undefined);
+  });
+});
@@ -0,0 +1,162 @@
+import { Location } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import {
+  ImplementationProvider,
+  TypeDefinitionProvider,
+} from "../src/providers";
+import {
+  IImplementationParams,
+  ITypeDefinitionParams,
+} from "../src/providers/paramsExtensions";
+import { getCaretPositionFromSource } from "./utils/sourceParser";
+import { baseUri, SourceTreeParser } from "./utils/sourceTreeParser";
+
+class MockTypeDefinitionProvider extends TypeDefinitionProvider {
+  public onTypeDefinition(
+    params: ITypeDefinitionParams,
+  ): Location | null | undefined {
+    return this.handleTypeDefinitionRequest(params);
+  }
+}
+
+class MockImplementationProvider extends ImplementationProvider {
+  public onImplementation(
+    params: IImplementationParams,
+  ): Location[] | null | undefined {
+    return this.handleImplementationRequest(params);
+  }
+}
+
+describe("typeDefinitionProvider", () => {
+  const treeParser = new SourceTreeParser();
+  const typeDefinitionProvider = new MockTypeDefinitionProvider();
+  const implementationProvider = new MockImplementationProvider();
+
+  async function getParams(
+    source: string,
+  ): Promise<ITypeDefinitionParams & IImplementationParams> {
+    await treeParser.init();
+
+    const { newSources, position, fileWithCaret } = getCaretPositionFromSource(
+      source,
+    );
+    const testUri = URI.file(baseUri + fileWithCaret).toString();
+    const program = await treeParser.getProgram(newSources);
+    const sourceFile = program.getSourceFile(testUri);
+
+    if (!sourceFile) {
+      throw new Error("Could not get source file");
+    }
+
+    return { program, sourceFile, position, textDocument: { uri: testUri } };
+  }
+
+  async function testTypeDefinition(
+    source: string,
+    expectedFile: string,
+    expectedLine: number,
+  ): Promise<void> {
+    const location = typeDefinitionProvider.onTypeDefinition(
+      await getParams(source),
+    );
+
+    expect(location?.uri).toEqual(URI.file(baseUri + expectedFile).toString());
+    expect(location?.range.start.line).toEqual(expectedLine);
+  }
+
+  const types = `
+--@ Types.elm
+module Types exposing (..)
+
+type alias Model =
+    { shape : Shape }
+
+type Shape
+    = Circle
+    | Square
+`;
+
+  it("jumps to the type of a value", async () => {
+    const source = `${types}
+--@ Test.elm
+module Test exposing (..)
+
+import Types exposing (..)
+
+func : Model -> Shape
+func model =
+    model.sha{-caret-}pe
+`;
+
+    await testTypeDefinition(source, "Types.elm", 5);
+  });
+
+  it("jumps to the type alias of a parameter", async () => {
+    const source = `${types}
+--@ Test.elm
+module Test exposing (..)
+
+import Types exposing (..)
+
+func : Model -> Shape
+func mod{-caret-}el =
+    model.shape
+`;
+
+    await testTypeDefinition(source, "Types.elm", 2);
+  });
+
+  it("uses the result of functions", async () => {
+    const source = `${types}
+--@ Test.elm
+module Test exposing (..)
+
+import Types exposing (..)
+
+func : Model -> Shape
+func model =
+    model.shape
+
+other =
+    fu{-caret-}nc
+`;
+
+    await testTypeDefinition(source, "Types.elm", 5);
+  });
+
+  it("finds case branches matching the constructors of a type", async () => {
+    const source = `${types}
+--@ Test.elm
+module Test exposing (..)
+
+import Types exposing (..)
+
+func : Sha{-caret-}pe -> Int
+func shape =
+    case shape of
+        Circle ->
+            1
+
+        Square ->
+            2
+
+other shape =
+    case Just shape of
+        Just Circle ->
+            1
+
+        _ ->
+            Square
+`;
+
+    const locations = implementationProvider.onImplementation(
+      await getParams(source),
+    );
+
+    expect(locations?.map((location) => location.range.start.line)).toEqual([
+      7,
+      10,
+      15,
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { TypeSearch } from "../src/compiler/typeSearch";
+import { getSourceFiles } from "./utils/sourceParser";
+import { SourceTreeParser } from "./utils/sourceTreeParser";
+
+describe("typeSearch", () => {
+  const treeParser = new SourceTreeParser();
+
+  const source = `
+--@ Maybe.elm
+module Maybe exposing (..)
+
+type Maybe a
+    = Just a
+    | Nothing
+
+map : (a -> b) -> Maybe a -> Maybe b
+map f maybe =
+    case maybe of
+        Just a ->
+            Just (f a)
+
+        Nothing ->
+            Nothing
+
+andThen : (a -> Maybe b) -> Maybe a -> Maybe b
+andThen f maybe =
+    case maybe of
+        Just a ->
+            f a
+
+        Nothing ->
+            Nothing
+
+withDefault : a -> Maybe a -> a
+withDefault default maybe =
+    case maybe of
+        Just a ->
+            a
+
+        Nothing ->
+            default
+
+--@ Utils.elm
+module Utils exposing (..)
+
+type alias Handler a b =
+    a -> b
+
+apply : Handler a b -> Maybe a -> Maybe b
+apply =
+    Maybe.map
+
+mapFlipped : Maybe x -> (x -> y) -> Maybe y
+mapFlipped maybe f =
+    Maybe.map f maybe
+`;
+
+  async function testSearch(query: string, expected: string[]): Promise<void> {
+    await treeParser.init();
+    const program = await treeParser.getProgram(getSourceFiles(source));
+
+    const matches = await TypeSearch.search(query, program);
+
+    expect(matches.map((match) => `${match.moduleName}.${match.name}`)).toEqual(
+      expected,
+    );
+  }
+
+  it("finds functions with the same signature, then with reordered arguments", async () => {
+    await testSearch("(a -> b) -> Maybe a -> Maybe b", [
+      "Maybe.map",
+      "Utils.apply",
+      "Utils.mapFlipped",
+    ]);
+  });
+
+  it("matches modulo type variable renaming", async () => {
+    await testSearch("(b -> c) -> Maybe b -> Maybe c", [
+      "Maybe.map",
+      "Utils.apply",
+      "Utils.mapFlipped",
+    ]);
+
+    await testSearch("x -> Maybe x -> x", ["Maybe.withDefault"]);
+  });
+
+  it("does not unify distinct type variables", async () => {
+    await testSearch("(a -> a) -> Maybe a -> Maybe a", []);
+  });
+
+  it("expands type aliases in the query", async () => {
+    await testSearch("Handler a (Maybe b) -> Maybe a -> Maybe b", [
+      "Maybe.andThen",
+    ]);
+  });
+
+  it("ignores queries that are not a type", async () => {
+    await testSearch("Maybe a ->", []);
+  });
+});
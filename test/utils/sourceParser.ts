@@ -1,4 +1,4 @@
-import { Position } from "vscode-languageserver";
+import { Position, Range } from "vscode-languageserver";
 
 export function getCaretPositionFromSource(
   source: string,
@@ -157,29 +157,46 @@ export function getInvokeAndTargetPositionFromSource(source: string): TestType {
   }
 }
 
+/**
+ * The target is marked with `--^` below it, `--^^^` marks a selection
+ */
 export function getTargetPositionFromSource(
   source: string,
-): { position: Position; sources: { [K: string]: string } } | undefined {
+):
+  | { position: Position; range: Range; sources: { [K: string]: string } }
+  | undefined {
   const sources = getSourceFiles(source);
 
   let position: Position | undefined;
+  let range: Range | undefined;
 
   for (const fileName in sources) {
     sources[fileName].split("\n").forEach((s, line) => {
-      const invokeCharacter = s.search(/--(\^)/);
+      const match = /--(\^+)/.exec(s);
 
-      if (invokeCharacter >= 0) {
+      if (match) {
         position = {
           line: line - 1,
-          character: invokeCharacter + 2,
+          character: match.index + 2,
+        };
+        range = {
+          start: position,
+          end:
+            match[1].length > 1
+              ? {
+                  line: line - 1,
+                  character: position.character + match[1].length,
+                }
+              : position,
         };
       }
     });
   }
 
-  if (position) {
+  if (position && range) {
     return {
       position,
+      range,
       sources,
     };
   }